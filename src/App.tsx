@@ -1,11 +1,139 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { GLRenderer } from "./gl/renderer";
-import { defaultSettings, VRSettings } from "./types";
+import {
+  applyCameraControls,
+  CameraControls,
+  noCameraControls,
+  NumericControl,
+  readCameraControls
+} from "./camera/controls";
+import {
+  CameraDevice,
+  cameraConstraints,
+  cameraOptions,
+  CameraOptions,
+  isMissingCamera,
+  listCameras,
+  parseStoredCamera,
+  serializeCamera,
+  StoredCamera
+} from "./camera/devices";
+import { FreezeView, GLRenderer, LensPath, LensPathReport } from "./gl/renderer";
+import { createFilter, getFilter, listFilters } from "./gl/filters";
+import { formatRadialTable, MAX_RADIAL_TABLE, parseRadialTable } from "./gl/lens";
+import { FrameRegistration, frameMotionAngles } from "./motion/frames";
+import { DwellTimer, GazePointer } from "./motion/gaze";
+import { requestMotionPermission, SensorMotionSource, supportsMotion } from "./motion/source";
+import { Stabilizer } from "./motion/stabilizer";
+import {
+  assignBinding,
+  bindingLabel,
+  clearBindings,
+  defaultBindings,
+  InputAction,
+  inputActions,
+  InputBindings,
+  parseStoredBindings,
+  serializeBindings
+} from "./input/bindings";
+import { RemoteHandlers, RemoteInput } from "./input/remote";
+import {
+  localeTag,
+  LocalePreference,
+  loadLocalePreference,
+  locales,
+  resolveLocale,
+  saveLocalePreference,
+  setLocale,
+  t
+} from "./i18n/locale";
+import { OcrEngine, OcrLanguage } from "./ocr/engine";
+import { speakText, stopSpeaking, supportsSpeech } from "./ocr/speech";
+import { AppUpdater, supportsUpdates } from "./pwa/updates";
+import {
+  cameraStream,
+  canShareRecording,
+  canvasStream,
+  Recording,
+  saveRecording,
+  shareRecording,
+  supportsRecording,
+  VideoRecorder
+} from "./recording/recorder";
+import {
+  CaptureMode,
+  captureModes,
+  captureVideoFrame,
+  downloadFile
+} from "./recording/capture";
+import {
+  createSnapshot,
+  readSnapshotMetadata,
+  SnapshotMetadata
+} from "./recording/snapshot";
+import { BackupPreview, createBackup, previewBackup } from "./settings/backup";
+import {
+  addPreset,
+  duplicatePreset,
+  factoryPresets,
+  movePreset,
+  presetName,
+  removePreset,
+  restoreFactoryPresets
+} from "./settings/presets";
+import {
+  clearFittingFromLocation,
+  decodeFitting,
+  encodeFitting,
+  fittingCodeFromLocation,
+  fittingLink,
+  fittingQrCode,
+  SharedFitting
+} from "./settings/share";
+import {
+  migrateSettings,
+  parseStoredPresets,
+  parseStoredSettings,
+  serializePresets,
+  serializeSettings
+} from "./settings/schema";
+import { defaultSettings, FilterSpec, PresetSlot, VRSettings } from "./types";
+import { HeadsetPanel, PanelAction } from "./vr/panel";
+import { scanQrCode, supportsQrScan, viewerToSettings } from "./viewer/cardboard";
+import {
+  createViewerProfile,
+  parseStoredViewers,
+  serializeViewers,
+  ViewerProfile
+} from "./viewer/profiles";
+import {
+  parseStoredScreen,
+  SCREEN_MM_MAX,
+  SCREEN_MM_MIN,
+  screenDevices,
+  serializeScreen,
+  StoredScreen
+} from "./viewer/screen";
 import { MdIosShare, MdShare } from "react-icons/md";
 
 const SETTINGS_KEY = "phone-vr-camera-settings";
 const PRESETS_KEY = "phone-vr-camera-presets";
+const FREEZE_MIN_ZOOM = 1;
+const FREEZE_MAX_ZOOM = 8;
+const TAP_MAX_MS = 250;
+const TAP_MAX_MOVE = 12;
+const DOUBLE_TAP_MS = 350;
+const defaultFreezeView: FreezeView = { panX: 0, panY: 0, zoom: 1 };
 const ACTIVE_PRESET_KEY = "phone-vr-camera-active-preset";
+const VIEWERS_KEY = "phone-vr-camera-viewers";
+const SCREEN_KEY = "phone-vr-camera-screen";
+const LENS_PATH_KEY = "phone-vr-camera-lens-path";
+const CAMERA_KEY = "phone-vr-camera-camera";
+const INPUT_KEY = "phone-vr-camera-input";
+/** Remote speeds per second of holding: cursor in eye widths, the rest in slider units. */
+const REMOTE_CURSOR_SPEED = 0.6;
+const REMOTE_SCALE_SPEED = 0.5;
+const REMOTE_BRIGHTNESS_SPEED = 0.25;
+const OCR_HIGHLIGHT_MS = 8000;
 
 type UiMode = "settings" | "vr";
 
@@ -19,13 +147,6 @@ type SliderProps = {
   formatValue?: (value: number) => string;
 };
 
-type PresetSlot = {
-  id: string;
-  name: string;
-  color: string;
-  settings: VRSettings;
-};
-
 type PresetInputProps = {
   preset: PresetSlot;
   isActive: boolean;
@@ -103,7 +224,7 @@ const PresetInput = ({
       className={`preset-input ${isActive ? "active" : ""} ${
         isEditing ? "editing" : ""
       }`}
-      value={preset.name}
+      value={presetName(preset)}
       readOnly={!isEditing}
       maxLength={30}
       onChange={(event) => onRename(preset.id, event.target.value)}
@@ -117,6 +238,10 @@ const PresetInput = ({
   );
 };
 
+/** Slider step for a camera range; tracks that report none get a hundredth. */
+const controlStep = (control: NumericControl) =>
+  control.step || (control.max - control.min) / 100;
+
 const Slider = ({
   label,
   min,
@@ -144,6 +269,141 @@ const Slider = ({
   );
 };
 
+type FilterChainEditorProps = {
+  filters: FilterSpec[];
+  onChange: (filters: FilterSpec[]) => void;
+};
+
+const FilterChainEditor = ({ filters, onChange }: FilterChainEditorProps) => {
+  const updateFilter = (filterId: string, patch: Partial<FilterSpec>) => {
+    onChange(
+      filters.map((filter) =>
+        filter.id === filterId ? { ...filter, ...patch } : filter
+      )
+    );
+  };
+
+  const moveFilter = (index: number, direction: number) => {
+    const target = index + direction;
+    if (target < 0 || target >= filters.length) {
+      return;
+    }
+    const next = [...filters];
+    const [moved] = next.splice(index, 1);
+    if (moved) {
+      next.splice(target, 0, moved);
+    }
+    onChange(next);
+  };
+
+  return (
+    <>
+      <div className="button-row">
+        <button
+          className={filters.length === 0 ? "toggle-active" : "ghost"}
+          onClick={() => onChange([])}
+        >
+          {t("filters.none")}
+        </button>
+        {listFilters().map((definition) => (
+          <button
+            key={definition.type}
+            className="ghost"
+            onClick={() => onChange([...filters, createFilter(definition.type)])}
+          >
+            + {t(definition.label)}
+          </button>
+        ))}
+      </div>
+      {filters.map((filter, index) => {
+        const definition = getFilter(filter.type);
+        if (!definition) {
+          return null;
+        }
+        return (
+          <div key={filter.id} className="filter-card">
+            <div className="filter-card-header">
+              <strong>
+                {index + 1}. {t(definition.label)}
+              </strong>
+              <div className="button-row">
+                <button
+                  className={filter.enabled ? "toggle-active" : "ghost"}
+                  onClick={() =>
+                    updateFilter(filter.id, { enabled: !filter.enabled })
+                  }
+                >
+                  {filter.enabled ? t("common.on") : t("common.off")}
+                </button>
+                <button
+                  className="ghost"
+                  disabled={index === 0}
+                  onClick={() => moveFilter(index, -1)}
+                >
+                  ↑
+                </button>
+                <button
+                  className="ghost"
+                  disabled={index === filters.length - 1}
+                  onClick={() => moveFilter(index, 1)}
+                >
+                  ↓
+                </button>
+                <button
+                  className="ghost"
+                  onClick={() =>
+                    onChange(filters.filter((item) => item.id !== filter.id))
+                  }
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+            {definition.params.length > 0 && (
+              <div className="controls">
+                {definition.params.map((param) => {
+                  const value = filter.params[param.name] ?? param.default;
+                  const setParam = (next: number | string) =>
+                    updateFilter(filter.id, {
+                      params: { ...filter.params, [param.name]: next }
+                    });
+                  if (param.kind === "color") {
+                    return (
+                      <label key={param.name} className="control color-control">
+                        <div className="control-header">
+                          <strong>{t(param.label)}</strong>
+                          <span>{String(value)}</span>
+                        </div>
+                        <input
+                          type="color"
+                          value={String(value)}
+                          onChange={(event) => setParam(event.target.value)}
+                        />
+                      </label>
+                    );
+                  }
+                  return (
+                    <Slider
+                      key={param.name}
+                      label={t(param.label)}
+                      min={param.min}
+                      max={param.max}
+                      step={param.step}
+                      value={Number(value)}
+                      onChange={setParam}
+                      formatValue={(next) => next.toFixed(2)}
+                    />
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
 const withAlpha = (hexColor: string, alpha: number) => {
   if (!/^#([0-9a-fA-F]{6})$/.test(hexColor)) {
     return hexColor;
@@ -178,133 +438,157 @@ export function useIsApplePlatform(): boolean {
   }, []);
 }
 
-const normalizeSettings = (partial: Partial<VRSettings>): VRSettings => {
-  const merged: VRSettings = { ...defaultSettings, ...partial };
-  if (merged.k1 <= 1 && merged.k2 <= 1) {
-    merged.k1 = merged.k1 * 100;
-    merged.k2 = merged.k2 * 100;
-  }
-  return merged;
-};
+const loadSettings = () =>
+  parseStoredSettings(
+    typeof window === "undefined" ? null : window.localStorage.getItem(SETTINGS_KEY)
+  );
+
+const loadPresets = () =>
+  parseStoredPresets(
+    typeof window === "undefined" ? null : window.localStorage.getItem(PRESETS_KEY),
+    factoryPresets
+  );
+
+const loadViewers = () =>
+  parseStoredViewers(
+    typeof window === "undefined" ? null : window.localStorage.getItem(VIEWERS_KEY)
+  );
+
+const loadScreen = () =>
+  parseStoredScreen(
+    typeof window === "undefined" ? null : window.localStorage.getItem(SCREEN_KEY)
+  );
+
+const loadCamera = () =>
+  parseStoredCamera(
+    typeof window === "undefined" ? null : window.localStorage.getItem(CAMERA_KEY)
+  );
+
+const loadBindings = () =>
+  parseStoredBindings(
+    typeof window === "undefined" ? null : window.localStorage.getItem(INPUT_KEY)
+  );
+
+const loadLensPath = (): LensPath =>
+  typeof window !== "undefined" && window.localStorage.getItem(LENS_PATH_KEY) === "shader"
+    ? "shader"
+    : "mesh";
 
-const loadSettings = (): VRSettings => {
+const loadActivePresetId = (presets: PresetSlot[]): string => {
   if (typeof window === "undefined") {
-    return defaultSettings;
+    return presets[0]?.id ?? "preset-1";
   }
-  try {
-    const stored = window.localStorage.getItem(SETTINGS_KEY);
-    if (!stored) {
-      return defaultSettings;
-    }
-    const parsed = JSON.parse(stored) as Partial<VRSettings>;
-    return normalizeSettings(parsed);
-  } catch {
-    return defaultSettings;
+  const stored = window.localStorage.getItem(ACTIVE_PRESET_KEY);
+  const exists = presets.some((preset) => preset.id === stored);
+  return exists ? (stored as string) : presets[0]?.id ?? "preset-1";
+};
+
+/** The enabled VR menu button under a cursor at `pos` within `eye`, if any. */
+const menuButtonAt = (eye: HTMLElement | null, pos: { x: number; y: number }) => {
+  if (!eye) {
+    return null;
   }
+  const rect = eye.getBoundingClientRect();
+  const target = document.elementFromPoint(
+    rect.left + pos.x * rect.width,
+    rect.top + pos.y * rect.height
+  );
+  const button = target?.closest("button");
+  return button && !button.disabled && eye.contains(button) ? button : null;
 };
 
-const defaultPresets: PresetSlot[] = [
-  {
-    id: "preset-1",
-    name: "Обычный",
-    color: "#2dd4bf",
-    settings: normalizeSettings(defaultSettings)
-  },
-  {
-    id: "preset-2",
-    name: "Чтение",
-    color: "#fbbf24",
-    settings: normalizeSettings({
-      ...defaultSettings,
-      filterMode: "amber",
-      contrast: 1.1,
-      temperature: 0.25,
-      highlights: -0.1,
-      shadows: 0.15
-    })
-  },
-  {
-    id: "preset-3",
-    name: "ТВ",
-    color: "#38bdf8",
-    settings: normalizeSettings({
-      ...defaultSettings,
-      filterMode: "deepblue",
-      contrast: 1.15,
-      gamma: 1.05,
-      temperature: -0.1
-    })
+const touchDistance = (touches: React.TouchList) => {
+  const first = touches[0];
+  const second = touches[1];
+  if (!first || !second) {
+    return null;
   }
-];
+  return Math.hypot(first.clientX - second.clientX, first.clientY - second.clientY);
+};
 
-const loadPresets = (): PresetSlot[] => {
-  if (typeof window === "undefined") {
-    return defaultPresets;
+const formatDuration = (totalSeconds: number) => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+};
+
+type IncomingFitting =
+  | { status: "valid"; shared: SharedFitting }
+  | { status: "invalid"; error: string };
+
+const readIncomingFitting = (): IncomingFitting | null => {
+  const code = fittingCodeFromLocation();
+  if (!code) {
+    return null;
   }
   try {
-    const stored = window.localStorage.getItem(PRESETS_KEY);
-    if (!stored) {
-      return defaultPresets;
-    }
-    const parsed = JSON.parse(stored) as Array<Partial<PresetSlot>>;
-    if (!Array.isArray(parsed) || parsed.length === 0) {
-      return defaultPresets;
-    }
-    return defaultPresets.map((fallback, index) => {
-      const incoming = parsed[index];
-      if (!incoming) {
-        return fallback;
-      }
-      return {
-        ...fallback,
-        ...incoming,
-        name: typeof incoming.name === "string" ? incoming.name.slice(0, 30) : fallback.name,
-        settings: normalizeSettings(incoming.settings ?? fallback.settings)
-      };
-    });
-  } catch {
-    return defaultPresets;
+    return { status: "valid", shared: decodeFitting(code) };
+  } catch (err) {
+    return {
+      status: "invalid",
+      error: err instanceof Error ? err.message : t("share.broken")
+    };
   }
 };
 
-const loadActivePresetId = (presets: PresetSlot[]): string => {
-  if (typeof window === "undefined") {
-    return presets[0]?.id ?? "preset-1";
+const FIELD_PREVIEW_LIMIT = 6;
+
+const describeChanges = (fields: string[]) => {
+  if (fields.length === 0) {
+    return t("common.changesNone");
   }
-  const stored = window.localStorage.getItem(ACTIVE_PRESET_KEY);
-  const exists = presets.some((preset) => preset.id === stored);
-  return exists ? (stored as string) : presets[0]?.id ?? "preset-1";
+  const shown = fields.slice(0, FIELD_PREVIEW_LIMIT).join(", ");
+  return fields.length > FIELD_PREVIEW_LIMIT
+    ? t("common.changesMore", { shown, count: fields.length - FIELD_PREVIEW_LIMIT })
+    : shown;
 };
 
 const errorMessage = (error: unknown) => {
   if (error instanceof DOMException) {
     switch (error.name) {
       case "NotAllowedError":
-        return "Доступ к камере запрещен. Разрешите камеру в настройках браузера.";
+        return t("error.cameraDenied");
       case "NotFoundError":
-        return "На устройстве не найдена камера.";
+        return t("error.cameraMissing");
       case "NotReadableError":
-        return "Камера уже используется другим приложением.";
+        return t("error.cameraBusy");
       default:
-        return `Ошибка камеры: ${error.message}`;
+        return t("error.camera", { message: error.message });
     }
   }
-  return "Неожиданная ошибка камеры. Попробуйте снова.";
+  // Module errors (links, lens tables, viewer profiles) carry their own text.
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+  return t("error.unexpected");
 };
 
 export default function App() {
-  const initialPresetsRef = useRef<PresetSlot[]>(loadPresets());
-  const [settings, setSettings] = useState<VRSettings>(() => loadSettings());
-  const [presetSlots, setPresetSlots] = useState<PresetSlot[]>(
-    () => initialPresetsRef.current
-  );
+  const [initialLoad] = useState(() => {
+    const loadedSettings = loadSettings();
+    const loadedPresets = loadPresets();
+    return {
+      settings: loadedSettings.value,
+      presets: loadedPresets.value,
+      issues: [...loadedSettings.issues, ...loadedPresets.issues]
+    };
+  });
+  const [settings, setSettings] = useState<VRSettings>(initialLoad.settings);
+  const [settingsIssues, setSettingsIssues] = useState<string[]>(initialLoad.issues);
+  const [localePreference, setLocalePreference] =
+    useState<LocalePreference>(loadLocalePreference);
+  const updaterRef = useRef<AppUpdater | null>(null);
+  const [updateReady, setUpdateReady] = useState(false);
+  const [presetSlots, setPresetSlots] = useState<PresetSlot[]>(initialLoad.presets);
   const [activePresetId, setActivePresetId] = useState<string>(() =>
-    loadActivePresetId(initialPresetsRef.current)
+    loadActivePresetId(initialLoad.presets)
   );
   const [uiMode, setUiMode] = useState<UiMode>("settings");
   const [settingsVisible, setSettingsVisible] = useState(false);
   const [startupMenuVisible, setStartupMenuVisible] = useState(true);
   const [vrMenuVisible, setVrMenuVisible] = useState(false);
+  const [panelVisible, setPanelVisible] = useState(false);
+  const headsetPanelRef = useRef<HeadsetPanel | null>(null);
   const [savePresetMode, setSavePresetMode] = useState(false);
   const [editingPresetId, setEditingPresetId] = useState<string | null>(null);
   const [isRunning, setIsRunning] = useState(false);
@@ -334,7 +618,82 @@ export default function App() {
   const menuTimeoutRef = useRef<number | null>(null);
   const touchStartYRef = useRef<number | null>(null);
   const touchStartXRef = useRef<number | null>(null);
+  const pinchDistanceRef = useRef<number | null>(null);
+  const tapStartRef = useRef<{ x: number; y: number; time: number } | null>(null);
+  const lastTapRef = useRef(0);
   const [cursorPos, setCursorPos] = useState({ x: 0.5, y: 0.5 });
+  const cursorPosRef = useRef(cursorPos);
+  const gazePointerRef = useRef<GazePointer | null>(null);
+  const dwellRef = useRef<DwellTimer<HTMLButtonElement | string> | null>(null);
+  const [dwellProgress, setDwellProgress] = useState(0);
+  const [gazeError, setGazeError] = useState<string | null>(null);
+  const [isFrozen, setIsFrozen] = useState(false);
+  const [freezeView, setFreezeView] = useState<FreezeView>(defaultFreezeView);
+  const ocrEngineRef = useRef<OcrEngine | null>(null);
+  const frozenFrameRef = useRef<HTMLCanvasElement | null>(null);
+  const highlightTimeoutRef = useRef<number | null>(null);
+  const [ocrBusy, setOcrBusy] = useState(false);
+  const [ocrError, setOcrError] = useState<string | null>(null);
+  const [ocrText, setOcrText] = useState("");
+  const [ocrLanguage, setOcrLanguage] = useState<OcrLanguage>("rus");
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const recorderRef = useRef<VideoRecorder | null>(null);
+  const [recordingMode, setRecordingMode] = useState<CaptureMode>("stereo");
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordingSeconds, setRecordingSeconds] = useState(0);
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [recordingError, setRecordingError] = useState<string | null>(null);
+  const snapshotInputRef = useRef<HTMLInputElement>(null);
+  const [snapshotMode, setSnapshotMode] = useState<CaptureMode>("stereo");
+  const [snapshotBusy, setSnapshotBusy] = useState(false);
+  const [snapshotError, setSnapshotError] = useState<string | null>(null);
+  const [pendingRestore, setPendingRestore] = useState<SnapshotMetadata | null>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  const [backupPreview, setBackupPreview] = useState<BackupPreview | null>(null);
+  const [importSettings, setImportSettings] = useState(false);
+  const [importSlotIds, setImportSlotIds] = useState<string[]>([]);
+  const [backupError, setBackupError] = useState<string | null>(null);
+  const [incomingFitting, setIncomingFitting] = useState<IncomingFitting | null>(
+    readIncomingFitting
+  );
+  const [sharedFitting, setSharedFitting] = useState<{
+    presetId: string;
+    link: string;
+    qrCode: string;
+  } | null>(null);
+  const [viewerProfiles, setViewerProfiles] = useState<ViewerProfile[]>(loadViewers);
+  const [viewerInput, setViewerInput] = useState("");
+  const [viewerError, setViewerError] = useState<string | null>(null);
+  const [viewerScanning, setViewerScanning] = useState(false);
+  const [screen, setScreen] = useState<StoredScreen | null>(loadScreen);
+  const [lensPath, setLensPath] = useState<LensPath>(loadLensPath);
+  const [lensReport, setLensReport] = useState<LensPathReport | null>(null);
+  const [lensComparing, setLensComparing] = useState(false);
+  const [lensError, setLensError] = useState<string | null>(null);
+  const [radialTableInput, setRadialTableInput] = useState("");
+  const [radialTableError, setRadialTableError] = useState<string | null>(null);
+  const radialTableInputRef = useRef<HTMLInputElement>(null);
+  const stabilizerRef = useRef<Stabilizer | null>(null);
+  const frameRegistrationRef = useRef<FrameRegistration | null>(null);
+  const [motionError, setMotionError] = useState<string | null>(null);
+  const [frameTracking, setFrameTracking] = useState(true);
+  const [camera, setCamera] = useState<StoredCamera>(loadCamera);
+  const cameraRef = useRef(camera);
+  /** The camera choice the running stream was opened with. */
+  const openedCameraRef = useRef<string | null>(null);
+  const [cameraDevices, setCameraDevices] = useState<CameraDevice[]>([]);
+  const [cameraChoices, setCameraChoices] = useState<CameraOptions>(() => cameraOptions(null));
+  const [cameraActive, setCameraActive] = useState<MediaTrackSettings | null>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [cameraControls, setCameraControls] = useState<CameraControls>(noCameraControls);
+  const [cameraControlError, setCameraControlError] = useState<string | null>(null);
+  const [cameraSwitching, setCameraSwitching] = useState(false);
+  const remoteRef = useRef<RemoteInput | null>(null);
+  const remoteHandlersRef = useRef<RemoteHandlers | null>(null);
+  const vrMenuEyeRef = useRef<HTMLDivElement | null>(null);
+  const [inputBindings, setInputBindings] = useState<InputBindings>(loadBindings);
+  const [learningAction, setLearningAction] = useState<InputAction | null>(null);
+  const [gamepads, setGamepads] = useState<string[]>([]);
 
   const supportsCamera = useMemo(() => {
     if (typeof navigator === "undefined") {
@@ -350,17 +709,29 @@ export default function App() {
   }, [settings]);
 
   useEffect(() => {
-    window.localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    window.localStorage.setItem(SETTINGS_KEY, serializeSettings(settings));
   }, [settings]);
 
   useEffect(() => {
-    window.localStorage.setItem(PRESETS_KEY, JSON.stringify(presetSlots));
+    window.localStorage.setItem(PRESETS_KEY, serializePresets(presetSlots));
   }, [presetSlots]);
 
   useEffect(() => {
     window.localStorage.setItem(ACTIVE_PRESET_KEY, activePresetId);
   }, [activePresetId]);
 
+  useEffect(() => {
+    window.localStorage.setItem(VIEWERS_KEY, serializeViewers(viewerProfiles));
+  }, [viewerProfiles]);
+
+  useEffect(() => {
+    if (screen) {
+      window.localStorage.setItem(SCREEN_KEY, serializeScreen(screen));
+    } else {
+      window.localStorage.removeItem(SCREEN_KEY);
+    }
+  }, [screen]);
+
   useEffect(() => {
     if (!presetSlots.some((preset) => preset.id === activePresetId)) {
       setActivePresetId(presetSlots[0]?.id ?? "preset-1");
@@ -376,6 +747,9 @@ export default function App() {
       if (menuTimeoutRef.current) {
         window.clearTimeout(menuTimeoutRef.current);
       }
+      stopSpeaking();
+      void ocrEngineRef.current?.terminate();
+      ocrEngineRef.current = null;
     };
   }, []);
 
@@ -478,6 +852,498 @@ export default function App() {
     }));
   }, []);
 
+  // The headset panel replaces the VR menu and starts with a centred cursor.
+  const showHeadsetPanel = useCallback(() => {
+    hideVrMenu();
+    setCursorPos({ x: 0.5, y: 0.5 });
+    setPanelVisible(true);
+  }, [hideVrMenu]);
+
+  const applyPanelAction = useCallback(
+    (action: PanelAction) => {
+      switch (action.kind) {
+        case "set":
+          setSettings((current) => ({ ...current, [action.field]: action.value }));
+          return;
+        case "magnifier":
+          setSettings((current) => ({
+            ...current,
+            magnifierEnabled: !current.magnifierEnabled
+          }));
+          return;
+        case "filter":
+          setSettings((current) => ({
+            ...current,
+            filters: current.filters.map((filter) =>
+              filter.id === action.id ? { ...filter, enabled: !filter.enabled } : filter
+            )
+          }));
+          return;
+        case "settings":
+          setPanelVisible(false);
+          openSettings();
+          return;
+        case "close":
+          setPanelVisible(false);
+          return;
+      }
+    },
+    [openSettings]
+  );
+
+  const pressPanel = useCallback(() => {
+    const target = headsetPanelRef.current?.targetAt(cursorPosRef.current);
+    if (target) {
+      applyPanelAction(target.action);
+    }
+  }, [applyPanelAction]);
+
+  const panFreezeView = useCallback((dx: number, dy: number) => {
+    if (typeof window === "undefined") {
+      return;
+    }
+    const eyeWidth = Math.max(1, window.innerWidth / 2);
+    const height = Math.max(1, window.innerHeight);
+    setFreezeView((view) => {
+      const scale = Math.max(1, settingsRef.current.scale * view.zoom);
+      return {
+        ...view,
+        panX: Math.min(0.5, Math.max(-0.5, view.panX - dx / eyeWidth / scale)),
+        panY: Math.min(0.5, Math.max(-0.5, view.panY + dy / height / scale))
+      };
+    });
+  }, []);
+
+  const zoomFreezeView = useCallback((factor: number) => {
+    setFreezeView((view) => ({
+      ...view,
+      zoom: Math.min(FREEZE_MAX_ZOOM, Math.max(FREEZE_MIN_ZOOM, view.zoom * factor))
+    }));
+  }, []);
+
+  const clearTextHighlights = useCallback(() => {
+    if (highlightTimeoutRef.current) {
+      window.clearTimeout(highlightTimeoutRef.current);
+      highlightTimeoutRef.current = null;
+    }
+    rendererRef.current?.setTextHighlights([]);
+  }, []);
+
+  const toggleFreeze = useCallback(() => {
+    const renderer = rendererRef.current;
+    if (!renderer) {
+      return;
+    }
+    clearTextHighlights();
+    if (renderer.isFrozen) {
+      renderer.unfreeze();
+      frozenFrameRef.current = null;
+      setIsFrozen(false);
+      setFreezeView(defaultFreezeView);
+      return;
+    }
+    if (renderer.freeze()) {
+      frozenFrameRef.current = videoRef.current
+        ? captureVideoFrame(videoRef.current)
+        : null;
+      setFreezeView(defaultFreezeView);
+      setIsFrozen(true);
+    }
+  }, [clearTextHighlights]);
+
+  const speakOcrText = useCallback((text: string, language: OcrLanguage) => {
+    if (!text || !supportsSpeech()) {
+      return;
+    }
+    setIsSpeaking(true);
+    speakText(text, language, () => setIsSpeaking(false));
+  }, []);
+
+  const stopOcrSpeech = useCallback(() => {
+    stopSpeaking();
+    setIsSpeaking(false);
+  }, []);
+
+  const readText = useCallback(async () => {
+    // A frozen frame is recognised as shown; otherwise the current live frame.
+    const frozenFrame = frozenFrameRef.current;
+    const frame =
+      frozenFrame ?? (videoRef.current ? captureVideoFrame(videoRef.current) : null);
+    if (!frame) {
+      return;
+    }
+    if (!ocrEngineRef.current) {
+      ocrEngineRef.current = new OcrEngine();
+    }
+    stopOcrSpeech();
+    clearTextHighlights();
+    setOcrBusy(true);
+    setOcrError(null);
+    try {
+      const result = await ocrEngineRef.current.recognize(frame);
+      setOcrText(result.text);
+      setOcrLanguage(result.language);
+      if (frozenFrameRef.current === frozenFrame) {
+        rendererRef.current?.setTextHighlights(result.blocks.map((block) => block.box));
+        if (!frozenFrame) {
+          highlightTimeoutRef.current = window.setTimeout(
+            clearTextHighlights,
+            OCR_HIGHLIGHT_MS
+          );
+        }
+      }
+      speakOcrText(result.text, result.language);
+    } catch (err) {
+      setOcrError(errorMessage(err));
+    } finally {
+      setOcrBusy(false);
+    }
+  }, [clearTextHighlights, speakOcrText, stopOcrSpeech]);
+
+  const copyOcrText = useCallback(() => {
+    void navigator.clipboard?.writeText(ocrText).catch(() => undefined);
+  }, [ocrText]);
+
+  const shareOcrText = useCallback(() => {
+    void navigator.share?.({ text: ocrText }).catch(() => undefined);
+  }, [ocrText]);
+
+  const canShareText = typeof navigator !== "undefined" && "share" in navigator;
+
+  const canRecord = useMemo(() => supportsRecording(), []);
+
+  const startRecording = useCallback(() => {
+    if (recorderRef.current) {
+      return;
+    }
+    let stream: MediaStream | null = null;
+    if (recordingMode === "camera") {
+      stream = streamRef.current ? cameraStream(streamRef.current) : null;
+    } else if (recordingMode === "eye") {
+      const mirror = document.createElement("canvas");
+      if (rendererRef.current) {
+        rendererRef.current.setEyeMirror(mirror);
+        stream = canvasStream(mirror);
+      }
+    } else {
+      stream = canvasRef.current ? canvasStream(canvasRef.current) : null;
+    }
+    if (!stream) {
+      return;
+    }
+    try {
+      recorderRef.current = new VideoRecorder(stream, recordingMode);
+    } catch (err) {
+      stream.getTracks().forEach((track) => track.stop());
+      rendererRef.current?.setEyeMirror(null);
+      setRecordingError(errorMessage(err));
+      return;
+    }
+    setRecording(null);
+    setRecordingError(null);
+    setRecordingSeconds(0);
+    setIsRecording(true);
+  }, [recordingMode]);
+
+  const stopRecording = useCallback(async () => {
+    const recorder = recorderRef.current;
+    if (!recorder) {
+      return;
+    }
+    recorderRef.current = null;
+    rendererRef.current?.setEyeMirror(null);
+    setIsRecording(false);
+    try {
+      setRecording(await recorder.stop());
+    } catch (err) {
+      setRecordingError(errorMessage(err));
+    }
+  }, []);
+
+  const toggleRecording = useCallback(() => {
+    if (recorderRef.current) {
+      void stopRecording();
+    } else {
+      startRecording();
+    }
+  }, [startRecording, stopRecording]);
+
+  const applyRadialTable = useCallback((text: string) => {
+    try {
+      const radialTable = parseRadialTable(text);
+      setSettings((current) => ({ ...current, radialTable }));
+      setRadialTableInput(formatRadialTable(radialTable));
+      setRadialTableError(null);
+    } catch (err) {
+      setRadialTableError(errorMessage(err));
+    }
+  }, []);
+
+  const openRadialTable = useCallback(
+    async (file: File) => {
+      const text = await file.text();
+      setRadialTableInput(text);
+      applyRadialTable(text);
+    },
+    [applyRadialTable]
+  );
+
+  const compareLensPaths = useCallback(async () => {
+    const renderer = rendererRef.current;
+    if (!renderer) {
+      return;
+    }
+    setLensComparing(true);
+    setLensError(null);
+    try {
+      setLensReport(await renderer.compareLensPaths());
+    } catch (err) {
+      setLensError(errorMessage(err));
+    } finally {
+      setLensComparing(false);
+    }
+  }, []);
+
+  const takeSnapshot = useCallback(async () => {
+    setSnapshotBusy(true);
+    setSnapshotError(null);
+    try {
+      let frame: HTMLCanvasElement | null = null;
+      if (snapshotMode === "camera") {
+        frame =
+          frozenFrameRef.current ??
+          (videoRef.current ? captureVideoFrame(videoRef.current) : null);
+      } else if (rendererRef.current) {
+        frame = await rendererRef.current.captureFrame(snapshotMode);
+      }
+      if (!frame) {
+        return;
+      }
+      const activeSlot = presetSlots.find((preset) => preset.id === activePresetId);
+      const snapshot = await createSnapshot(
+        frame,
+        settingsRef.current,
+        activeSlot ? presetName(activeSlot) : ""
+      );
+      downloadFile(snapshot.blob, snapshot.fileName);
+    } catch (err) {
+      setSnapshotError(errorMessage(err));
+    } finally {
+      setSnapshotBusy(false);
+    }
+  }, [activePresetId, presetSlots, snapshotMode]);
+
+  const openSnapshot = useCallback(async (file: File) => {
+    setSnapshotError(null);
+    setPendingRestore(null);
+    try {
+      const metadata = await readSnapshotMetadata(file);
+      if (metadata) {
+        setPendingRestore(metadata);
+      } else {
+        setSnapshotError(t("snapshot.noSettings"));
+      }
+    } catch (err) {
+      setSnapshotError(errorMessage(err));
+    }
+  }, []);
+
+  const restoreSnapshot = useCallback(() => {
+    if (pendingRestore) {
+      const restored = migrateSettings(
+        pendingRestore.settings,
+        pendingRestore.schemaVersion
+      );
+      setSettings(restored.value);
+      setSettingsIssues(restored.issues);
+      setPendingRestore(null);
+    }
+  }, [pendingRestore]);
+
+  const exportBackup = useCallback(() => {
+    const backup = createBackup(settingsRef.current, presetSlots, activePresetId);
+    downloadFile(backup.blob, backup.fileName);
+  }, [activePresetId, presetSlots]);
+
+  const openBackup = useCallback(
+    async (file: File) => {
+      setBackupError(null);
+      setBackupPreview(null);
+      try {
+        const preview = previewBackup(await file.text(), settingsRef.current, presetSlots);
+        setBackupPreview(preview);
+        setImportSettings(preview.settingsChanges.length > 0);
+        setImportSlotIds(
+          preview.slots
+            .filter(
+              (slot) =>
+                slot.currentName === null || slot.changedFields.length > 0 || slot.renamed
+            )
+            .map((slot) => slot.slotId)
+        );
+      } catch (err) {
+        setBackupError(errorMessage(err));
+      }
+    },
+    [presetSlots]
+  );
+
+  const applyBackup = useCallback(() => {
+    if (!backupPreview) {
+      return;
+    }
+    const incoming = backupPreview.slots
+      .filter((slot) => importSlotIds.includes(slot.slotId))
+      .map((slot) => slot.incoming);
+    if (incoming.length > 0) {
+      setPresetSlots((current) => [
+        ...current.map(
+          (preset) => incoming.find((item) => item.id === preset.id) ?? preset
+        ),
+        ...incoming.filter((item) => !current.some((preset) => preset.id === item.id))
+      ]);
+    }
+    if (importSettings) {
+      setSettings(backupPreview.settings);
+      if (backupPreview.activePresetId) {
+        setActivePresetId(backupPreview.activePresetId);
+      }
+    }
+    setBackupPreview(null);
+  }, [backupPreview, importSettings, importSlotIds]);
+
+  const shareFitting = useCallback(
+    async (presetId: string) => {
+      const preset = presetSlots.find((item) => item.id === presetId);
+      if (!preset) {
+        return;
+      }
+      const link = fittingLink(encodeFitting(presetName(preset), preset.settings));
+      try {
+        setSharedFitting({ presetId, link, qrCode: await fittingQrCode(link) });
+      } catch (err) {
+        setBackupError(errorMessage(err));
+      }
+    },
+    [presetSlots]
+  );
+
+  const addViewerProfile = useCallback((source: string) => {
+    try {
+      const profile = createViewerProfile(source);
+      setViewerProfiles((current) => [
+        ...current.filter((item) => item.source !== profile.source),
+        profile
+      ]);
+      setViewerInput("");
+      setViewerError(null);
+    } catch (err) {
+      setViewerError(errorMessage(err));
+    }
+  }, []);
+
+  const scanViewerQr = useCallback(async () => {
+    const frame =
+      frozenFrameRef.current ??
+      (videoRef.current ? captureVideoFrame(videoRef.current) : null);
+    if (!frame) {
+      setViewerError(t("viewer.startCamera"));
+      return;
+    }
+    setViewerScanning(true);
+    try {
+      const code = await scanQrCode(frame);
+      if (code) {
+        addViewerProfile(code);
+      } else {
+        setViewerError(t("viewer.qrNotFound"));
+      }
+    } catch (err) {
+      setViewerError(errorMessage(err));
+    } finally {
+      setViewerScanning(false);
+    }
+  }, [addViewerProfile]);
+
+  const applyViewerProfile = useCallback(
+    (profile: ViewerProfile) => {
+      const fields = viewerToSettings(profile.viewer, screen);
+      setSettings((current) => ({ ...current, ...fields }));
+    },
+    [screen]
+  );
+
+  const selectScreenDevice = useCallback((deviceId: string) => {
+    const device = screenDevices.find((item) => item.id === deviceId);
+    if (device) {
+      const { id, widthMm, heightMm } = device;
+      setScreen({ deviceId: id, widthMm, heightMm });
+    } else if (deviceId === "custom") {
+      setScreen((current) => ({
+        deviceId: null,
+        widthMm: current?.widthMm ?? 140,
+        heightMm: current?.heightMm ?? 65
+      }));
+    } else {
+      setScreen(null);
+    }
+  }, []);
+
+  const updateScreenSize = useCallback(
+    (key: "widthMm" | "heightMm", value: number) => {
+      if (!Number.isFinite(value) || value < SCREEN_MM_MIN || value > SCREEN_MM_MAX) {
+        return;
+      }
+      setScreen((current) => ({
+        deviceId: null,
+        widthMm: current?.widthMm ?? 140,
+        heightMm: current?.heightMm ?? 65,
+        [key]: value
+      }));
+    },
+    []
+  );
+
+  const applyIncomingFitting = useCallback(
+    (slotId?: string | "new") => {
+      if (incomingFitting?.status !== "valid") {
+        return;
+      }
+      const { name, fitting } = incomingFitting.shared;
+      if (slotId === "new") {
+        setPresetSlots((current) => {
+          const next = addPreset(current, { ...settingsRef.current, ...fitting });
+          const created = next[next.length - 1];
+          return created && name
+            ? [...next.slice(0, -1), { ...created, name }]
+            : next;
+        });
+      } else if (slotId) {
+        setPresetSlots((current) =>
+          current.map((preset) =>
+            preset.id === slotId
+              ? {
+                  ...preset,
+                  name: name || preset.name,
+                  settings: { ...preset.settings, ...fitting }
+                }
+              : preset
+          )
+        );
+      } else {
+        setSettings((current) => ({ ...current, ...fitting }));
+      }
+      setIncomingFitting(null);
+    },
+    [incomingFitting]
+  );
+
+  const shareLastRecording = useCallback(() => {
+    if (recording) {
+      void shareRecording(recording).catch(() => undefined);
+    }
+  }, [recording]);
+
   const applyNativeZoom = useCallback(async (desiredScale: number) => {
     const safeDesired = Math.max(1, desiredScale);
     const track = streamRef.current?.getVideoTracks()[0];
@@ -513,20 +1379,28 @@ export default function App() {
   }, []);
 
   const handleGestureReveal = useCallback(() => {
-    if (startupMenuVisible || settingsVisible || !isRunning) {
+    if (startupMenuVisible || settingsVisible || panelVisible || !isRunning) {
       return;
     }
     closeSettings();
     showVrMenu();
-  }, [closeSettings, isRunning, settingsVisible, showVrMenu, startupMenuVisible]);
+  }, [closeSettings, isRunning, panelVisible, settingsVisible, showVrMenu, startupMenuVisible]);
 
   const handleWheel = useCallback(
     (event: React.WheelEvent<HTMLDivElement>) => {
       if (settingsVisible || startupMenuVisible || !isRunning) {
         return;
       }
+      if (isFrozen && !vrMenuVisible && !panelVisible) {
+        if (event.ctrlKey) {
+          zoomFreezeView(Math.exp(-event.deltaY * 0.01));
+        } else {
+          panFreezeView(-event.deltaX, -event.deltaY);
+        }
+        return;
+      }
       updateCursor(event.deltaX, event.deltaY);
-      if (vrMenuVisible) {
+      if (vrMenuVisible || panelVisible) {
         resetMenuTimer();
         return;
       }
@@ -536,20 +1410,34 @@ export default function App() {
     },
     [
       handleGestureReveal,
+      isFrozen,
       isRunning,
+      panFreezeView,
+      panelVisible,
       resetMenuTimer,
       settingsVisible,
       startupMenuVisible,
       updateCursor,
-      vrMenuVisible
+      vrMenuVisible,
+      zoomFreezeView
     ]
   );
 
+  const recenterStabilization = useCallback(() => {
+    stabilizerRef.current?.recenter();
+  }, []);
+
   const handleTouchStart = useCallback(
     (event: React.TouchEvent<HTMLDivElement>) => {
       if (event.touches.length === 1) {
         touchStartYRef.current = event.touches[0].clientY;
         touchStartXRef.current = event.touches[0].clientX;
+        pinchDistanceRef.current = null;
+        const touch = event.touches.item(0);
+        tapStartRef.current = { x: touch.clientX, y: touch.clientY, time: event.timeStamp };
+      } else if (event.touches.length === 2) {
+        pinchDistanceRef.current = touchDistance(event.touches);
+        tapStartRef.current = null;
       }
     },
     []
@@ -560,6 +1448,14 @@ export default function App() {
       if (settingsVisible || startupMenuVisible) {
         return;
       }
+      if (isFrozen && !vrMenuVisible && !panelVisible && event.touches.length === 2) {
+        const distance = touchDistance(event.touches);
+        if (pinchDistanceRef.current && distance) {
+          zoomFreezeView(distance / pinchDistanceRef.current);
+        }
+        pinchDistanceRef.current = distance;
+        return;
+      }
       if (
         touchStartYRef.current === null ||
         touchStartXRef.current === null ||
@@ -568,10 +1464,13 @@ export default function App() {
         return;
       }
       const current = event.touches[0];
+      if (!current) {
+        return;
+      }
       const dx = current.clientX - touchStartXRef.current;
       const dy = current.clientY - touchStartYRef.current;
 
-      if (vrMenuVisible) {
+      if (vrMenuVisible || panelVisible) {
         updateCursor(dx, dy);
         resetMenuTimer();
         touchStartXRef.current = current.clientX;
@@ -579,6 +1478,13 @@ export default function App() {
         return;
       }
 
+      if (isFrozen) {
+        panFreezeView(dx, dy);
+        touchStartXRef.current = current.clientX;
+        touchStartYRef.current = current.clientY;
+        return;
+      }
+
       if (Math.abs(dx) > 30 || Math.abs(dy) > 30) {
         handleGestureReveal();
         updateCursor(dx, dy);
@@ -588,18 +1494,52 @@ export default function App() {
     },
     [
       handleGestureReveal,
+      isFrozen,
+      panFreezeView,
+      panelVisible,
       resetMenuTimer,
       settingsVisible,
       startupMenuVisible,
       updateCursor,
-      vrMenuVisible
+      vrMenuVisible,
+      zoomFreezeView
     ]
   );
 
-  const handleTouchEnd = useCallback(() => {
-    touchStartYRef.current = null;
-    touchStartXRef.current = null;
-  }, []);
+  // A double tap (or a double press of the viewer's button) recentres the
+  // stabilised view.
+  const handleTouchEnd = useCallback(
+    (event: React.TouchEvent<HTMLDivElement>) => {
+      touchStartYRef.current = null;
+      touchStartXRef.current = null;
+      pinchDistanceRef.current = null;
+      const tap = tapStartRef.current;
+      const touch = event.changedTouches[0];
+      tapStartRef.current = null;
+      if (
+        !tap ||
+        !touch ||
+        event.timeStamp - tap.time > TAP_MAX_MS ||
+        Math.hypot(touch.clientX - tap.x, touch.clientY - tap.y) > TAP_MAX_MOVE
+      ) {
+        return;
+      }
+      // On the headset panel a tap (or the viewer's button) presses at the cursor.
+      if (panelVisible) {
+        pressPanel();
+        return;
+      }
+      if (event.timeStamp - lastTapRef.current <= DOUBLE_TAP_MS) {
+        lastTapRef.current = 0;
+        if (!settingsVisible && !vrMenuVisible) {
+          recenterStabilization();
+        }
+        return;
+      }
+      lastTapRef.current = event.timeStamp;
+    },
+    [panelVisible, pressPanel, recenterStabilization, settingsVisible, vrMenuVisible]
+  );
 
   const handleStagePointerDown = useCallback(
     (event: React.PointerEvent<HTMLDivElement>) => {
@@ -618,44 +1558,74 @@ export default function App() {
     [closeSettings, settingsVisible]
   );
 
+  // Opens the stored camera. When it is gone (unplugged, or ids reset with
+  // the site data) the default rear camera is opened and remembered instead.
+  const openCamera = useCallback(async () => {
+    const choice = cameraRef.current;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia(cameraConstraints(choice));
+      openedCameraRef.current = serializeCamera(choice);
+      return stream;
+    } catch (err) {
+      if (!choice.deviceId || !isMissingCamera(err)) {
+        throw err;
+      }
+      const fallback: StoredCamera = { ...choice, deviceId: null };
+      const stream = await navigator.mediaDevices.getUserMedia(cameraConstraints(fallback));
+      openedCameraRef.current = serializeCamera(fallback);
+      setCamera(fallback);
+      setCameraError(t("source.missing"));
+      return stream;
+    }
+  }, []);
+
+  const attachStream = useCallback(
+    async (stream: MediaStream, video: HTMLVideoElement) => {
+      streamRef.current = stream;
+      video.srcObject = stream;
+      video.playsInline = true;
+      video.muted = true;
+
+      await video.play();
+      await applyNativeZoom(settingsRef.current.scale);
+      rendererRef.current?.setOpticalZoom(opticalZoomRef.current);
+
+      const track = stream.getVideoTracks()[0] ?? null;
+      setCameraChoices(cameraOptions(track));
+      setCameraActive(track?.getSettings() ?? null);
+      setCameraControls(readCameraControls(track));
+      setCameraDevices(await listCameras());
+    },
+    [applyNativeZoom]
+  );
+
   const handleStart = useCallback(async () => {
     setError(null);
     if (!supportsCamera) {
-      setError("Доступ к камере не поддерживается в этом браузере.");
+      setError(t("error.cameraUnsupported"));
       return;
     }
 
     if (isRunning) {
       return;
     }
+    if (settingsRef.current.stabilization) {
+      void requestMotionPermission();
+    }
 
     try {
-      const constraints: MediaStreamConstraints = {
-        video: {
-          facingMode: { ideal: "environment" },
-          width: { ideal: 1280 },
-          height: { ideal: 720 }
-        },
-        audio: false
-      };
-
-      const stream = await navigator.mediaDevices.getUserMedia(constraints);
-      streamRef.current = stream;
+      const stream = await openCamera();
 
       const video = videoRef.current;
       if (!video) {
-        throw new Error("Не найден video элемент.");
+        stream.getTracks().forEach((track) => track.stop());
+        throw new Error(t("error.noVideo"));
       }
 
-      video.srcObject = stream;
-      video.playsInline = true;
-      video.muted = true;
-
-      await video.play();
-      await applyNativeZoom(settingsRef.current.scale);
+      await attachStream(stream, video);
 
       if (!canvasRef.current) {
-        throw new Error("Не найден canvas элемент.");
+        throw new Error(t("error.noCanvas"));
       }
 
       if (!rendererRef.current) {
@@ -669,26 +1639,63 @@ export default function App() {
         );
       }
 
+      rendererRef.current.setOpticalZoom(opticalZoomRef.current);
       rendererRef.current.start();
       setIsRunning(true);
     } catch (err) {
       setError(errorMessage(err));
       setIsRunning(false);
     }
-  }, [applyNativeZoom, isRunning, supportsCamera]);
+  }, [attachStream, isRunning, openCamera, supportsCamera]);
 
   const handleStop = useCallback(() => {
     rendererRef.current?.stop();
+    rendererRef.current?.unfreeze();
+    void stopRecording();
+    clearTextHighlights();
+    stopOcrSpeech();
+    frozenFrameRef.current = null;
+    setIsFrozen(false);
+    setFreezeView(defaultFreezeView);
     if (videoRef.current) {
       videoRef.current.pause();
       videoRef.current.srcObject = null;
     }
     streamRef.current?.getTracks().forEach((track) => track.stop());
     streamRef.current = null;
+    setCameraActive(null);
+    setCameraControls(noCameraControls);
     opticalZoomRef.current = 1;
     effectiveScaleRef.current = settingsRef.current.scale;
     setIsRunning(false);
-  }, []);
+  }, [clearTextHighlights, stopOcrSpeech, stopRecording]);
+
+  /**
+   * Reopens the stream with the current camera choice. The renderer keeps
+   * running and picks up the new frames (and frame size) from the video.
+   */
+  const switchCamera = useCallback(async () => {
+    const video = videoRef.current;
+    if (!video || !streamRef.current) {
+      return;
+    }
+    setCameraSwitching(true);
+    setCameraError(null);
+    if (recorderRef.current) {
+      await stopRecording();
+    }
+    // Many phones cannot open a second camera while one is streaming.
+    streamRef.current.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    try {
+      await attachStream(await openCamera(), video);
+    } catch (err) {
+      setCameraError(errorMessage(err));
+      handleStop();
+    } finally {
+      setCameraSwitching(false);
+    }
+  }, [attachStream, handleStop, openCamera, stopRecording]);
 
   const applyPreset = useCallback(
     (presetId: string, options?: { keepSettings?: boolean }) => {
@@ -734,11 +1741,30 @@ export default function App() {
     );
   }, []);
 
+  const updatePresetColor = useCallback((presetId: string, color: string) => {
+    setPresetSlots((current) =>
+      current.map((preset) => (preset.id === presetId ? { ...preset, color } : preset))
+    );
+  }, []);
+
+  const createPreset = useCallback(() => {
+    const next = addPreset(presetSlots, settingsRef.current);
+    const created = next[next.length - 1];
+    setPresetSlots(next);
+    if (created) {
+      setActivePresetId(created.id);
+    }
+  }, [presetSlots]);
+
   const isApplePlatform = useIsApplePlatform();
+  const activePreset = presetSlots.find((preset) => preset.id === activePresetId);
+  const startupColumns = Math.min(Math.max(presetSlots.length, 1), 4);
+  const vrMenuColumns = presetSlots.length > 4 ? 3 : 2;
 
   useEffect(() => {
     if (!isLandscape) {
       handleStop();
+      rendererRef.current?.dispose();
       rendererRef.current = null;
       autoStartRef.current = false;
       setStartupMenuVisible(true);
@@ -752,9 +1778,428 @@ export default function App() {
       effectiveScaleRef.current = settings.scale;
       return;
     }
-    void applyNativeZoom(settings.scale);
+    void applyNativeZoom(settings.scale).then(() =>
+      rendererRef.current?.setOpticalZoom(opticalZoomRef.current)
+    );
   }, [applyNativeZoom, isRunning, settings.scale]);
 
+  useEffect(() => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!isRunning || !track) {
+      setCameraControlError(null);
+      return;
+    }
+    // cameraControls changes with every opened stream, so a new track gets
+    // the stored values too.
+    applyCameraControls(track, {
+      torch: settings.torch,
+      manualFocus: settings.manualFocus,
+      focusDistance: settings.focusDistance,
+      exposureCompensation: settings.exposureCompensation,
+      manualExposure: settings.manualExposure,
+      iso: settings.iso,
+      manualWhiteBalance: settings.manualWhiteBalance,
+      colorTemperature: settings.colorTemperature
+    }).then(
+      () => setCameraControlError(null),
+      (err) =>
+        setCameraControlError(t("controls.rejected", { message: errorMessage(err) }))
+    );
+  }, [
+    cameraControls,
+    isRunning,
+    settings.colorTemperature,
+    settings.exposureCompensation,
+    settings.focusDistance,
+    settings.iso,
+    settings.manualExposure,
+    settings.manualFocus,
+    settings.manualWhiteBalance,
+    settings.torch
+  ]);
+
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!isRunning || !settings.stabilization || !renderer) {
+      return;
+    }
+    const stabilizer = new Stabilizer({
+      strength: settingsRef.current.stabilizationStrength / 100,
+      windowMs: settingsRef.current.stabilizationWindow
+    });
+    stabilizerRef.current = stabilizer;
+    renderer.setStabilizer(stabilizer);
+    setMotionError(null);
+    const release = () => {
+      renderer.setStabilizer(null);
+      stabilizerRef.current = null;
+    };
+
+    if (settings.stabilizationFrames || !supportsMotion()) {
+      const registration = new FrameRegistration((time, motion) => {
+        const video = videoRef.current;
+        const aspect =
+          video && video.videoHeight > 0 ? video.videoWidth / video.videoHeight : 16 / 9;
+        stabilizer.move(time, ...frameMotionAngles(motion, aspect, opticalZoomRef.current));
+      }, setFrameTracking);
+      frameRegistrationRef.current = registration;
+      renderer.setFrameSink((frame) => registration.submit(frame));
+      return () => {
+        renderer.setFrameSink(null);
+        registration.terminate();
+        frameRegistrationRef.current = null;
+        setFrameTracking(true);
+        release();
+      };
+    }
+
+    const source = new SensorMotionSource();
+    source
+      .start((sample) => stabilizer.push(sample))
+      .catch((err) => setMotionError(errorMessage(err)));
+    return () => {
+      source.stop();
+      release();
+    };
+  }, [isRunning, settings.stabilization, settings.stabilizationFrames]);
+
+  // The last frame before a freeze is no reference for the first one after.
+  useEffect(() => {
+    frameRegistrationRef.current?.reset();
+  }, [isFrozen]);
+
+  useEffect(() => {
+    stabilizerRef.current?.configure({
+      strength: settings.stabilizationStrength / 100,
+      windowMs: settings.stabilizationWindow
+    });
+  }, [settings.stabilizationStrength, settings.stabilizationWindow]);
+
+  useEffect(() => {
+    rendererRef.current?.setFreezeView(freezeView);
+  }, [freezeView]);
+
+  useEffect(() => {
+    rendererRef.current?.setScreenSize(screen);
+  }, [isRunning, screen]);
+
+  useEffect(() => {
+    cameraRef.current = camera;
+    window.localStorage.setItem(CAMERA_KEY, serializeCamera(camera));
+    if (isRunning && openedCameraRef.current !== serializeCamera(camera)) {
+      void switchCamera();
+    }
+  }, [camera, isRunning, switchCamera]);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.addEventListener) {
+      return;
+    }
+    const refresh = () => {
+      void listCameras().then(setCameraDevices);
+    };
+    refresh();
+    navigator.mediaDevices.addEventListener("devicechange", refresh);
+    return () => navigator.mediaDevices.removeEventListener("devicechange", refresh);
+  }, []);
+
+  useEffect(() => {
+    if (!supportsUpdates()) {
+      return;
+    }
+    const updater = new AppUpdater();
+    updaterRef.current = updater;
+    // Without a service worker the app still works, just not offline.
+    updater.start(() => setUpdateReady(true)).catch(() => undefined);
+    return () => {
+      updater.stop();
+      updaterRef.current = null;
+    };
+  }, []);
+
+  const changeLocale = useCallback((preference: LocalePreference) => {
+    // `t` reads the module's locale, so switch it before the re-render.
+    setLocale(resolveLocale(preference));
+    saveLocalePreference(preference);
+    setLocalePreference(preference);
+  }, []);
+
+  const applyUpdate = useCallback(() => {
+    if (!updaterRef.current?.apply()) {
+      setUpdateReady(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const remote = new RemoteInput();
+    remoteRef.current = remote;
+    // Started once; the handlers read the current render through the ref.
+    remote.start({
+      handles: (action) => remoteHandlersRef.current?.handles(action) ?? false,
+      trigger: (action) => remoteHandlersRef.current?.trigger(action),
+      hold: (action, amount) => remoteHandlersRef.current?.hold(action, amount)
+    });
+    const refresh = () => setGamepads(remote.connectedPads());
+    refresh();
+    window.addEventListener("gamepadconnected", refresh);
+    window.addEventListener("gamepaddisconnected", refresh);
+    return () => {
+      window.removeEventListener("gamepadconnected", refresh);
+      window.removeEventListener("gamepaddisconnected", refresh);
+      remote.stop();
+      remoteRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    window.localStorage.setItem(INPUT_KEY, serializeBindings(inputBindings));
+    remoteRef.current?.setBindings(inputBindings);
+  }, [inputBindings]);
+
+  const learnBinding = useCallback((action: InputAction) => {
+    setLearningAction(action);
+    remoteRef.current?.learn((binding) => {
+      setInputBindings((current) => assignBinding(current, action, binding));
+      setLearningAction(null);
+    });
+  }, []);
+
+  const cancelLearning = useCallback(() => {
+    remoteRef.current?.cancelLearn();
+    setLearningAction(null);
+  }, []);
+
+  useEffect(() => {
+    if (!settingsVisible) {
+      cancelLearning();
+    }
+  }, [cancelLearning, settingsVisible]);
+
+  // Clicks whatever the left eye's cursor is over; both eyes show the same menu.
+  const clickAtCursor = useCallback(() => {
+    const button = menuButtonAt(vrMenuEyeRef.current, cursorPos);
+    if (button) {
+      button.click();
+    } else {
+      resetMenuTimer();
+    }
+  }, [cursorPos, resetMenuTimer]);
+
+  useEffect(() => {
+    cursorPosRef.current = cursorPos;
+  }, [cursorPos]);
+
+  // Runs only while the VR menu or the headset panel is open, so the sensors
+  // sleep otherwise and every opening starts from the recentred cursor.
+  useEffect(() => {
+    if (!isRunning || !(vrMenuVisible || panelVisible) || !settings.gazeEnabled) {
+      return;
+    }
+    setGazeError(null);
+    const pointer = new GazePointer(new SensorMotionSource());
+    pointer.configure(settingsRef.current.gazeSensitivity);
+    gazePointerRef.current = pointer;
+    pointer
+      .start((dx, dy) =>
+        setCursorPos((pos) => ({
+          x: Math.min(1, Math.max(0, pos.x + dx)),
+          y: Math.min(1, Math.max(0, pos.y + dy))
+        }))
+      )
+      .catch((err) => setGazeError(errorMessage(err)));
+
+    // Menu buttons are told apart by element, panel targets by key.
+    const dwell = new DwellTimer<HTMLButtonElement | string>(settingsRef.current.gazeDwell);
+    dwellRef.current = dwell;
+    let target: HTMLButtonElement | string | null | undefined;
+    let frame = 0;
+    const tick = (time: number) => {
+      const button = panelVisible
+        ? headsetPanelRef.current?.targetAt(cursorPosRef.current)?.key ?? null
+        : menuButtonAt(vrMenuEyeRef.current, cursorPosRef.current);
+      if (target === undefined) {
+        dwell.reset(button);
+        target = button;
+      }
+      if (button !== target) {
+        target = button;
+        resetMenuTimer();
+      }
+      const { progress, selected } = dwell.update(button, time);
+      // Whole percents: the ring needs no more, and App re-renders less.
+      setDwellProgress(Math.round(progress * 100) / 100);
+      if (selected) {
+        if (typeof button === "string") {
+          pressPanel();
+        } else {
+          button?.click();
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => {
+      cancelAnimationFrame(frame);
+      pointer.stop();
+      gazePointerRef.current = null;
+      dwellRef.current = null;
+      setDwellProgress(0);
+    };
+  }, [isRunning, panelVisible, pressPanel, resetMenuTimer, settings.gazeEnabled, vrMenuVisible]);
+
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!panelVisible) {
+      renderer?.setPanel(null);
+      return;
+    }
+    const panel = headsetPanelRef.current ?? new HeadsetPanel();
+    headsetPanelRef.current = panel;
+    panel.draw(settings, cursorPos, dwellProgress);
+    renderer?.setPanel(panel.canvas);
+  }, [cursorPos, dwellProgress, isRunning, panelVisible, settings]);
+
+  useEffect(() => {
+    gazePointerRef.current?.configure(settings.gazeSensitivity);
+    dwellRef.current?.configure(settings.gazeDwell);
+  }, [settings.gazeDwell, settings.gazeSensitivity]);
+
+  useEffect(() => {
+    remoteHandlersRef.current = {
+      // The settings panel keeps its keyboard; the menu button still closes it.
+      handles: (action) => !settingsVisible || action === "menu",
+      trigger: (action) => {
+        switch (action) {
+          case "nextPreset":
+          case "previousPreset": {
+            const index = presetSlots.findIndex((preset) => preset.id === activePresetId);
+            const step = action === "nextPreset" ? 1 : -1;
+            const next =
+              presetSlots[(Math.max(index, 0) + step + presetSlots.length) % presetSlots.length];
+            if (next) {
+              applyPreset(next.id);
+            }
+            return;
+          }
+          case "menu":
+            if (settingsVisible) {
+              closeSettings();
+            } else if (panelVisible) {
+              setPanelVisible(false);
+            } else if (vrMenuVisible) {
+              hideVrMenu();
+            } else {
+              handleGestureReveal();
+            }
+            return;
+          case "click":
+            if (startupMenuVisible) {
+              applyPreset(activePresetId);
+            } else if (panelVisible) {
+              pressPanel();
+            } else if (vrMenuVisible) {
+              clickAtCursor();
+            } else {
+              handleGestureReveal();
+            }
+            return;
+          case "magnifier":
+            setSettings((current) => ({
+              ...current,
+              magnifierEnabled: !current.magnifierEnabled
+            }));
+            return;
+          default:
+            return;
+        }
+      },
+      hold: (action, amount) => {
+        switch (action) {
+          case "cursorUp":
+          case "cursorDown":
+          case "cursorLeft":
+          case "cursorRight": {
+            if (!vrMenuVisible && !panelVisible) {
+              handleGestureReveal();
+              return;
+            }
+            const distance = amount * REMOTE_CURSOR_SPEED;
+            const dx =
+              action === "cursorLeft" ? -distance : action === "cursorRight" ? distance : 0;
+            const dy = action === "cursorUp" ? -distance : action === "cursorDown" ? distance : 0;
+            setCursorPos((pos) => ({
+              x: Math.min(1, Math.max(0, pos.x + dx)),
+              y: Math.min(1, Math.max(0, pos.y + dy))
+            }));
+            resetMenuTimer();
+            return;
+          }
+          case "scaleUp":
+          case "scaleDown": {
+            const delta = (action === "scaleUp" ? 1 : -1) * amount * REMOTE_SCALE_SPEED;
+            setSettings((current) => ({
+              ...current,
+              scale: Math.min(3, Math.max(1, current.scale + delta))
+            }));
+            return;
+          }
+          case "brightnessUp":
+          case "brightnessDown": {
+            const delta =
+              (action === "brightnessUp" ? 1 : -1) * amount * REMOTE_BRIGHTNESS_SPEED;
+            setSettings((current) => ({
+              ...current,
+              brightness: Math.min(0.5, Math.max(-0.5, current.brightness + delta))
+            }));
+            return;
+          }
+          default:
+            return;
+        }
+      }
+    };
+  }, [
+    activePresetId,
+    applyPreset,
+    clickAtCursor,
+    closeSettings,
+    handleGestureReveal,
+    hideVrMenu,
+    panelVisible,
+    presetSlots,
+    pressPanel,
+    resetMenuTimer,
+    settingsVisible,
+    startupMenuVisible,
+    vrMenuVisible
+  ]);
+
+  useEffect(() => {
+    window.localStorage.setItem(LENS_PATH_KEY, lensPath);
+    rendererRef.current?.setLensPath(lensPath);
+  }, [isRunning, lensPath]);
+
+  useEffect(() => {
+    if (incomingFitting) {
+      clearFittingFromLocation();
+    }
+  }, [incomingFitting]);
+
+  useEffect(() => {
+    setSharedFitting(null);
+  }, [presetSlots]);
+
+  useEffect(() => {
+    if (!isRecording) {
+      return;
+    }
+    const startedAt = Date.now();
+    const interval = window.setInterval(() => {
+      setRecordingSeconds(Math.floor((Date.now() - startedAt) / 1000));
+    }, 500);
+    return () => window.clearInterval(interval);
+  }, [isRecording]);
+
   useEffect(() => {
     if (settingsVisible) {
       resetSettingsTimer();
@@ -771,9 +2216,16 @@ export default function App() {
     if (startupMenuVisible) {
       closeSettings();
       hideVrMenu();
+      setPanelVisible(false);
     }
   }, [closeSettings, hideVrMenu, startupMenuVisible]);
 
+  useEffect(() => {
+    if (!isRunning) {
+      setPanelVisible(false);
+    }
+  }, [isRunning]);
+
   useEffect(() => {
     if (!settingsVisible) {
       setEditingPresetId(null);
@@ -784,6 +2236,7 @@ export default function App() {
   useEffect(() => {
     if (uiMode !== "vr") {
       hideVrMenu();
+      setPanelVisible(false);
     }
   }, [hideVrMenu, uiMode]);
 
@@ -803,12 +2256,12 @@ export default function App() {
       <div className="orientation-screen">
         <div className="orientation-card ">
           <div className="orientation-icon" aria-hidden="true" />
-          <div className="orientation-title">Поверните устройство</div>
+          <div className="orientation-title">{t("orientation.title")}</div>
           <div className="orientation-text">
-            Для корректной работы переведите телефон в альбомную ориентацию.
+            {t("orientation.text")}
           </div>
           <div className="orientation-hint">
-            После поворота интерфейс появится автоматически.
+            {t("orientation.hint")}
           </div>
         </div>
 
@@ -818,12 +2271,12 @@ export default function App() {
           ) : (
             <MdShare size={36} aria-hidden="true" />
           )}
-          <div className="orientation-title">Добавьте на главный экран</div>
+          <div className="orientation-title">{t("install.title")}</div>
           <div className="orientation-text">
-            Для полноценного опыта использования добавьте ссылку на главный экран. Нажмите "поделиться", затем выберите "добавить на главный экран" или "добавить на экран домой".
+            {t("install.text")}
           </div>
           <div className="orientation-hint">
-            После этого откройте приложение с рабочего стола. Оно запустится как полноценное приложение.
+            {t("install.hint")}
           </div>
         </div>
 
@@ -837,7 +2290,7 @@ export default function App() {
         <div className="brand">Phone VR Camera</div>
         <span className="chip">WebGL</span>
         <div className="status">
-          {isRunning ? "Запущено" : "Остановлено"}
+          {isRunning ? t("status.running") : t("status.stopped")}
         </div>
         <button
           className="ghost"
@@ -853,7 +2306,7 @@ export default function App() {
             })
           }
         >
-          {uiMode === "settings" ? "VR режим" : "Обычный режим"}
+          {uiMode === "settings" ? t("mode.vr") : t("mode.settings")}
         </button>
       </header>
 
@@ -869,12 +2322,68 @@ export default function App() {
           <canvas ref={canvasRef} />
         </div>
 
+        {updateReady && !settingsVisible && !vrMenuVisible && !panelVisible && (
+          <div className="update-dual" aria-live="polite">
+            {["left", "right"].map((eye) => (
+              <div key={eye} className="update-eye">
+                <span className="update-indicator">{t("update.banner")}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isRecording && (
+          <div className="recording-dual" aria-live="polite">
+            {["left", "right"].map((eye) => (
+              <div key={eye} className="recording-eye">
+                <span className="recording-indicator">
+                  <span className="recording-dot" aria-hidden="true" />
+                  {t("recording.indicator", { time: formatDuration(recordingSeconds) })}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="hud">
+          <button
+            className="ghost"
+            disabled={!isRunning || snapshotBusy}
+            onClick={() => void takeSnapshot()}
+          >
+            {t("hud.photo")}
+          </button>
+          {canRecord && (
+            <button
+              className={isRecording ? "toggle-active recording" : "ghost"}
+              disabled={!isRunning}
+              onClick={toggleRecording}
+            >
+              {isRecording ? t("recording.stop") : t("recording.record")}
+            </button>
+          )}
+          {isFrozen && (
+            <>
+              <button className="ghost" onClick={() => zoomFreezeView(1 / 1.25)}>
+                −
+              </button>
+              <button className="ghost" onClick={() => zoomFreezeView(1.25)}>
+                +
+              </button>
+            </>
+          )}
+          <button
+            className={isFrozen ? "toggle-active" : "ghost"}
+            disabled={!isRunning}
+            onClick={toggleFreeze}
+          >
+            {isFrozen ? t("freeze.live") : t("freeze.freeze")}
+          </button>
           <button
             className={settings.calibration ? "toggle-active" : "ghost"}
             onClick={() => updateSettings({ calibration: !settings.calibration })}
           >
-            Калибровка
+            {t("hud.calibration")}
           </button>
           <button
             ref={settingsButtonRef}
@@ -887,13 +2396,16 @@ export default function App() {
               }
             }}
           >
-            Настройки
+            {t("hud.settings")}
           </button>
         </div>
 
         {startupMenuVisible && (
           <div className="startup-menu">
-            <div className="startup-menu-inner">
+            <div
+              className="startup-menu-inner"
+              style={{ gridTemplateColumns: `repeat(${startupColumns}, 1fr)` }}
+            >
               {presetSlots.map((preset) => (
                 <button
                   key={preset.id}
@@ -901,19 +2413,74 @@ export default function App() {
                   style={{ background: withAlpha(preset.color, 0.75) }}
                   onClick={() => applyPreset(preset.id)}
                 >
-                  <span className="startup-title">{preset.name}</span>
+                  <span className="startup-title">{presetName(preset)}</span>
                 </button>
               ))}
             </div>
           </div>
         )}
 
+        {incomingFitting && (
+          <div className="link-offer">
+            <div className="link-offer-card">
+              {incomingFitting.status === "valid" ? (
+                <>
+                  <div className="section-title">{t("fitting.received")}</div>
+                  <div className="notice">
+                    {incomingFitting.shared.name
+                      ? t("fitting.preset", { name: incomingFitting.shared.name })
+                      : ""}
+                    {t("fitting.question")}
+                  </div>
+                  <div className="button-row">
+                    <button className="toggle-active" onClick={() => applyIncomingFitting()}>
+                      {t("common.apply")}
+                    </button>
+                    {presetSlots.map((preset) => (
+                      <button
+                        key={preset.id}
+                        className="ghost"
+                        onClick={() => applyIncomingFitting(preset.id)}
+                      >
+                        {t("fitting.into", { name: presetName(preset) })}
+                      </button>
+                    ))}
+                    <button className="ghost" onClick={() => applyIncomingFitting("new")}>
+                      {t("fitting.newPreset")}
+                    </button>
+                    <button className="ghost" onClick={() => setIncomingFitting(null)}>
+                      {t("common.cancel")}
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="section-title">{t("fitting.rejected")}</div>
+                  <div className="notice" style={{ color: "var(--danger)" }}>
+                    {incomingFitting.error}
+                  </div>
+                  <div className="button-row">
+                    <button className="ghost" onClick={() => setIncomingFitting(null)}>
+                      {t("common.close")}
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
         {vrMenuVisible && (
           <div className="vr-menu-dual" onPointerDown={hideVrMenu}>
             {["left", "right"].map((eye) => (
-              <div key={eye} className="vr-menu-eye">
+              <div
+                key={eye}
+                ref={eye === "left" ? vrMenuEyeRef : undefined}
+                className="vr-menu-eye"
+              >
                 <div
                   className="vr-menu-grid"
+                  style={{ gridTemplateColumns: `repeat(${vrMenuColumns}, 1fr)` }}
                   onPointerDown={(event) => {
                     event.stopPropagation();
                     resetMenuTimer();
@@ -928,17 +2495,51 @@ export default function App() {
                       style={{ background: withAlpha(preset.color, 0.65) }}
                       onClick={() => applyPreset(preset.id)}
                     >
-                      {preset.name}
+                      {presetName(preset)}
                     </button>
                   ))}
                   <button
-                    className="vr-menu-button settings"
+                    className={`vr-menu-button freeze ${isFrozen ? "active" : ""}`}
                     onClick={() => {
+                      toggleFreeze();
                       hideVrMenu();
-                      openSettings();
                     }}
                   >
-                    Настройки
+                    {isFrozen ? t("freeze.live") : t("freeze.freeze")}
+                  </button>
+                  {canRecord && (
+                    <button
+                      className={`vr-menu-button record ${isRecording ? "active" : ""}`}
+                      disabled={!isRunning}
+                      onClick={() => {
+                        toggleRecording();
+                        hideVrMenu();
+                      }}
+                    >
+                      {isRecording ? t("recording.stop") : t("recording.record")}
+                    </button>
+                  )}
+                  <button
+                    className="vr-menu-button read"
+                    disabled={!isRunning || ocrBusy}
+                    onClick={() => {
+                      hideVrMenu();
+                      void readText();
+                    }}
+                  >
+                    {ocrBusy ? t("ocr.busy") : t("vrMenu.readText")}
+                  </button>
+                  {updateReady && (
+                    <button
+                      className="vr-menu-button update"
+                      disabled={isRecording}
+                      onClick={applyUpdate}
+                    >
+                      {t("common.update")}
+                    </button>
+                  )}
+                  <button className="vr-menu-button settings" onClick={showHeadsetPanel}>
+                    {t("hud.settings")}
                   </button>
                 </div>
                 <div
@@ -948,6 +2549,24 @@ export default function App() {
                     top: `${cursorPos.y * 100}%`
                   }}
                 />
+                {dwellProgress > 0 && (
+                  <svg
+                    className="vr-dwell"
+                    viewBox="0 0 40 40"
+                    style={{
+                      left: `${cursorPos.x * 100}%`,
+                      top: `${cursorPos.y * 100}%`
+                    }}
+                  >
+                    <circle
+                      cx="20"
+                      cy="20"
+                      r="17"
+                      pathLength={1}
+                      strokeDasharray={`${dwellProgress} 1`}
+                    />
+                  </svg>
+                )}
               </div>
             ))}
           </div>
@@ -955,11 +2574,11 @@ export default function App() {
 
         {(!isRunning || error) && (
           <div className="overlay-message">
-            <strong>{error ? "Ошибка камеры" : "Запуск камеры..."}</strong>
+            <strong>{error ? t("overlay.cameraError") : t("overlay.starting")}</strong>
             <div className="notice">
               {error
-                ? "Разрешите доступ к камере в браузере и перезагрузите страницу."
-                : "Ожидайте подключение камеры. Если не запускается — проверьте разрешения."}
+                ? t("overlay.errorHint")
+                : t("overlay.startingHint")}
             </div>
             {error && (
               <div className="notice" style={{ color: "var(--danger)" }}>
@@ -985,7 +2604,60 @@ export default function App() {
             resetSettingsTimer();
           }}
         >
-          <div className="section-title">Камера</div>
+          {settingsIssues.length > 0 && (
+            <div className="filter-card settings-issues">
+              <div className="notice">{t("issues.title")}</div>
+              <ul className="notice">
+                {settingsIssues.map((issue, index) => (
+                  <li key={index}>{issue}</li>
+                ))}
+              </ul>
+              <div className="button-row">
+                <button className="ghost" onClick={() => setSettingsIssues([])}>
+                  {t("issues.dismiss")}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {updateReady && (
+            <div className="filter-card update-card">
+              <div className="notice">
+                {t("update.ready")}
+                {isRecording ? ` ${t("update.stopRecording")}` : ""}
+              </div>
+              <div className="button-row">
+                <button className="toggle-active" disabled={isRecording} onClick={applyUpdate}>
+                  {t("common.update")}
+                </button>
+                <button className="ghost" onClick={() => setUpdateReady(false)}>
+                  {t("update.later")}
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="section-title">{t("language.title")}</div>
+          <div className="button-row">
+            <button
+              className={localePreference === "auto" ? "toggle-active" : "ghost"}
+              onClick={() => changeLocale("auto")}
+            >
+              {t("language.auto")}
+            </button>
+            {locales.map((item) => (
+              <button
+                key={item.locale}
+                lang={item.locale}
+                className={localePreference === item.locale ? "toggle-active" : "ghost"}
+                onClick={() => changeLocale(item.locale)}
+              >
+                {item.name}
+              </button>
+            ))}
+          </div>
+
+          <div className="section-title">{t("camera.title")}</div>
           <div className="button-row">
             <button
               className={settings.distortionEnabled ? "toggle-active" : "ghost"}
@@ -993,7 +2665,7 @@ export default function App() {
                 updateSettings({ distortionEnabled: !settings.distortionEnabled })
               }
             >
-              Дисторсия
+              {t("camera.distortion")}
             </button>
             <button
               className={settings.magnifierEnabled ? "toggle-active" : "ghost"}
@@ -1001,22 +2673,315 @@ export default function App() {
                 updateSettings({ magnifierEnabled: !settings.magnifierEnabled })
               }
             >
-              Лупа
+              {t("camera.magnifier")}
             </button>
             <button
               className={settings.calibration ? "toggle-active" : "ghost"}
               onClick={() => updateSettings({ calibration: !settings.calibration })}
             >
-              Сетка
+              {t("camera.grid")}
+            </button>
+            <button
+              className={
+                settings.calibration && settings.chromaPattern ? "toggle-active" : "ghost"
+              }
+              onClick={() =>
+                updateSettings(
+                  settings.calibration && settings.chromaPattern
+                    ? { chromaPattern: false }
+                    : { calibration: true, chromaPattern: true }
+                )
+              }
+            >
+              {t("camera.fringeTest")}
             </button>
           </div>
-
-          <div className="section-title">Профили</div>
-          <div className="preset-grid">
-            {presetSlots.map((preset) => (
-              <PresetInput
-                key={preset.id}
-                preset={preset}
+          <div className="controls">
+            <Slider
+              label={t("camera.chromaRed")}
+              min={-5}
+              max={5}
+              step={0.05}
+              value={settings.chromaRed}
+              onChange={(value) => updateSettings({ chromaRed: value })}
+              formatValue={(value) => value.toFixed(2)}
+            />
+            <Slider
+              label={t("camera.chromaGreen")}
+              min={-5}
+              max={5}
+              step={0.05}
+              value={settings.chromaGreen}
+              onChange={(value) => updateSettings({ chromaGreen: value })}
+              formatValue={(value) => value.toFixed(2)}
+            />
+            <Slider
+              label={t("camera.chromaBlue")}
+              min={-5}
+              max={5}
+              step={0.05}
+              value={settings.chromaBlue}
+              onChange={(value) => updateSettings({ chromaBlue: value })}
+              formatValue={(value) => value.toFixed(2)}
+            />
+          </div>
+
+          <div className="section-title">{t("source.title")}</div>
+          <div className="button-row camera-picker">
+            <label>
+              {t("source.camera")}
+              <select
+                value={camera.deviceId ?? ""}
+                disabled={cameraSwitching}
+                onChange={(event) =>
+                  setCamera((current) => ({
+                    ...current,
+                    deviceId: event.target.value || null
+                  }))
+                }
+              >
+                <option value="">{t("source.defaultCamera")}</option>
+                {cameraDevices.map((device) => (
+                  <option key={device.deviceId} value={device.deviceId}>
+                    {device.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              {t("source.resolution")}
+              <select
+                value={`${camera.width}x${camera.height}`}
+                disabled={cameraSwitching}
+                onChange={(event) => {
+                  const [width = 1280, height = 720] = event.target.value
+                    .split("x")
+                    .map(Number);
+                  setCamera((current) => ({ ...current, width, height }));
+                }}
+              >
+                {cameraChoices.resolutions.some(
+                  ([width, height]) => width === camera.width && height === camera.height
+                ) ? null : (
+                  <option value={`${camera.width}x${camera.height}`}>
+                    {camera.width}×{camera.height}
+                  </option>
+                )}
+                {cameraChoices.resolutions.map(([width, height]) => (
+                  <option key={`${width}x${height}`} value={`${width}x${height}`}>
+                    {width}×{height}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              {t("source.frameRate")}
+              <select
+                value={camera.frameRate ?? ""}
+                disabled={cameraSwitching}
+                onChange={(event) =>
+                  setCamera((current) => ({
+                    ...current,
+                    frameRate: Number(event.target.value) || null
+                  }))
+                }
+              >
+                <option value="">{t("common.auto")}</option>
+                {cameraChoices.frameRates.map((rate) => (
+                  <option key={rate} value={rate}>
+                    {rate}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="notice">
+            {cameraActive?.width && cameraActive.height
+              ? t("source.active", {
+                  mode: `${cameraActive.width}×${cameraActive.height}${
+                    cameraActive.frameRate
+                      ? t("source.activeRate", { rate: Math.round(cameraActive.frameRate) })
+                      : ""
+                  }`
+                })
+              : t("source.pending")}
+          </div>
+          {cameraError && (
+            <div className="notice" style={{ color: "var(--danger)" }}>
+              {cameraError}
+            </div>
+          )}
+
+          <div className="section-title">{t("controls.title")}</div>
+          {(cameraControls.torch ||
+            cameraControls.manualFocus ||
+            cameraControls.manualExposure ||
+            cameraControls.manualWhiteBalance) && (
+            <div className="button-row">
+              {cameraControls.torch && (
+                <button
+                  className={settings.torch ? "toggle-active" : "ghost"}
+                  onClick={() => updateSettings({ torch: !settings.torch })}
+                >
+                  {t("controls.torch")}
+                </button>
+              )}
+              {cameraControls.manualFocus && (
+                <button
+                  className={settings.manualFocus ? "toggle-active" : "ghost"}
+                  onClick={() => updateSettings({ manualFocus: !settings.manualFocus })}
+                >
+                  {t("controls.manualFocus")}
+                </button>
+              )}
+              {cameraControls.manualExposure && (
+                <button
+                  className={settings.manualExposure ? "toggle-active" : "ghost"}
+                  onClick={() => updateSettings({ manualExposure: !settings.manualExposure })}
+                >
+                  {t("controls.manualExposure")}
+                </button>
+              )}
+              {cameraControls.manualWhiteBalance && (
+                <button
+                  className={settings.manualWhiteBalance ? "toggle-active" : "ghost"}
+                  onClick={() =>
+                    updateSettings({ manualWhiteBalance: !settings.manualWhiteBalance })
+                  }
+                >
+                  {t("controls.manualWhiteBalance")}
+                </button>
+              )}
+            </div>
+          )}
+          <div className="controls">
+            {cameraControls.focusDistance && settings.manualFocus && (
+              <Slider
+                label={t("controls.focusDistance")}
+                min={cameraControls.focusDistance.min}
+                max={cameraControls.focusDistance.max}
+                step={controlStep(cameraControls.focusDistance)}
+                value={settings.focusDistance}
+                onChange={(value) => updateSettings({ focusDistance: value })}
+                formatValue={(value) => value.toFixed(2)}
+              />
+            )}
+            {cameraControls.exposureCompensation && !settings.manualExposure && (
+              <Slider
+                label={t("controls.exposureCompensation")}
+                min={cameraControls.exposureCompensation.min}
+                max={cameraControls.exposureCompensation.max}
+                step={controlStep(cameraControls.exposureCompensation)}
+                value={settings.exposureCompensation}
+                onChange={(value) => updateSettings({ exposureCompensation: value })}
+                formatValue={(value) => `${value > 0 ? "+" : ""}${value.toFixed(1)}`}
+              />
+            )}
+            {cameraControls.iso && settings.manualExposure && (
+              <Slider
+                label="ISO"
+                min={cameraControls.iso.min}
+                max={cameraControls.iso.max}
+                step={controlStep(cameraControls.iso)}
+                value={settings.iso}
+                onChange={(value) => updateSettings({ iso: value })}
+                formatValue={(value) => value.toFixed(0)}
+              />
+            )}
+            {cameraControls.colorTemperature && settings.manualWhiteBalance && (
+              <Slider
+                label={t("controls.colorTemperature")}
+                min={cameraControls.colorTemperature.min}
+                max={cameraControls.colorTemperature.max}
+                step={controlStep(cameraControls.colorTemperature)}
+                value={settings.colorTemperature}
+                onChange={(value) => updateSettings({ colorTemperature: value })}
+                formatValue={(value) => value.toFixed(0)}
+              />
+            )}
+          </div>
+          <div className="notice">
+            {!isRunning
+              ? t("controls.pending")
+              : !cameraControls.torch &&
+                  !cameraControls.manualFocus &&
+                  !cameraControls.exposureCompensation &&
+                  !cameraControls.manualExposure &&
+                  !cameraControls.manualWhiteBalance
+                ? t("controls.none")
+                : t("controls.hint")}
+          </div>
+          {cameraControlError && (
+            <div className="notice" style={{ color: "var(--danger)" }}>
+              {cameraControlError}
+            </div>
+          )}
+
+          <div className="section-title">{t("input.title")}</div>
+          <div className="notice">
+            {gamepads.length > 0
+              ? t("input.gamepads", { names: gamepads.join(", ") })
+              : t("input.noGamepad")}
+          </div>
+          <div className="input-bindings">
+            {inputActions.map(({ action, label }) => (
+              <div key={action} className="filter-card input-binding">
+                <div className="filter-card-header">
+                  <strong>{t(label)}</strong>
+                  <div className="button-row">
+                    {learningAction === action ? (
+                      <button className="toggle-active" onClick={cancelLearning}>
+                        {t("input.learning")}
+                      </button>
+                    ) : (
+                      <button className="ghost" onClick={() => learnBinding(action)}>
+                        {t("input.learn")}
+                      </button>
+                    )}
+                    <button
+                      className="ghost"
+                      disabled={inputBindings[action].length === 0}
+                      onClick={() =>
+                        setInputBindings((current) => clearBindings(current, action))
+                      }
+                    >
+                      {t("input.clear")}
+                    </button>
+                  </div>
+                </div>
+                <div className="input-binding-list">
+                  {inputBindings[action].length > 0 ? (
+                    inputBindings[action].map((binding) => (
+                      <span key={bindingLabel(binding)} className="chip">
+                        {bindingLabel(binding)}
+                      </span>
+                    ))
+                  ) : (
+                    <span className="notice">{t("input.unbound")}</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="button-row">
+            <button
+              className="ghost"
+              onClick={() => {
+                cancelLearning();
+                setInputBindings(defaultBindings);
+              }}
+            >
+              {t("input.defaults")}
+            </button>
+          </div>
+          <div className="notice">{t("input.hint")}</div>
+
+          <div className="section-title">{t("presets.title")}</div>
+          <div className="preset-grid">
+            {presetSlots.map((preset) => (
+              <PresetInput
+                key={preset.id}
+                preset={preset}
                 isActive={activePresetId === preset.id}
                 isEditing={editingPresetId === preset.id}
                 onSelect={(presetId) => applyPreset(presetId, { keepSettings: true })}
@@ -1026,12 +2991,65 @@ export default function App() {
               />
             ))}
           </div>
+          <div className="button-row preset-actions">
+            <button className="ghost" onClick={createPreset}>
+              {t("presets.new")}
+            </button>
+            <button
+              className="ghost"
+              onClick={() =>
+                setPresetSlots((current) => duplicatePreset(current, activePresetId))
+              }
+            >
+              {t("presets.duplicate")}
+            </button>
+            <button
+              className="ghost"
+              disabled={presetSlots[0]?.id === activePresetId}
+              onClick={() =>
+                setPresetSlots((current) => movePreset(current, activePresetId, -1))
+              }
+            >
+              ↑
+            </button>
+            <button
+              className="ghost"
+              disabled={presetSlots[presetSlots.length - 1]?.id === activePresetId}
+              onClick={() =>
+                setPresetSlots((current) => movePreset(current, activePresetId, 1))
+              }
+            >
+              ↓
+            </button>
+            <label className="color-control preset-color">
+              <input
+                type="color"
+                value={activePreset?.color ?? "#2dd4bf"}
+                onChange={(event) => updatePresetColor(activePresetId, event.target.value)}
+              />
+            </label>
+            <button
+              className="ghost"
+              disabled={presetSlots.length <= 1}
+              onClick={() =>
+                setPresetSlots((current) => removePreset(current, activePresetId))
+              }
+            >
+              {t("common.delete")}
+            </button>
+            <button
+              className="ghost"
+              onClick={() => setPresetSlots((current) => restoreFactoryPresets(current))}
+            >
+              {t("presets.factory")}
+            </button>
+          </div>
           <div className="save-row">
             <button
               className={savePresetMode ? "toggle-active" : "ghost"}
               onClick={() => setSavePresetMode((current) => !current)}
             >
-              Сохранить пресет
+              {t("presets.save")}
             </button>
             {savePresetMode && (
               <div className="save-targets">
@@ -1043,51 +3061,400 @@ export default function App() {
                       setSavePresetMode(false);
                     }}
                   >
-                    {preset.name}
+                    {presetName(preset)}
                   </button>
                 ))}
               </div>
             )}
           </div>
 
-          <div className="section-title">Фильтры</div>
+          <div className="section-title">{t("backup.title")}</div>
+          <div className="button-row">
+            <button className="ghost" onClick={exportBackup}>
+              {t("backup.export")}
+            </button>
+            <button className="ghost" onClick={() => backupInputRef.current?.click()}>
+              {t("backup.import")}
+            </button>
+            <input
+              ref={backupInputRef}
+              type="file"
+              accept="application/json,.json"
+              hidden
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                event.target.value = "";
+                if (file) {
+                  void openBackup(file);
+                }
+              }}
+            />
+          </div>
+          {backupPreview && (
+            <div className="filter-card">
+              <div className="notice">
+                {t("backup.copy")}
+                {backupPreview.exportedAt
+                  ? t("common.dated", {
+                      date: new Date(backupPreview.exportedAt).toLocaleString(localeTag())
+                    })
+                  : ""}
+                . {t("backup.choose")}
+              </div>
+              <div className="import-options">
+                <button
+                  className={importSettings ? "toggle-active" : "ghost"}
+                  disabled={backupPreview.settingsChanges.length === 0}
+                  onClick={() => setImportSettings((current) => !current)}
+                >
+                  <span>{t("backup.currentSettings")}</span>
+                  <span className="import-changes">
+                    {describeChanges(backupPreview.settingsChanges)}
+                  </span>
+                </button>
+                {backupPreview.slots.map((slot) => {
+                  const selected = importSlotIds.includes(slot.slotId);
+                  return (
+                    <button
+                      key={slot.slotId}
+                      className={selected ? "toggle-active" : "ghost"}
+                      disabled={
+                        slot.currentName !== null &&
+                        slot.changedFields.length === 0 &&
+                        !slot.renamed
+                      }
+                      onClick={() =>
+                        setImportSlotIds((current) =>
+                          selected
+                            ? current.filter((id) => id !== slot.slotId)
+                            : [...current, slot.slotId]
+                        )
+                      }
+                    >
+                      <span>
+                        {slot.currentName === null
+                          ? t("backup.newPreset", { name: slot.incoming.name })
+                          : t("backup.preset", { name: slot.currentName })}
+                        {slot.currentName !== null && slot.currentName !== slot.incoming.name
+                          ? t("backup.renamed", { name: slot.incoming.name })
+                          : ""}
+                      </span>
+                      <span className="import-changes">
+                        {slot.currentName === null
+                          ? t("backup.willAdd")
+                          : describeChanges(slot.changedFields)}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+              {backupPreview.issues.length > 0 && (
+                <ul className="notice">
+                  {backupPreview.issues.map((issue, index) => (
+                    <li key={index}>{issue}</li>
+                  ))}
+                </ul>
+              )}
+              <div className="button-row">
+                <button
+                  className="toggle-active"
+                  disabled={!importSettings && importSlotIds.length === 0}
+                  onClick={applyBackup}
+                >
+                  {t("backup.apply")}
+                </button>
+                <button className="ghost" onClick={() => setBackupPreview(null)}>
+                  {t("common.cancel")}
+                </button>
+              </div>
+            </div>
+          )}
+          {backupError && (
+            <div className="notice" style={{ color: "var(--danger)" }}>
+              {backupError}
+            </div>
+          )}
+
+          <div className="section-title">{t("share.title")}</div>
+          <div className="button-row">
+            {presetSlots.map((preset) => (
+              <button
+                key={preset.id}
+                className={sharedFitting?.presetId === preset.id ? "toggle-active" : "ghost"}
+                onClick={() => void shareFitting(preset.id)}
+              >
+                {presetName(preset)}
+              </button>
+            ))}
+          </div>
+          {sharedFitting && (
+            <div className="filter-card share-fitting">
+              <img src={sharedFitting.qrCode} alt={t("share.qrAlt")} />
+              <div className="notice share-link">{sharedFitting.link}</div>
+              <div className="button-row">
+                <button
+                  className="ghost"
+                  onClick={() =>
+                    void navigator.clipboard
+                      ?.writeText(sharedFitting.link)
+                      .catch(() => undefined)
+                  }
+                >
+                  {t("share.copyLink")}
+                </button>
+                {canShareText && (
+                  <button
+                    className="ghost"
+                    onClick={() =>
+                      void navigator
+                        .share({ url: sharedFitting.link })
+                        .catch(() => undefined)
+                    }
+                  >
+                    {t("common.share")}
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div className="section-title">{t("viewer.title")}</div>
+          <div className="notice">
+            {t("viewer.hint")}
+          </div>
+          <textarea
+            className="ocr-text viewer-input"
+            value={viewerInput}
+            placeholder="https://google.com/cardboard/cfg?p=…"
+            onChange={(event) => setViewerInput(event.target.value)}
+          />
           <div className="button-row">
             <button
-              className={settings.filterMode === "none" ? "toggle-active" : "ghost"}
-              onClick={() => updateSettings({ filterMode: "none" })}
+              className="ghost"
+              disabled={!viewerInput.trim()}
+              onClick={() => addViewerProfile(viewerInput)}
             >
-              Без фильтра
+              {t("viewer.add")}
             </button>
+            {supportsQrScan() && (
+              <button
+                className="ghost"
+                disabled={!isRunning || viewerScanning}
+                onClick={() => void scanViewerQr()}
+              >
+                {viewerScanning ? t("viewer.scanning") : t("viewer.scan")}
+              </button>
+            )}
+          </div>
+          {viewerProfiles.map((profile) => (
+            <div key={profile.id} className="filter-card">
+              <div className="notice">
+                <strong>{profile.name}</strong>:{" "}
+                {t("viewer.details", {
+                  lenses: (profile.viewer.interLensDistance * 1000).toFixed(1),
+                  screen: (profile.viewer.screenToLensDistance * 1000).toFixed(1),
+                  k1: viewerToSettings(profile.viewer, screen).k1,
+                  k2: viewerToSettings(profile.viewer, screen).k2
+                })}
+              </div>
+              <div className="button-row">
+                <button
+                  className="toggle-active"
+                  onClick={() => applyViewerProfile(profile)}
+                >
+                  {t("common.apply")}
+                </button>
+                <button
+                  className="ghost"
+                  onClick={() =>
+                    setViewerProfiles((current) =>
+                      current.filter((item) => item.id !== profile.id)
+                    )
+                  }
+                >
+                  {t("common.delete")}
+                </button>
+              </div>
+            </div>
+          ))}
+          {viewerError && (
+            <div className="notice" style={{ color: "var(--danger)" }}>
+              {viewerError}
+            </div>
+          )}
+
+          <div className="section-title">{t("snapshot.title")}</div>
+          <div className="button-row">
+            {captureModes.map((item) => (
+              <button
+                key={item.mode}
+                className={snapshotMode === item.mode ? "toggle-active" : "ghost"}
+                onClick={() => setSnapshotMode(item.mode)}
+              >
+                {t(item.label)}
+              </button>
+            ))}
+          </div>
+          <div className="button-row snapshot-actions">
             <button
-              className={
-                settings.filterMode === "amber" ? "toggle-active" : "ghost"
-              }
-              onClick={() => updateSettings({ filterMode: "amber" })}
+              className="ghost"
+              disabled={!isRunning || snapshotBusy}
+              onClick={() => void takeSnapshot()}
             >
-              Желто-черный
+              {t("snapshot.take")}
+            </button>
+            <button className="ghost" onClick={() => snapshotInputRef.current?.click()}>
+              {t("snapshot.open")}
             </button>
+            <input
+              ref={snapshotInputRef}
+              type="file"
+              accept="image/png"
+              hidden
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                event.target.value = "";
+                if (file) {
+                  void openSnapshot(file);
+                }
+              }}
+            />
+          </div>
+          {pendingRestore && (
+            <div className="filter-card">
+              <div className="notice">
+                {pendingRestore.presetName
+                  ? t("snapshot.named", { name: pendingRestore.presetName })
+                  : t("snapshot.unnamed")}
+                {pendingRestore.createdAt
+                  ? t("common.dated", {
+                      date: new Date(pendingRestore.createdAt).toLocaleString(localeTag())
+                    })
+                  : ""}
+                . {t("snapshot.question")}
+              </div>
+              <div className="button-row">
+                <button className="toggle-active" onClick={restoreSnapshot}>
+                  {t("snapshot.restore")}
+                </button>
+                <button className="ghost" onClick={() => setPendingRestore(null)}>
+                  {t("common.cancel")}
+                </button>
+              </div>
+            </div>
+          )}
+          {snapshotError && (
+            <div className="notice" style={{ color: "var(--danger)" }}>
+              {snapshotError}
+            </div>
+          )}
+
+          {canRecord && (
+            <>
+              <div className="section-title">{t("recording.title")}</div>
+              <div className="button-row">
+                {captureModes.map((item) => (
+                  <button
+                    key={item.mode}
+                    className={recordingMode === item.mode ? "toggle-active" : "ghost"}
+                    disabled={isRecording}
+                    onClick={() => setRecordingMode(item.mode)}
+                  >
+                    {t(item.label)}
+                  </button>
+                ))}
+              </div>
+              <div className="button-row recording-actions">
+                <button
+                  className={isRecording ? "toggle-active recording" : "ghost"}
+                  disabled={!isRunning}
+                  onClick={toggleRecording}
+                >
+                  {isRecording
+                    ? t("recording.stopAt", { time: formatDuration(recordingSeconds) })
+                    : t("recording.start")}
+                </button>
+                <button
+                  className="ghost"
+                  disabled={!recording || isRecording}
+                  onClick={() => recording && saveRecording(recording)}
+                >
+                  {t("common.save")}
+                </button>
+                {recording && canShareRecording(recording) && (
+                  <button
+                    className="ghost"
+                    disabled={isRecording}
+                    onClick={shareLastRecording}
+                  >
+                    {t("common.share")}
+                  </button>
+                )}
+              </div>
+              {recording && !isRecording && (
+                <div className="notice">
+                  {recording.fileName} ·{" "}
+                  {formatDuration(Math.round(recording.durationMs / 1000))} ·{" "}
+                  {t("recording.size", { size: (recording.blob.size / (1024 * 1024)).toFixed(1) })}
+                </div>
+              )}
+              {recordingError && (
+                <div className="notice" style={{ color: "var(--danger)" }}>
+                  {recordingError}
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="section-title">{t("ocr.title")}</div>
+          <div className="button-row">
             <button
-              className={
-                settings.filterMode === "deepblue" ? "toggle-active" : "ghost"
-              }
-              onClick={() => updateSettings({ filterMode: "deepblue" })}
+              className="ghost"
+              disabled={!isRunning || ocrBusy}
+              onClick={() => void readText()}
             >
-              Темно-сине-белый
+              {ocrBusy ? t("ocr.busy") : t("ocr.recognize")}
             </button>
             <button
-              className={
-                settings.filterMode === "edge" ? "toggle-active" : "ghost"
+              className={isSpeaking ? "toggle-active" : "ghost"}
+              disabled={!ocrText || !supportsSpeech()}
+              onClick={() =>
+                isSpeaking ? stopOcrSpeech() : speakOcrText(ocrText, ocrLanguage)
               }
-              onClick={() => updateSettings({ filterMode: "edge" })}
             >
-              Контурная резкость
+              {isSpeaking ? t("ocr.stop") : t("ocr.speak")}
+            </button>
+            <button className="ghost" disabled={!ocrText} onClick={copyOcrText}>
+              {t("common.copy")}
             </button>
+            {canShareText && (
+              <button className="ghost" disabled={!ocrText} onClick={shareOcrText}>
+                {t("common.share")}
+              </button>
+            )}
           </div>
+          <textarea
+            className="ocr-text"
+            readOnly
+            value={ocrText}
+            placeholder={t("ocr.placeholder")}
+          />
+          {ocrError && (
+            <div className="notice" style={{ color: "var(--danger)" }}>
+              {ocrError}
+            </div>
+          )}
+
+          <div className="section-title">{t("filters.title")}</div>
+          <FilterChainEditor
+            filters={settings.filters}
+            onChange={(filters) => updateSettings({ filters })}
+          />
 
-          <div className="section-title">Изображение</div>
+          <div className="section-title">{t("image.title")}</div>
           <div className="controls">
             <Slider
-              label="Контраст"
+              label={t("image.contrast")}
               min={0.5}
               max={2}
               step={0.01}
@@ -1095,7 +3462,7 @@ export default function App() {
               onChange={(value) => updateSettings({ contrast: value })}
             />
             <Slider
-              label="Яркость"
+              label={t("image.brightness")}
               min={-0.5}
               max={0.5}
               step={0.01}
@@ -1103,7 +3470,7 @@ export default function App() {
               onChange={(value) => updateSettings({ brightness: value })}
             />
             <Slider
-              label="Гамма"
+              label={t("image.gamma")}
               min={0.5}
               max={2.5}
               step={0.01}
@@ -1111,7 +3478,7 @@ export default function App() {
               onChange={(value) => updateSettings({ gamma: value })}
             />
             <Slider
-              label="Температура"
+              label={t("image.temperature")}
               min={-1}
               max={1}
               step={0.01}
@@ -1119,7 +3486,7 @@ export default function App() {
               onChange={(value) => updateSettings({ temperature: value })}
             />
             <Slider
-              label="Светлые участки"
+              label={t("image.highlights")}
               min={-1}
               max={1}
               step={0.01}
@@ -1127,7 +3494,7 @@ export default function App() {
               onChange={(value) => updateSettings({ highlights: value })}
             />
             <Slider
-              label="Тени"
+              label={t("image.shadows")}
               min={-1}
               max={1}
               step={0.01}
@@ -1136,10 +3503,10 @@ export default function App() {
             />
           </div>
 
-          <div className="section-title">Выравнивание глаз</div>
+          <div className="section-title">{t("align.title")}</div>
           <div className="controls">
             <Slider
-              label="Левый сдвиг X"
+              label={t("align.leftX")}
               min={-0.2}
               max={0.2}
               step={0.001}
@@ -1147,7 +3514,7 @@ export default function App() {
               onChange={(value) => updateSettings({ leftOffsetX: value })}
             />
             <Slider
-              label="Правый сдвиг X"
+              label={t("align.rightX")}
               min={-0.2}
               max={0.2}
               step={0.001}
@@ -1155,45 +3522,152 @@ export default function App() {
               onChange={(value) => updateSettings({ rightOffsetX: value })}
             />
             <Slider
-              label="Масштаб"
+              label={t("align.scale")}
               min={1}
               max={3}
               step={0.01}
               value={settings.scale}
               onChange={(value) => updateSettings({ scale: value })}
             />
+            {!settings.physicalLayout && (
+              <Slider
+                label={t("align.separation")}
+                min={-0.1}
+                max={0.1}
+                step={0.001}
+                value={settings.separation}
+                onChange={(value) => updateSettings({ separation: value })}
+              />
+            )}
+          </div>
+
+          <div className="section-title">{t("geometry.title")}</div>
+          <div className="button-row">
+            <button
+              className={settings.physicalLayout ? "toggle-active" : "ghost"}
+              onClick={() => updateSettings({ physicalLayout: !settings.physicalLayout })}
+            >
+              {settings.physicalLayout ? t("geometry.physical") : t("geometry.regular")}
+            </button>
+          </div>
+          <label className="control screen-size">
+            <strong>{t("geometry.screen")}</strong>
+            <select
+              value={screen ? screen.deviceId ?? "custom" : ""}
+              onChange={(event) => selectScreenDevice(event.target.value)}
+            >
+              <option value="">{t("geometry.unset")}</option>
+              {screenDevices.map((device) => (
+                <option key={device.id} value={device.id}>
+                  {device.name}
+                </option>
+              ))}
+              <option value="custom">{t("geometry.custom")}</option>
+            </select>
+          </label>
+          {screen && (
+            <div className="button-row screen-size">
+              <label>
+                {t("geometry.width")}
+                <input
+                  type="number"
+                  min={SCREEN_MM_MIN}
+                  max={SCREEN_MM_MAX}
+                  step={0.1}
+                  value={screen.widthMm}
+                  onChange={(event) =>
+                    updateScreenSize("widthMm", Number(event.target.value))
+                  }
+                />
+              </label>
+              <label>
+                {t("geometry.height")}
+                <input
+                  type="number"
+                  min={SCREEN_MM_MIN}
+                  max={SCREEN_MM_MAX}
+                  step={0.1}
+                  value={screen.heightMm}
+                  onChange={(event) =>
+                    updateScreenSize("heightMm", Number(event.target.value))
+                  }
+                />
+              </label>
+            </div>
+          )}
+          {settings.physicalLayout && !screen && (
+            <div className="notice">
+              {t("geometry.needScreen")}
+            </div>
+          )}
+          <div className="controls">
             <Slider
-              label="Межзрачковое смещение"
-              min={-0.1}
-              max={0.1}
-              step={0.001}
-              value={settings.separation}
-              onChange={(value) => updateSettings({ separation: value })}
+              label={t("geometry.interLens")}
+              min={50}
+              max={80}
+              step={0.5}
+              value={settings.interLensMm}
+              onChange={(value) => updateSettings({ interLensMm: value })}
+              formatValue={(value) => value.toFixed(1)}
+            />
+            <Slider
+              label={t("geometry.ipd")}
+              min={50}
+              max={80}
+              step={0.5}
+              value={settings.ipdMm}
+              onChange={(value) => updateSettings({ ipdMm: value })}
+              formatValue={(value) => value.toFixed(1)}
             />
           </div>
 
-          <div className="section-title">Дисторсия</div>
+          <div className="section-title">{t("distortion.title")}</div>
           <div className="controls">
             <Slider
-              label="k1 (0-100)"
-              min={0}
-              max={100}
-              step={1}
+              label="k1"
+              min={-10}
+              max={10}
+              step={0.01}
               value={settings.k1}
               onChange={(value) => updateSettings({ k1: value })}
-              formatValue={(value) => value.toFixed(0)}
+              formatValue={(value) => value.toFixed(2)}
             />
             <Slider
-              label="k2 (0-100)"
-              min={0}
-              max={100}
-              step={1}
+              label="k2"
+              min={-10}
+              max={10}
+              step={0.01}
               value={settings.k2}
               onChange={(value) => updateSettings({ k2: value })}
-              formatValue={(value) => value.toFixed(0)}
+              formatValue={(value) => value.toFixed(2)}
+            />
+            <Slider
+              label="k3"
+              min={-10}
+              max={10}
+              step={0.01}
+              value={settings.k3}
+              onChange={(value) => updateSettings({ k3: value })}
+              formatValue={(value) => value.toFixed(2)}
+            />
+            <Slider
+              label={t("distortion.p1")}
+              min={-0.1}
+              max={0.1}
+              step={0.001}
+              value={settings.p1}
+              onChange={(value) => updateSettings({ p1: value })}
+            />
+            <Slider
+              label={t("distortion.p2")}
+              min={-0.1}
+              max={0.1}
+              step={0.001}
+              value={settings.p2}
+              onChange={(value) => updateSettings({ p2: value })}
             />
             <Slider
-              label="Сферизация (граница)"
+              label={t("distortion.sphere")}
               min={0}
               max={100}
               step={1}
@@ -1202,7 +3676,7 @@ export default function App() {
               formatValue={(value) => value.toFixed(0)}
             />
             <Slider
-              label="Диаметр сферы (0-100)"
+              label={t("distortion.sphereDiameter")}
               min={0}
               max={100}
               step={1}
@@ -1211,11 +3685,100 @@ export default function App() {
               formatValue={(value) => value.toFixed(0)}
             />
           </div>
+          <div className="notice">
+            {settings.radialTable.length > 0
+              ? t("distortion.tableActive", { count: settings.radialTable.length })
+              : t("distortion.tableHint", { max: MAX_RADIAL_TABLE })}
+          </div>
+          <textarea
+            className="ocr-text viewer-input"
+            value={radialTableInput}
+            placeholder={"r, r′\n0.1, 0.104\n0.3, 0.35"}
+            onChange={(event) => setRadialTableInput(event.target.value)}
+          />
+          <div className="button-row">
+            <button
+              className="ghost"
+              disabled={!radialTableInput.trim()}
+              onClick={() => applyRadialTable(radialTableInput)}
+            >
+              {t("distortion.applyTable")}
+            </button>
+            <button className="ghost" onClick={() => radialTableInputRef.current?.click()}>
+              {t("distortion.loadCsv")}
+            </button>
+            <input
+              ref={radialTableInputRef}
+              type="file"
+              accept=".csv,.txt,text/csv,text/plain"
+              hidden
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                event.target.value = "";
+                if (file) {
+                  void openRadialTable(file);
+                }
+              }}
+            />
+            {settings.radialTable.length > 0 && (
+              <button className="ghost" onClick={() => updateSettings({ radialTable: [] })}>
+                {t("distortion.removeTable")}
+              </button>
+            )}
+          </div>
+          {radialTableError && (
+            <div className="notice" style={{ color: "var(--danger)" }}>
+              {radialTableError}
+            </div>
+          )}
 
-          <div className="section-title">Лупа</div>
+          <div className="section-title">{t("lensPath.title")}</div>
+          <div className="button-row">
+            <button
+              className={lensPath === "mesh" ? "toggle-active" : "ghost"}
+              onClick={() => setLensPath("mesh")}
+            >
+              {t("lensPath.mesh")}
+            </button>
+            <button
+              className={lensPath === "shader" ? "toggle-active" : "ghost"}
+              onClick={() => setLensPath("shader")}
+            >
+              {t("lensPath.shader")}
+            </button>
+            <button
+              className="ghost"
+              disabled={!isRunning || lensComparing}
+              onClick={() => void compareLensPaths()}
+            >
+              {lensComparing ? t("lensPath.comparing") : t("lensPath.compare")}
+            </button>
+          </div>
+          {lensReport && (
+            <div className="notice">
+              {t("lensPath.report", {
+                meshMs: lensReport.meshMs.toFixed(2),
+                shaderMs: lensReport.shaderMs.toFixed(2),
+                grid: lensReport.meshGrid,
+                error: lensReport.meshErrorTexels.toFixed(2),
+                mean: lensReport.difference.mean.toFixed(2),
+                p99: lensReport.difference.p99,
+                verdict: lensReport.withinTolerance
+                  ? t("lensPath.within")
+                  : t("lensPath.outside")
+              })}
+            </div>
+          )}
+          {lensError && (
+            <div className="notice" style={{ color: "var(--danger)" }}>
+              {lensError}
+            </div>
+          )}
+
+          <div className="section-title">{t("magnifier.title")}</div>
           <div className="controls">
             <Slider
-              label="Увеличение лупы"
+              label={t("magnifier.zoom")}
               min={1}
               max={10}
               step={0.01}
@@ -1223,7 +3786,7 @@ export default function App() {
               onChange={(value) => updateSettings({ magnifierZoom: value })}
             />
             <Slider
-              label="Размер лупы"
+              label={t("magnifier.size")}
               min={0.2}
               max={1}
               step={0.01}
@@ -1232,10 +3795,123 @@ export default function App() {
             />
           </div>
 
-          <div className="section-title">Советы</div>
+          <div className="section-title">{t("stabilization.title")}</div>
+          <div className="button-row">
+            <button
+              className={settings.stabilization ? "toggle-active" : "ghost"}
+              onClick={() => {
+                if (!settings.stabilization && !settings.stabilizationFrames) {
+                  void requestMotionPermission();
+                }
+                updateSettings({ stabilization: !settings.stabilization });
+              }}
+            >
+              {t("stabilization.title")}
+            </button>
+            <button
+              className={
+                settings.stabilizationFrames || !supportsMotion() ? "toggle-active" : "ghost"
+              }
+              disabled={!supportsMotion()}
+              onClick={() => {
+                if (settings.stabilizationFrames && settings.stabilization) {
+                  void requestMotionPermission();
+                }
+                updateSettings({ stabilizationFrames: !settings.stabilizationFrames });
+              }}
+            >
+              {t("stabilization.frames")}
+            </button>
+            <button
+              className="ghost"
+              disabled={!settings.stabilization}
+              onClick={recenterStabilization}
+            >
+              {t("stabilization.recenter")}
+            </button>
+          </div>
+          <div className="controls">
+            <Slider
+              label={t("stabilization.strength")}
+              min={0}
+              max={100}
+              step={1}
+              value={settings.stabilizationStrength}
+              onChange={(value) => updateSettings({ stabilizationStrength: value })}
+              formatValue={(value) => value.toFixed(0)}
+            />
+            <Slider
+              label={t("stabilization.window")}
+              min={100}
+              max={2000}
+              step={50}
+              value={settings.stabilizationWindow}
+              onChange={(value) => updateSettings({ stabilizationWindow: value })}
+              formatValue={(value) => value.toFixed(0)}
+            />
+          </div>
+          <div className="notice">
+            {t("stabilization.hint")}{" "}
+            {supportsMotion() ? t("stabilization.framesHint") : t("stabilization.noGyro")}
+          </div>
+          {settings.stabilization && !frameTracking && (
+            <div className="notice">
+              {t("stabilization.lowDetail")}
+            </div>
+          )}
+          {motionError && (
+            <div className="notice" style={{ color: "var(--danger)" }}>
+              {motionError}
+            </div>
+          )}
+
+          <div className="section-title">{t("gaze.title")}</div>
+          <div className="button-row">
+            <button
+              className={settings.gazeEnabled ? "toggle-active" : "ghost"}
+              disabled={!supportsMotion()}
+              onClick={() => {
+                if (!settings.gazeEnabled) {
+                  void requestMotionPermission();
+                }
+                updateSettings({ gazeEnabled: !settings.gazeEnabled });
+              }}
+            >
+              {t("gaze.title")}
+            </button>
+          </div>
+          <div className="controls">
+            <Slider
+              label={t("gaze.sensitivity")}
+              min={0.5}
+              max={4}
+              step={0.1}
+              value={settings.gazeSensitivity}
+              onChange={(value) => updateSettings({ gazeSensitivity: value })}
+              formatValue={(value) => value.toFixed(1)}
+            />
+            <Slider
+              label={t("gaze.dwell")}
+              min={400}
+              max={4000}
+              step={100}
+              value={settings.gazeDwell}
+              onChange={(value) => updateSettings({ gazeDwell: value })}
+              formatValue={(value) => value.toFixed(0)}
+            />
+          </div>
+          <div className="notice">
+            {supportsMotion() ? t("gaze.hint") : t("gaze.noMotion")}
+          </div>
+          {gazeError && (
+            <div className="notice" style={{ color: "var(--danger)" }}>
+              {gazeError}
+            </div>
+          )}
+
+          <div className="section-title">{t("tips.title")}</div>
           <div className="notice">
-            Используйте сетку для калибровки. Увеличьте масштаб, если картинка
-            слишком маленькая. Отрегулируйте межзрачковое смещение под линзы.
+            {t("tips.text")}
           </div>
         </div>
       </div>
@@ -0,0 +1,171 @@
+import type { VRSettings } from "../types";
+
+export type NumericControl = {
+  min: number;
+  max: number;
+  step: number;
+};
+
+/**
+ * What the running camera track lets the app drive, from the Image Capture
+ * additions to `MediaTrackCapabilities`. Absent features are false or null
+ * and their controls are hidden.
+ */
+export type CameraControls = {
+  torch: boolean;
+  manualFocus: boolean;
+  focusDistance: NumericControl | null;
+  exposureCompensation: NumericControl | null;
+  manualExposure: boolean;
+  iso: NumericControl | null;
+  manualWhiteBalance: boolean;
+  colorTemperature: NumericControl | null;
+};
+
+export type CameraControlFields = Pick<
+  VRSettings,
+  | "torch"
+  | "manualFocus"
+  | "focusDistance"
+  | "exposureCompensation"
+  | "manualExposure"
+  | "iso"
+  | "manualWhiteBalance"
+  | "colorTemperature"
+>;
+
+type Range = { min?: number; max?: number; step?: number };
+
+type ImageCaptureCapabilities = {
+  torch?: boolean;
+  focusMode?: string[];
+  focusDistance?: Range;
+  exposureMode?: string[];
+  exposureCompensation?: Range;
+  iso?: Range;
+  whiteBalanceMode?: string[];
+  colorTemperature?: Range;
+};
+
+type ImageCaptureConstraints = {
+  torch?: boolean;
+  focusMode?: string;
+  focusDistance?: number;
+  exposureMode?: string;
+  exposureCompensation?: number;
+  iso?: number;
+  whiteBalanceMode?: string;
+  colorTemperature?: number;
+};
+
+export const noCameraControls: CameraControls = {
+  torch: false,
+  manualFocus: false,
+  focusDistance: null,
+  exposureCompensation: null,
+  manualExposure: false,
+  iso: null,
+  manualWhiteBalance: false,
+  colorTemperature: null
+};
+
+const numeric = (range: Range | undefined): NumericControl | null =>
+  range && typeof range.min === "number" && typeof range.max === "number" && range.max > range.min
+    ? { min: range.min, max: range.max, step: range.step && range.step > 0 ? range.step : 0 }
+    : null;
+
+export const readCameraControls = (track: MediaStreamTrack | null): CameraControls => {
+  if (!track || typeof track.getCapabilities !== "function") {
+    return noCameraControls;
+  }
+  const capabilities = track.getCapabilities() as ImageCaptureCapabilities;
+  const focusDistance = numeric(capabilities.focusDistance);
+  const iso = numeric(capabilities.iso);
+  const colorTemperature = numeric(capabilities.colorTemperature);
+  return {
+    torch: capabilities.torch === true,
+    manualFocus: Boolean(capabilities.focusMode?.includes("manual") && focusDistance),
+    focusDistance,
+    exposureCompensation: numeric(capabilities.exposureCompensation),
+    manualExposure: Boolean(capabilities.exposureMode?.includes("manual") && iso),
+    iso,
+    manualWhiteBalance: Boolean(
+      capabilities.whiteBalanceMode?.includes("manual") && colorTemperature
+    ),
+    colorTemperature
+  };
+};
+
+// Presets travel between phones, so stored values are fitted to this one.
+const fit = (value: number, control: NumericControl) => {
+  const clamped = Math.min(control.max, Math.max(control.min, value));
+  if (!control.step) {
+    return clamped;
+  }
+  const snapped = control.min + Math.round((clamped - control.min) / control.step) * control.step;
+  return Math.min(control.max, snapped);
+};
+
+const autoMode = (modes: string[] | undefined) =>
+  modes?.includes("continuous") ? "continuous" : modes?.includes("single-shot") ? "single-shot" : null;
+
+/**
+ * The constraint set for the stored camera fields, limited to what the
+ * track supports. Automatic modes prefer continuous over single-shot.
+ */
+const cameraControlConstraints = (
+  track: MediaStreamTrack,
+  fields: CameraControlFields
+): ImageCaptureConstraints => {
+  const capabilities = track.getCapabilities() as ImageCaptureCapabilities;
+  const controls = readCameraControls(track);
+  const constraints: ImageCaptureConstraints = {};
+  if (controls.torch) {
+    constraints.torch = fields.torch;
+  }
+
+  const focusAuto = autoMode(capabilities.focusMode);
+  if (fields.manualFocus && controls.manualFocus && controls.focusDistance) {
+    constraints.focusMode = "manual";
+    constraints.focusDistance = fit(fields.focusDistance, controls.focusDistance);
+  } else if (focusAuto) {
+    constraints.focusMode = focusAuto;
+  }
+
+  const exposureAuto = autoMode(capabilities.exposureMode);
+  if (fields.manualExposure && controls.manualExposure && controls.iso) {
+    constraints.exposureMode = "manual";
+    constraints.iso = fit(fields.iso, controls.iso);
+  } else if (exposureAuto) {
+    constraints.exposureMode = exposureAuto;
+  }
+  if (controls.exposureCompensation) {
+    constraints.exposureCompensation = fit(
+      fields.exposureCompensation,
+      controls.exposureCompensation
+    );
+  }
+
+  const whiteBalanceAuto = autoMode(capabilities.whiteBalanceMode);
+  if (fields.manualWhiteBalance && controls.manualWhiteBalance && controls.colorTemperature) {
+    constraints.whiteBalanceMode = "manual";
+    constraints.colorTemperature = fit(fields.colorTemperature, controls.colorTemperature);
+  } else if (whiteBalanceAuto) {
+    constraints.whiteBalanceMode = whiteBalanceAuto;
+  }
+  return constraints;
+};
+
+export const applyCameraControls = async (
+  track: MediaStreamTrack,
+  fields: CameraControlFields
+) => {
+  if (typeof track.getCapabilities !== "function") {
+    return;
+  }
+  const constraints = cameraControlConstraints(track, fields);
+  if (Object.keys(constraints).length === 0) {
+    return;
+  }
+  await track.applyConstraints({ advanced: [constraints as MediaTrackConstraintSet] });
+};
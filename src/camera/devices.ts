@@ -0,0 +1,124 @@
+import { t } from "../i18n/locale";
+
+export type CameraDevice = {
+  deviceId: string;
+  label: string;
+};
+
+/**
+ * The camera to open. Stored per phone rather than per preset: device ids
+ * are only meaningful in the browser that handed them out. A null device is
+ * the default rear camera, a null frame rate the browser's default.
+ */
+export type StoredCamera = {
+  deviceId: string | null;
+  width: number;
+  height: number;
+  frameRate: number | null;
+};
+
+export type CameraOptions = {
+  resolutions: Array<[number, number]>;
+  frameRates: number[];
+};
+
+export const defaultCamera: StoredCamera = {
+  deviceId: null,
+  width: 1280,
+  height: 720,
+  frameRate: null
+};
+
+const RESOLUTIONS: Array<[number, number]> = [
+  [640, 480],
+  [1280, 720],
+  [1920, 1080],
+  [2560, 1440],
+  [3840, 2160]
+];
+
+const FRAME_RATES = [15, 24, 30, 60];
+
+export const cameraConstraints = (camera: StoredCamera): MediaStreamConstraints => ({
+  video: {
+    ...(camera.deviceId
+      ? { deviceId: { exact: camera.deviceId } }
+      : { facingMode: { ideal: "environment" } }),
+    width: { ideal: camera.width },
+    height: { ideal: camera.height },
+    ...(camera.frameRate ? { frameRate: { ideal: camera.frameRate } } : {})
+  },
+  audio: false
+});
+
+/**
+ * Video inputs. Labels stay empty until the page was granted camera access,
+ * so list again once a stream is running.
+ */
+export const listCameras = async (): Promise<CameraDevice[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) {
+    return [];
+  }
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((device) => device.kind === "videoinput" && device.deviceId)
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      label: device.label || t("camera.numbered", { index: index + 1 })
+    }));
+};
+
+const inRange = (value: number, range: { min?: number; max?: number } | undefined) =>
+  !range || ((range.min ?? 0) <= value && value <= (range.max ?? Infinity));
+
+/**
+ * Common sizes and frame rates the track's capabilities allow. Sizes are
+ * landscape; browsers without `getCapabilities` get the whole list and the
+ * camera settles on the nearest mode it has.
+ */
+export const cameraOptions = (track: MediaStreamTrack | null): CameraOptions => {
+  const capabilities =
+    track && typeof track.getCapabilities === "function" ? track.getCapabilities() : {};
+  const resolutions = RESOLUTIONS.filter(
+    ([width, height]) =>
+      inRange(Math.max(width, height), capabilities.width) &&
+      inRange(Math.min(width, height), capabilities.height)
+  );
+  const frameRates = FRAME_RATES.filter((rate) => inRange(rate, capabilities.frameRate));
+  return {
+    resolutions: resolutions.length > 0 ? resolutions : RESOLUTIONS,
+    frameRates
+  };
+};
+
+/** Whether opening the camera failed because the stored device is gone. */
+export const isMissingCamera = (err: unknown) => {
+  const name = (err as { name?: unknown } | null)?.name;
+  return name === "OverconstrainedError" || name === "NotFoundError";
+};
+
+const validSize = (value: unknown) =>
+  typeof value === "number" && Number.isInteger(value) && value >= 160 && value <= 7680;
+
+export const parseStoredCamera = (stored: string | null): StoredCamera => {
+  if (!stored) {
+    return defaultCamera;
+  }
+  try {
+    const parsed = JSON.parse(stored) as Partial<StoredCamera>;
+    if (!parsed || !validSize(parsed.width) || !validSize(parsed.height)) {
+      return defaultCamera;
+    }
+    return {
+      deviceId: typeof parsed.deviceId === "string" ? parsed.deviceId : null,
+      width: parsed.width as number,
+      height: parsed.height as number,
+      frameRate:
+        typeof parsed.frameRate === "number" && parsed.frameRate > 0 ? parsed.frameRate : null
+    };
+  } catch {
+    return defaultCamera;
+  }
+};
+
+export const serializeCamera = (camera: StoredCamera) => JSON.stringify(camera);
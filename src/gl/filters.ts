@@ -0,0 +1,292 @@
+import type { MessageKey } from "../i18n/ru";
+import type { FilterParamValue, FilterSpec } from "../types";
+import { filterFragment } from "./shaders";
+
+export type FilterParam =
+  | {
+      name: string;
+      label: MessageKey;
+      kind: "float";
+      min: number;
+      max: number;
+      step: number;
+      default: number;
+    }
+  | {
+      name: string;
+      label: MessageKey;
+      kind: "color";
+      default: string;
+    };
+
+/**
+ * A camera-space filter. `source` is a neutral-dialect GLSL snippet that
+ * defines `vec3 applyFilter(vec2 uv)` and may call `sampleColor(uv)`,
+ * `luminance(color)` and read `uTexel`; every param is exposed as a uniform
+ * named `u` + capitalised param name.
+ */
+export type FilterDefinition = {
+  type: string;
+  /** Catalogue key of the name shown in the filter list. */
+  label: MessageKey;
+  params: FilterParam[];
+  source: string;
+};
+
+const registry = new Map<string, FilterDefinition>();
+
+export const registerFilter = (definition: FilterDefinition) => {
+  registry.set(definition.type, definition);
+};
+
+export const getFilter = (type: string) => registry.get(type);
+
+export const listFilters = () => Array.from(registry.values());
+
+export const paramUniform = (name: string) =>
+  `u${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+
+export const hexToRgb = (hexColor: string): [number, number, number] => {
+  if (!/^#([0-9a-fA-F]{6})$/.test(hexColor)) {
+    return [0, 0, 0];
+  }
+  const hex = hexColor.slice(1);
+  return [
+    parseInt(hex.slice(0, 2), 16) / 255,
+    parseInt(hex.slice(2, 4), 16) / 255,
+    parseInt(hex.slice(4, 6), 16) / 255
+  ];
+};
+
+const uniformDeclarations = (definition: FilterDefinition) =>
+  definition.params
+    .map(
+      (param) =>
+        `uniform ${param.kind === "color" ? "vec3" : "float"} ${paramUniform(param.name)};`
+    )
+    .join("\n");
+
+export const filterShaderSource = (definition: FilterDefinition) =>
+  filterFragment(uniformDeclarations(definition), definition.source);
+
+export const filterUniforms = (definition: FilterDefinition) => [
+  "uTexel",
+  ...definition.params.map((param) => paramUniform(param.name))
+];
+
+const defaultParams = (definition: FilterDefinition) => {
+  const params: Record<string, FilterParamValue> = {};
+  definition.params.forEach((param) => {
+    params[param.name] = param.default;
+  });
+  return params;
+};
+
+let filterCounter = 0;
+
+export const createFilter = (
+  type: string,
+  params: Record<string, FilterParamValue> = {},
+  id?: string
+): FilterSpec => {
+  const definition = registry.get(type);
+  filterCounter += 1;
+  return {
+    id: id ?? `${type}-${Date.now().toString(36)}-${filterCounter}`,
+    type,
+    enabled: true,
+    params: { ...(definition ? defaultParams(definition) : {}), ...params }
+  };
+};
+
+const normalizeParam = (param: FilterParam, value: unknown): FilterParamValue => {
+  if (param.kind === "color") {
+    return typeof value === "string" && /^#([0-9a-fA-F]{6})$/.test(value)
+      ? value
+      : param.default;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return param.default;
+  }
+  return Math.min(param.max, Math.max(param.min, value));
+};
+
+export const normalizeFilterChain = (value: unknown): FilterSpec[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.flatMap((item, index) => {
+    if (!item || typeof item !== "object") {
+      return [];
+    }
+    const candidate = item as Partial<FilterSpec>;
+    const definition =
+      typeof candidate.type === "string" ? registry.get(candidate.type) : undefined;
+    if (!definition) {
+      return [];
+    }
+    const incoming = (candidate.params ?? {}) as Record<string, unknown>;
+    const params: Record<string, FilterParamValue> = {};
+    definition.params.forEach((param) => {
+      params[param.name] = normalizeParam(param, incoming[param.name]);
+    });
+    return [
+      {
+        id:
+          typeof candidate.id === "string" && candidate.id
+            ? candidate.id
+            : `${definition.type}-${index}`,
+        type: definition.type,
+        enabled: candidate.enabled !== false,
+        params
+      }
+    ];
+  });
+};
+
+export const amberTwoTone = { dark: "#080805", light: "#ffd11f" };
+export const deepBlueTwoTone = { dark: "#0a0f2e", light: "#ebf5ff" };
+
+export const filtersFromLegacyMode = (mode: unknown): FilterSpec[] => {
+  switch (mode) {
+    case "amber":
+      return [createFilter("twoTone", amberTwoTone, "legacy-amber")];
+    case "deepblue":
+      return [createFilter("twoTone", deepBlueTwoTone, "legacy-deepblue")];
+    case "edge":
+      return [createFilter("edge", { threshold: 0.1, strength: 0.3 }, "legacy-edge")];
+    default:
+      return [];
+  }
+};
+
+registerFilter({
+  type: "edge",
+  label: "filter.edge",
+  params: [
+    {
+      name: "threshold",
+      label: "filter.edge.threshold",
+      kind: "float",
+      min: 0.05,
+      max: 1.5,
+      step: 0.01,
+      default: 0.6
+    },
+    {
+      name: "strength",
+      label: "filter.edge.strength",
+      kind: "float",
+      min: 0,
+      max: 1,
+      step: 0.01,
+      default: 1
+    }
+  ],
+  source: `
+vec3 applyFilter(vec2 uv) {
+  vec2 t = uTexel;
+  float tl = luminance(sampleColor(uv + vec2(-t.x, -t.y)));
+  float tc = luminance(sampleColor(uv + vec2(0.0, -t.y)));
+  float tr = luminance(sampleColor(uv + vec2(t.x, -t.y)));
+  float ml = luminance(sampleColor(uv + vec2(-t.x, 0.0)));
+  float mr = luminance(sampleColor(uv + vec2(t.x, 0.0)));
+  float bl = luminance(sampleColor(uv + vec2(-t.x, t.y)));
+  float bc = luminance(sampleColor(uv + vec2(0.0, t.y)));
+  float br = luminance(sampleColor(uv + vec2(t.x, t.y)));
+
+  float gx = -tl + tr + -2.0 * ml + 2.0 * mr + -bl + br;
+  float gy = -tl - 2.0 * tc - tr + bl + 2.0 * bc + br;
+  float edge = step(uThreshold, sqrt(gx * gx + gy * gy));
+  return mix(sampleColor(uv), vec3(0.0), edge * uStrength);
+}
+`
+});
+
+registerFilter({
+  type: "twoTone",
+  label: "filter.twoTone",
+  params: [
+    {
+      name: "threshold",
+      label: "filter.twoTone.threshold",
+      kind: "float",
+      min: 0.05,
+      max: 0.95,
+      step: 0.01,
+      default: 0.52
+    },
+    { name: "dark", label: "filter.twoTone.dark", kind: "color", default: amberTwoTone.dark },
+    { name: "light", label: "filter.twoTone.light", kind: "color", default: amberTwoTone.light }
+  ],
+  source: `
+vec3 applyFilter(vec2 uv) {
+  float mask = step(uThreshold, luminance(sampleColor(uv)));
+  return mix(uDark, uLight, mask);
+}
+`
+});
+
+registerFilter({
+  type: "tint",
+  label: "filter.tint",
+  params: [
+    { name: "color", label: "filter.tint.color", kind: "color", default: "#ffb347" },
+    {
+      name: "amount",
+      label: "filter.tint.strength",
+      kind: "float",
+      min: 0,
+      max: 1,
+      step: 0.01,
+      default: 0.35
+    }
+  ],
+  source: `
+vec3 applyFilter(vec2 uv) {
+  vec3 color = sampleColor(uv);
+  vec3 tinted = uColor * luminance(color);
+  return mix(color, tinted, uAmount);
+}
+`
+});
+
+registerFilter({
+  type: "sharpen",
+  label: "filter.sharpen",
+  params: [
+    {
+      name: "amount",
+      label: "filter.sharpen.strength",
+      kind: "float",
+      min: 0,
+      max: 3,
+      step: 0.05,
+      default: 1
+    }
+  ],
+  source: `
+vec3 applyFilter(vec2 uv) {
+  vec2 t = uTexel;
+  vec3 center = sampleColor(uv);
+  vec3 blur = (
+    sampleColor(uv + vec2(t.x, 0.0)) +
+    sampleColor(uv - vec2(t.x, 0.0)) +
+    sampleColor(uv + vec2(0.0, t.y)) +
+    sampleColor(uv - vec2(0.0, t.y))
+  ) * 0.25;
+  return center + (center - blur) * uAmount;
+}
+`
+});
+
+registerFilter({
+  type: "invert",
+  label: "filter.invert",
+  params: [],
+  source: `
+vec3 applyFilter(vec2 uv) {
+  return vec3(1.0) - sampleColor(uv);
+}
+`
+});
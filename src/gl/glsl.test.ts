@@ -0,0 +1,315 @@
+import { spawnSync } from "node:child_process";
+import { accessSync, chmodSync, constants } from "node:fs";
+import { path as glslangValidator } from "glslang-validator-prebuilt-predownloaded";
+import { describe, expect, it } from "vitest";
+import { filterShaderSource, filterUniforms, listFilters } from "./filters";
+import { composeShader, declaredUniforms, ShaderDefines, ShaderDialect } from "./glsl";
+import { MAX_RADIAL_TABLE } from "./lens";
+import {
+  colorUniforms,
+  lensMeshUniforms,
+  lensUniforms,
+  lumaUniforms,
+  MAX_TEXT_BOXES,
+  overlayUniforms,
+  panelUniforms,
+  textHighlightUniforms
+} from "./renderer";
+import {
+  colorFragment,
+  lensFragment,
+  lensMeshFragment,
+  lensMeshVertex,
+  lumaFragment,
+  overlayFragment,
+  panelFragment,
+  quadVertex,
+  textHighlightFragment
+} from "./shaders";
+
+type Pass = {
+  name: string;
+  vertex: string;
+  fragment: string;
+  uniforms: readonly string[];
+  /** Every define the renderer can pass, switched on. */
+  defines: ShaderDefines;
+};
+
+const shadingFeatures: ShaderDefines = {
+  FEATURE_MAGNIFIER: true,
+  FEATURE_CHROMA: true,
+  FEATURE_CALIBRATION: true,
+  FEATURE_CHROMA_PATTERN: true
+};
+
+const passes: Pass[] = [
+  {
+    name: "color",
+    vertex: quadVertex,
+    fragment: colorFragment,
+    uniforms: colorUniforms,
+    defines: {}
+  },
+  {
+    name: "lens",
+    vertex: quadVertex,
+    fragment: lensFragment,
+    uniforms: lensUniforms,
+    defines: {
+      FEATURE_SPHERE: true,
+      FEATURE_RADIAL_TABLE: true,
+      MAX_RADIAL_TABLE,
+      ...shadingFeatures
+    }
+  },
+  {
+    name: "lens-mesh",
+    vertex: lensMeshVertex,
+    fragment: lensMeshFragment,
+    uniforms: lensMeshUniforms,
+    defines: shadingFeatures
+  },
+  {
+    name: "overlay",
+    vertex: quadVertex,
+    fragment: overlayFragment,
+    uniforms: overlayUniforms,
+    defines: { FEATURE_CALIBRATION: true }
+  },
+  {
+    name: "panel",
+    vertex: quadVertex,
+    fragment: panelFragment,
+    uniforms: panelUniforms,
+    defines: { FEATURE_RADIAL_TABLE: true, MAX_RADIAL_TABLE }
+  },
+  {
+    name: "text-highlight",
+    vertex: quadVertex,
+    fragment: textHighlightFragment,
+    uniforms: textHighlightUniforms,
+    defines: { MAX_TEXT_BOXES }
+  },
+  { name: "luma", vertex: quadVertex, fragment: lumaFragment, uniforms: lumaUniforms, defines: {} },
+  ...listFilters().map((definition) => ({
+    name: `filter-${definition.type}`,
+    vertex: quadVertex,
+    fragment: filterShaderSource(definition),
+    uniforms: filterUniforms(definition),
+    defines: {}
+  }))
+];
+
+/** The defines a pass needs whatever its features: sizes, not switches. */
+const requiredDefines = (defines: ShaderDefines) =>
+  Object.fromEntries(Object.entries(defines).filter(([, value]) => typeof value !== "boolean"));
+
+const evaluateCondition = (expression: string, defined: Set<string>) => {
+  const values = expression.replace(/defined\s*\(?\s*(\w+)\s*\)?/g, (_match, name: string) =>
+    defined.has(name) ? "1" : "0"
+  );
+  if (!/^[01\s|&]*$/.test(values)) {
+    throw new Error(`Unsupported #if expression: ${expression}`);
+  }
+  return values.split("||").some((part) => part.split("&&").every((term) => term.trim() === "1"));
+};
+
+/**
+ * What the GLSL preprocessor keeps of `source`, with the object-like
+ * macros expanded. Enough of the preprocessor for these shaders; anything
+ * it does not know fails the test rather than passing silently.
+ */
+const preprocess = (source: string) => {
+  const defined = new Set<string>();
+  const macros = new Map<string, string>();
+  const stack: Array<{ active: boolean; taken: boolean }> = [];
+  const active = () => stack.every((entry) => entry.active);
+  const lines: string[] = [];
+
+  for (const line of source.split("\n")) {
+    const directive = line.trim().match(/^#\s*(\w+)\s*(.*)$/);
+    if (!directive) {
+      if (active()) {
+        lines.push(line);
+      }
+      continue;
+    }
+    const [, keyword, rest = ""] = directive;
+    const top = stack[stack.length - 1];
+    switch (keyword) {
+      case "ifdef":
+      case "ifndef":
+      case "if": {
+        const result =
+          keyword === "if"
+            ? evaluateCondition(rest, defined)
+            : defined.has(rest.trim()) === (keyword === "ifdef");
+        stack.push({ active: result, taken: result });
+        break;
+      }
+      case "elif":
+      case "else": {
+        if (!top) {
+          throw new Error(`#${keyword} without #if`);
+        }
+        const result = !top.taken && (keyword === "else" || evaluateCondition(rest, defined));
+        top.active = result;
+        top.taken = top.taken || result;
+        break;
+      }
+      case "endif":
+        if (!stack.pop()) {
+          throw new Error("#endif without #if");
+        }
+        break;
+      case "define":
+        if (active()) {
+          const [name = "", ...value] = rest.split(/\s+/);
+          defined.add(name);
+          macros.set(name, value.join(" "));
+        }
+        break;
+      case "version":
+        lines.push(line);
+        break;
+      default:
+        throw new Error(`Unexpected directive: ${line.trim()}`);
+    }
+  }
+  if (stack.length > 0) {
+    throw new Error("Unterminated #if");
+  }
+
+  return lines
+    .map((line) => line.replace(/\b[A-Z_][A-Z0-9_]*\b/g, (name) => macros.get(name) ?? name))
+    .join("\n");
+};
+
+/**
+ * Compiles `source` with glslang, the reference GLSL front end, and returns
+ * its errors. WebGL1 sources carry no #version; they are GLSL ES 1.00.
+ */
+const compile = (source: string, stage: "vertex" | "fragment", dialect: ShaderDialect) => {
+  try {
+    accessSync(glslangValidator, constants.X_OK);
+  } catch {
+    // The package ships the binary without the executable bit.
+    chmodSync(glslangValidator, 0o755);
+  }
+  const result = spawnSync(
+    glslangValidator,
+    ["--stdin", "-S", stage === "vertex" ? "vert" : "frag"],
+    { input: dialect === "webgl1" ? `#version 100\n${source}` : source, encoding: "utf8" }
+  );
+  if (result.error) {
+    throw result.error;
+  }
+  const errors = result.stdout.split("\n").filter((line) => /^ERROR:/.test(line));
+  return result.status === 0 ? errors : [...errors, `glslang exited with ${result.status}`];
+};
+
+const countUniforms = (source: string) => {
+  const counts = new Map<string, number>();
+  for (const match of source.matchAll(/^\s*uniform\s+\w+\s+(\w+)/gm)) {
+    const name = match[1] ?? "";
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+  return counts;
+};
+
+const declarations = (source: string, qualifier: string) =>
+  Array.from(source.matchAll(new RegExp(`^\\s*${qualifier}\\s+\\w+\\s+(\\w+)\\s*;`, "gm")))
+    .map((match) => match[1])
+    .sort();
+
+const dialects: ShaderDialect[] = ["webgl1", "webgl2"];
+
+describe.each(dialects)("shaders in %s", (dialect) => {
+  const vertexSources = [quadVertex, lensMeshVertex];
+
+  it.each(vertexSources.map((source, index) => [index, source] as const))(
+    "composes vertex shader %i in the dialect",
+    (_index, source) => {
+      const composed = composeShader(source, { stage: "vertex", dialect });
+      const code = preprocess(composed);
+      expect(compile(composed, "vertex", dialect)).toEqual([]);
+      expect(composed).not.toMatch(/#include/);
+      expect(code).not.toMatch(/\b(ATTRIBUTE|VARYING)\b/);
+      if (dialect === "webgl1") {
+        expect(code).not.toMatch(/#version/);
+        expect(code).toMatch(/^attribute vec2 aPosition;$/m);
+        expect(code).toMatch(/^varying vec2 vUV;$/m);
+        expect(code).not.toMatch(/^\s*(in|out)\s/m);
+      } else {
+        expect(code.split("\n")[0]).toBe("#version 300 es");
+        expect(code).toMatch(/^in vec2 aPosition;$/m);
+        expect(code).toMatch(/^out vec2 vUV;$/m);
+        expect(code).not.toMatch(/\b(attribute|varying)\b/);
+      }
+    }
+  );
+
+  describe.each(passes.map((pass) => [pass.name, pass] as const))("%s pass", (_name, pass) => {
+    // None, each feature on its own, and all of them: a feature may lean on another's code.
+    const required = requiredDefines(pass.defines);
+    const features = Object.keys(pass.defines).filter((name) => !(name in required));
+    const variants = [
+      required,
+      ...(features.length > 1 ? features.map((name) => ({ ...required, [name]: true })) : []),
+      pass.defines
+    ];
+
+    it.each(variants.map((defines) => [Object.keys(defines).join(", ") || "no defines", defines]))(
+      "composes with %s",
+      (_label, defines) => {
+        const composed = composeShader(pass.fragment, { stage: "fragment", dialect, defines });
+        const code = preprocess(composed);
+
+        expect(compile(composed, "fragment", dialect)).toEqual([]);
+        expect(composed).not.toMatch(/#include/);
+        expect(code).not.toMatch(/\b(VARYING|TEXTURE|FRAG_COLOR)\b/);
+        expect(code).toMatch(/^precision mediump float;$/m);
+        for (const [name, count] of countUniforms(code)) {
+          expect(count, `uniform ${name} declared once`).toBe(1);
+        }
+
+        if (dialect === "webgl1") {
+          expect(code).not.toMatch(/#version/);
+          expect(code).toMatch(/^varying vec2 vUV;$/m);
+          expect(code).toMatch(/\bgl_FragColor\b/);
+          expect(code).not.toMatch(/\b(texture|fragColor)\b/);
+          expect(code).not.toMatch(/^\s*(in|out)\s/m);
+        } else {
+          expect(code.split("\n")[0]).toBe("#version 300 es");
+          expect(code).toMatch(/^in vec2 vUV;$/m);
+          expect(code).toMatch(/^out vec4 fragColor;$/m);
+          expect(code).toMatch(/\bfragColor =/);
+          expect(code).not.toMatch(/\b(texture2D|gl_FragColor|attribute|varying)\b/);
+        }
+
+        // Every varying the fragment reads has to be written by its vertex shader.
+        const vertex = preprocess(composeShader(pass.vertex, { stage: "vertex", dialect }));
+        const inputs = dialect === "webgl1" ? "varying" : "in";
+        const outputs = dialect === "webgl1" ? "varying" : "out";
+        expect(declarations(vertex, outputs)).toEqual(
+          expect.arrayContaining(declarations(code, inputs))
+        );
+      }
+    );
+
+    it("declares every uniform the renderer sets", () => {
+      const composed = composeShader(pass.fragment, {
+        stage: "fragment",
+        dialect,
+        defines: pass.defines
+      });
+      const declared = declaredUniforms(composed);
+      const live = declaredUniforms(preprocess(composed));
+      for (const name of pass.uniforms) {
+        expect(declared.has(name), `${name} declared`).toBe(true);
+        expect(live.has(name), `${name} compiled in`).toBe(true);
+      }
+    });
+  });
+});
@@ -0,0 +1,126 @@
+export type ShaderDialect = "webgl1" | "webgl2";
+
+export type ShaderStage = "vertex" | "fragment";
+
+export type ShaderDefines = Record<string, boolean | number | string>;
+
+export type ComposeOptions = {
+  stage: ShaderStage;
+  dialect: ShaderDialect;
+  defines?: ShaderDefines;
+};
+
+const modules = new Map<string, string>();
+
+const INCLUDE_PATTERN = /^[ \t]*#include\s+<([\w./-]+)>[ \t]*$/gm;
+const UNIFORM_PATTERN = /^[ \t]*uniform\s+\w+\s+(\w+)\s*(?:\[[^\]]*\])?\s*;/gm;
+
+/**
+ * Registers a GLSL snippet that other shaders can pull in with
+ * `#include <name>`. Snippets are written in the neutral dialect below.
+ */
+export const defineShaderModule = (name: string, source: string) => {
+  modules.set(name, source);
+};
+
+/*
+ * Neutral dialect understood by every module:
+ *   ATTRIBUTE     vertex input          (attribute / in)
+ *   VARYING       varying               (varying / out in vertex, in in fragment)
+ *   TEXTURE(s,uv) 2D texture lookup     (texture2D / texture)
+ *   FRAG_COLOR    fragment output       (gl_FragColor / declared out vec4)
+ */
+const prelude = (stage: ShaderStage, dialect: ShaderDialect) => {
+  if (dialect === "webgl2") {
+    return stage === "vertex"
+      ? [
+          "#version 300 es",
+          "#define WEBGL2 1",
+          "#define ATTRIBUTE in",
+          "#define VARYING out"
+        ]
+      : [
+          "#version 300 es",
+          "precision mediump float;",
+          "#define WEBGL2 1",
+          "#define VARYING in",
+          "#define TEXTURE texture",
+          "out vec4 fragColor;",
+          "#define FRAG_COLOR fragColor"
+        ];
+  }
+  return stage === "vertex"
+    ? ["#define ATTRIBUTE attribute", "#define VARYING varying"]
+    : [
+        "precision mediump float;",
+        "#define VARYING varying",
+        "#define TEXTURE texture2D",
+        "#define FRAG_COLOR gl_FragColor"
+      ];
+};
+
+const formatDefine = (name: string, value: boolean | number | string) => {
+  if (value === false) {
+    return null;
+  }
+  if (value === true) {
+    return `#define ${name} 1`;
+  }
+  return `#define ${name} ${value}`;
+};
+
+const resolveIncludes = (
+  source: string,
+  included: Set<string>,
+  stack: string[]
+): string =>
+  source.replace(INCLUDE_PATTERN, (_line, name: string) => {
+    if (stack.includes(name)) {
+      throw new Error(`Shader include cycle: ${[...stack, name].join(" -> ")}`);
+    }
+    if (included.has(name)) {
+      return "";
+    }
+    const module = modules.get(name);
+    if (module === undefined) {
+      throw new Error(`Unknown shader module: ${name}`);
+    }
+    included.add(name);
+    return resolveIncludes(module, included, [...stack, name]).trim();
+  });
+
+export const composeShader = (source: string, options: ComposeOptions) => {
+  const defines = Object.entries(options.defines ?? {})
+    .map(([name, value]) => formatDefine(name, value))
+    .filter((line): line is string => line !== null);
+  const body = resolveIncludes(source, new Set(), []);
+
+  return [...prelude(options.stage, options.dialect), ...defines, body.trim(), ""].join(
+    "\n"
+  );
+};
+
+export const declaredUniforms = (source: string) => {
+  const names = new Set<string>();
+  for (const match of source.matchAll(UNIFORM_PATTERN)) {
+    if (match[1]) {
+      names.add(match[1]);
+    }
+  }
+  return names;
+};
+
+/**
+ * Fails fast in development when a composed shader no longer declares a
+ * uniform the renderer binds; production builds skip the check.
+ */
+export const assertUniforms = (source: string, expected: readonly string[]) => {
+  if (!import.meta.env.DEV) {
+    return;
+  }
+  const declared = declaredUniforms(source);
+  const missing = expected.filter((name) => !declared.has(name));
+  if (missing.length > 0) {
+    throw new Error(`Shader is missing uniforms: ${missing.join(", ")}`);
+  }
+};
@@ -0,0 +1,100 @@
+import { t } from "../i18n/locale";
+
+/**
+ * Radial lookup table: rows of [r, r′], where r is the distance from the
+ * lens centre in eye-viewport units (0.5 is the edge of the eye square) and
+ * r′ the distance the lens pass samples the source at, in the same units.
+ * The lens pass converts to them at any scale and camera aspect, so a table
+ * measured once holds at every zoom. When present it replaces the k1–k3
+ * polynomial; p1/p2 still apply on top.
+ */
+export type RadialTable = Array<[number, number]>;
+
+/** Fixed uniform array size in the lens shader. */
+export const MAX_RADIAL_TABLE = 32;
+
+const R_LIMIT = 4;
+
+/**
+ * Keeps finite, non-negative rows with strictly increasing r, up to
+ * MAX_RADIAL_TABLE of them. `dropped` counts the rows that were left out.
+ */
+export const normalizeRadialTable = (value: unknown) => {
+  if (!Array.isArray(value)) {
+    return { table: [] as RadialTable, dropped: 0 };
+  }
+  const table: RadialTable = [];
+  value.forEach((row: unknown) => {
+    if (!Array.isArray(row) || row.length !== 2 || table.length >= MAX_RADIAL_TABLE) {
+      return;
+    }
+    const [r, mapped] = row as unknown[];
+    const previous = table[table.length - 1];
+    if (
+      typeof r !== "number" ||
+      typeof mapped !== "number" ||
+      !Number.isFinite(r) ||
+      !Number.isFinite(mapped) ||
+      r <= 0 ||
+      r > R_LIMIT ||
+      mapped < 0 ||
+      mapped > R_LIMIT ||
+      (previous && r <= previous[0])
+    ) {
+      return;
+    }
+    table.push([r, mapped]);
+  });
+  return { table, dropped: value.length - table.length };
+};
+
+/**
+ * Accepts one "r, r′" pair per line, separated by a comma, semicolon, tab or
+ * spaces. A header line and `#` comments are skipped. Throws with a message
+ * for the user when nothing usable remains.
+ */
+export const parseRadialTable = (text: string): RadialTable => {
+  const rows: number[][] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.replace(/#.*$/, "").trim();
+    if (!trimmed) {
+      return;
+    }
+    const cells = trimmed.split(/[,;\t ]+/).map((cell) => Number(cell));
+    if (cells.length !== 2 || cells.some((cell) => Number.isNaN(cell))) {
+      if (rows.length === 0 && index === 0) {
+        return;
+      }
+      throw new Error(t("lens.badRow", { row: index + 1 }));
+    }
+    rows.push(cells);
+  });
+  const rowsSorted = [...rows].sort((a, b) => (a[0] ?? 0) - (b[0] ?? 0));
+  const { table, dropped } = normalizeRadialTable(rowsSorted);
+  if (table.length < 2) {
+    throw new Error(t("lens.tooShort"));
+  }
+  if (dropped > 0) {
+    throw new Error(t("lens.invalid", { max: MAX_RADIAL_TABLE }));
+  }
+  return table;
+};
+
+export const formatRadialTable = (table: RadialTable) =>
+  table.map(([r, mapped]) => `${r}, ${mapped}`).join("\n");
+
+/**
+ * r′ for r: linear between rows, from the origin before the first row and
+ * along the last row's ratio past the end. Mirrors `radialTableFactor`.
+ */
+export const lookupRadius = (table: RadialTable, r: number) => {
+  let previous: [number, number] = [0, 0];
+  for (const row of table) {
+    if (r <= row[0]) {
+      const t = (r - previous[0]) / Math.max(row[0] - previous[0], 0.00001);
+      return previous[1] + (row[1] - previous[1]) * t;
+    }
+    previous = row;
+  }
+  return (r * previous[1]) / Math.max(previous[0], 0.00001);
+};
@@ -0,0 +1,222 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildDistortionMesh,
+  DistortionMesh,
+  lensCenter,
+  LensGeometry,
+  MESH_FLOATS_PER_VERTEX,
+  MESH_MAX_ERROR_TEXELS,
+  meshWithinTolerance,
+  warpLensUV
+} from "./mesh";
+
+// The right eye of the default settings on a 720p camera.
+const baseGeometry: LensGeometry = {
+  videoAspect: 1280 / 720,
+  scale: 1,
+  offsetX: 0,
+  offsetY: 0,
+  shift: 0.02,
+  distortion: true,
+  k1: 3.5,
+  k2: 2,
+  k3: 0,
+  p1: 0,
+  p2: 0,
+  radialTable: [],
+  sphereStrength: 0,
+  sphereRadius: 0.5,
+  textureWidth: 1280,
+  textureHeight: 720
+};
+
+type Path = "mesh" | "shader";
+
+/** Each geometry and the path it should be drawn with. */
+const geometries: Array<[string, LensGeometry, Path]> = [
+  ["default k1/k2", baseGeometry, "mesh"],
+  ["strong k1/k2", { ...baseGeometry, k1: 10, k2: 10 }, "mesh"],
+  ["zoomed-in strong k1–k3", { ...baseGeometry, k1: 10, k2: 10, k3: 4, scale: 1.4 }, "mesh"],
+  ["tangential terms", { ...baseGeometry, p1: 0.05, p2: -0.04 }, "mesh"],
+  ["no distortion", { ...baseGeometry, distortion: false }, "mesh"],
+  [
+    "a radial table",
+    {
+      ...baseGeometry,
+      radialTable: [
+        [0.1, 0.104],
+        [0.2, 0.225],
+        [0.3, 0.37],
+        [0.4, 0.55],
+        [0.6, 0.96]
+      ]
+    },
+    "shader"
+  ],
+  ["a soft sphere", { ...baseGeometry, sphereStrength: 0.5, sphereRadius: 0.45 }, "shader"],
+  ["a hard sphere", { ...baseGeometry, sphereStrength: 1, sphereRadius: 0.45 }, "shader"]
+];
+
+/** The chroma pass scales each channel about the lens centre by up to ±5%. */
+const CHROMA_SCALES = [0.95, 1, 1.05];
+
+const clampUnit = (value: number) => Math.min(1, Math.max(0, value));
+
+const vertexUV = (mesh: DistortionMesh, index: number): [number, number] => {
+  const offset = index * MESH_FLOATS_PER_VERTEX;
+  return [mesh.vertices[offset + 4] ?? NaN, mesh.vertices[offset + 5] ?? NaN];
+};
+
+/**
+ * The warped UV the GPU interpolates at screen point (x, y): barycentric
+ * over the triangle of the cell that holds it, split along its a–d diagonal
+ * as in `buildDistortionMesh`.
+ */
+const interpolate = (mesh: DistortionMesh, x: number, y: number): [number, number] => {
+  const { grid } = mesh;
+  const stride = grid + 1;
+  const column = Math.min(grid - 1, Math.floor(x * grid));
+  const row = Math.min(grid - 1, Math.floor(y * grid));
+  const fx = x * grid - column;
+  const fy = y * grid - row;
+  const a = row * stride + column;
+  const b = a + 1;
+  const c = a + stride;
+  const d = c + 1;
+  const weights: Array<[number, number]> =
+    fx >= fy
+      ? [
+          [a, 1 - fx],
+          [b, fx - fy],
+          [d, fy]
+        ]
+      : [
+          [a, 1 - fy],
+          [c, fy - fx],
+          [d, fx]
+        ];
+  return weights.reduce<[number, number]>(
+    ([u, v], [index, weight]) => {
+      const [vertexU, vertexV] = vertexUV(mesh, index);
+      return [u + vertexU * weight, v + vertexV * weight];
+    },
+    [0, 0]
+  );
+};
+
+/** Largest mesh error in source pixels, probing points between the vertices of every cell. */
+const measureError = (geometry: LensGeometry, mesh: DistortionMesh, chromaScale = 1) => {
+  const [centerX, centerY] = lensCenter(geometry);
+  // Clamped like the sampler: past the edge every UV reads the edge texel.
+  const sample = (u: number, v: number) => [
+    clampUnit(centerX + (u - centerX) * chromaScale),
+    clampUnit(centerY + (v - centerY) * chromaScale)
+  ];
+  const fractions = [0.2, 0.5, 0.8];
+  let worst = 0;
+  for (let row = 0; row < mesh.grid; row += 1) {
+    for (let column = 0; column < mesh.grid; column += 1) {
+      for (const fy of fractions) {
+        for (const fx of fractions) {
+          const x = (column + fx) / mesh.grid;
+          const y = (row + fy) / mesh.grid;
+          const [exactU = 0, exactV = 0] = sample(...warpLensUV(geometry, x, y));
+          const [meshU = 0, meshV = 0] = sample(...interpolate(mesh, x, y));
+          worst = Math.max(
+            worst,
+            Math.hypot(
+              (exactU - meshU) * geometry.textureWidth,
+              (exactV - meshV) * geometry.textureHeight
+            )
+          );
+        }
+      }
+    }
+  }
+  return worst;
+};
+
+describe("buildDistortionMesh", () => {
+  it("lays out position, screen UV and warped UV per vertex", () => {
+    const mesh = buildDistortionMesh(baseGeometry);
+    const stride = mesh.grid + 1;
+    expect(mesh.vertices).toHaveLength(stride * stride * MESH_FLOATS_PER_VERTEX);
+    expect(mesh.indices).toHaveLength(mesh.grid * mesh.grid * 6);
+    const last = stride * stride - 1;
+    const offset = last * MESH_FLOATS_PER_VERTEX;
+    expect(Array.from(mesh.vertices.slice(offset, offset + 4))).toEqual([1, 1, 1, 1]);
+    const [u, v] = warpLensUV(baseGeometry, 1, 1);
+    expect(vertexUV(mesh, last)[0]).toBeCloseTo(u, 5);
+    expect(vertexUV(mesh, last)[1]).toBeCloseTo(v, 5);
+  });
+
+  it.each(geometries)("draws %s within tolerance", (_name, geometry, path) => {
+    const mesh = buildDistortionMesh(geometry);
+    const error = measureError(geometry, mesh);
+    if (path === "mesh") {
+      expect(meshWithinTolerance(mesh)).toBe(true);
+      expect(error).toBeLessThanOrEqual(MESH_MAX_ERROR_TEXELS);
+      // The error the mesh reports is close to the one it has between vertices.
+      expect(Math.abs(error - mesh.errorTexels)).toBeLessThan(MESH_MAX_ERROR_TEXELS / 4);
+    } else {
+      // Even the finest grid is too far off: the eye is drawn per pixel.
+      expect(mesh.grid).toBe(96);
+      expect(error).toBeGreaterThan(MESH_MAX_ERROR_TEXELS);
+      expect(meshWithinTolerance(mesh)).toBe(false);
+    }
+  });
+
+  it.each(CHROMA_SCALES)("stays within tolerance for a chroma scale of %f", (scale) => {
+    const mesh = buildDistortionMesh(baseGeometry);
+    expect(measureError(baseGeometry, mesh, scale)).toBeLessThanOrEqual(MESH_MAX_ERROR_TEXELS);
+  });
+
+  it("refines the grid where a coarse one is too far off", () => {
+    const flat = buildDistortionMesh({ ...baseGeometry, distortion: false });
+    const gentle = buildDistortionMesh({ ...baseGeometry, k1: 1, k2: 0 });
+    const strong = buildDistortionMesh(baseGeometry);
+    expect(flat.grid).toBeLessThan(gentle.grid);
+    expect(gentle.grid).toBeLessThan(strong.grid);
+    expect([flat, gentle, strong].every(meshWithinTolerance)).toBe(true);
+  });
+});
+
+describe("warpLensUV with a radial table", () => {
+  // r′ = 0.8 r up to the eye's edge, steeper past it.
+  const table: LensGeometry["radialTable"] = [
+    [0.5, 0.4],
+    [1, 1.2]
+  ];
+
+  const cases = [1, 3, 6].flatMap((scale) =>
+    [1280 / 720, 720 / 1280].map((videoAspect) => ({ scale, videoAspect }))
+  );
+
+  it.each(cases)(
+    "measures r on the eye at scale $scale and aspect $videoAspect",
+    ({ scale, videoAspect }) => {
+      const plain = { ...baseGeometry, scale, videoAspect, shift: 0, distortion: false };
+      const geometry = { ...plain, distortion: true, radialTable: table };
+      const [centerX, centerY] = lensCenter(geometry);
+      const ratio = (x: number, y: number) => {
+        const [u, v] = warpLensUV(geometry, x, y);
+        const [plainU, plainV] = warpLensUV(plain, x, y);
+        return (
+          Math.hypot(u - centerX, v - centerY) / Math.hypot(plainU - centerX, plainV - centerY)
+        );
+      };
+      // The middle of each side of the eye is r = 0.5: the table's row there.
+      [
+        [1, 0.5],
+        [0, 0.5],
+        [0.5, 0],
+        [0.5, 1]
+      ].forEach(([x = 0, y = 0]) => {
+        expect(ratio(x, y)).toBeCloseTo(0.8, 6);
+      });
+      // The corner is r = √2 / 2, on the second segment of the table.
+      const corner = 0.4 + (Math.SQRT1_2 - 0.5) * 1.6;
+      expect(ratio(1, 1)).toBeCloseTo(corner / Math.SQRT1_2, 6);
+    }
+  );
+});
@@ -0,0 +1,225 @@
+import { lookupRadius, RadialTable } from "./lens";
+
+/**
+ * Lens-pass inputs that shape the UV warp. Pan is added per fragment, so
+ * panning a frozen frame does not rebuild the mesh.
+ */
+export type LensGeometry = {
+  videoAspect: number;
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+  /** eyeSign * separation, in eye-viewport units. */
+  shift: number;
+  distortion: boolean;
+  k1: number;
+  k2: number;
+  k3: number;
+  p1: number;
+  p2: number;
+  /** Replaces k1–k3 when not empty. */
+  radialTable: RadialTable;
+  sphereStrength: number;
+  sphereRadius: number;
+  /** Source size, to express the mesh error in source pixels. */
+  textureWidth: number;
+  textureHeight: number;
+};
+
+/** Interleaved position (clip space), screen UV and warped source UV. */
+export const MESH_FLOATS_PER_VERTEX = 6;
+
+export type DistortionMesh = {
+  grid: number;
+  vertices: Float32Array;
+  indices: Uint16Array;
+  /** Largest distance, in source pixels, between the mesh and the exact warp. */
+  errorTexels: number;
+};
+
+// Grid sizes tried in order; the first one within MESH_MAX_ERROR_TEXELS wins.
+// 96 cells keep the vertex count under the 16-bit index limit.
+const MESH_GRIDS = [24, 48, 96];
+
+/** Tolerance for the mesh path against the per-pixel lens shader. */
+export const MESH_MAX_ERROR_TEXELS = 0.5;
+export const MESH_MAX_MEAN_DIFF = 2;
+
+export const lensCenter = (geometry: LensGeometry): [number, number] => [
+  0.5 + geometry.offsetX + geometry.shift,
+  0.5 + geometry.offsetY
+];
+
+/**
+ * Texture UV to eye units along x and y: undoes the aspect fit and the zoom
+ * of `warpLensUV`, so a radial table row at r = 0.5 lands on the eye's edge.
+ */
+export const radialTableScale = (geometry: LensGeometry): [number, number] =>
+  geometry.videoAspect > 1
+    ? [geometry.videoAspect * geometry.scale, geometry.scale]
+    : [geometry.scale, geometry.scale / geometry.videoAspect];
+
+const clampUnit = (value: number) => Math.min(1, Math.max(0, value));
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+/** CPU port of the UV math in `lensFragment` (aspect, scale, distortion, sphere). */
+export const warpLensUV = (
+  geometry: LensGeometry,
+  x: number,
+  y: number
+): [number, number] => {
+  let u = x;
+  let v = y;
+  if (geometry.videoAspect > 1) {
+    u = (u - 0.5) / geometry.videoAspect + 0.5;
+  } else {
+    v = (v - 0.5) * geometry.videoAspect + 0.5;
+  }
+  const [centerX, centerY] = lensCenter(geometry);
+  u = (u - 0.5) / geometry.scale + centerX;
+  v = (v - 0.5) / geometry.scale + centerY;
+
+  if (geometry.distortion) {
+    const { k1, k2, k3, p1, p2, radialTable } = geometry;
+    const du = u - centerX;
+    const dv = v - centerY;
+    const r2 = du * du + dv * dv;
+    let factor = 1 + r2 * (k1 + r2 * (k2 + r2 * k3));
+    if (radialTable.length > 0) {
+      const [scaleX, scaleY] = radialTableScale(geometry);
+      const r = Math.hypot(du * scaleX, dv * scaleY);
+      factor = lookupRadius(radialTable, r) / Math.max(r, 0.00001);
+    }
+    u = centerX + du * factor + 2 * p1 * du * dv + p2 * (r2 + 2 * du * du);
+    v = centerY + dv * factor + p1 * (r2 + 2 * dv * dv) + 2 * p2 * du * dv;
+  }
+
+  const strength = Math.min(1, Math.max(0, geometry.sphereStrength));
+  if (strength > 0.001) {
+    const radius = Math.max(geometry.sphereRadius, 0.00001);
+    const screenX = x - 0.5;
+    const screenY = y - 0.5;
+    const screenR = Math.hypot(screenX, screenY);
+    const normR = screenR / radius;
+    const sphereNorm = Math.asin(Math.min(1, normR)) / (Math.PI / 2);
+    const length = screenR > 0.00001 ? (sphereNorm * radius) / geometry.scale / screenR : 0;
+    const feather = 0.45 * (1 - strength);
+    const mask =
+      feather > 0.0001 ? 1 - smoothstep(1 - feather, 1, normR) : normR <= 1 ? 1 : 0;
+    u += (centerX + screenX * length - u) * mask;
+    v += (centerY + screenY * length - v) * mask;
+  }
+  return [u, v];
+};
+
+export const lensGeometryKey = (geometry: LensGeometry) =>
+  Object.values(geometry).flat(2).join(",");
+
+const buildGrid = (geometry: LensGeometry, grid: number): DistortionMesh => {
+  const stride = grid + 1;
+  const vertices = new Float32Array(stride * stride * MESH_FLOATS_PER_VERTEX);
+  for (let row = 0; row <= grid; row += 1) {
+    for (let column = 0; column <= grid; column += 1) {
+      const x = column / grid;
+      const y = row / grid;
+      const [u, v] = warpLensUV(geometry, x, y);
+      vertices.set([x * 2 - 1, y * 2 - 1, x, y, u, v], (row * stride + column) * 6);
+    }
+  }
+
+  const indices = new Uint16Array(grid * grid * 6);
+  const warped = (index: number): [number, number] => [
+    vertices[index * 6 + 4] ?? 0,
+    vertices[index * 6 + 5] ?? 0
+  ];
+  let errorTexels = 0;
+  // Linear interpolation is worst midway between vertices: check the middle
+  // of the shared diagonal and of the bottom and left edges of every cell.
+  // Both UVs are clamped like the sampler clamps them: past the edge of the
+  // source every UV reads the edge texel, so an error there does not show.
+  const measure = (x: number, y: number, a: number, b: number) => {
+    const [exactU, exactV] = warpLensUV(geometry, x, y);
+    const [aU, aV] = warped(a);
+    const [bU, bV] = warped(b);
+    const errorU = (clampUnit(exactU) - clampUnit((aU + bU) / 2)) * geometry.textureWidth;
+    const errorV = (clampUnit(exactV) - clampUnit((aV + bV) / 2)) * geometry.textureHeight;
+    errorTexels = Math.max(errorTexels, Math.hypot(errorU, errorV));
+  };
+  for (let row = 0; row < grid; row += 1) {
+    for (let column = 0; column < grid; column += 1) {
+      const a = row * stride + column;
+      const b = a + 1;
+      const c = a + stride;
+      const d = c + 1;
+      indices.set([a, b, d, a, d, c], (row * grid + column) * 6);
+      const x = column / grid;
+      const y = row / grid;
+      const half = 0.5 / grid;
+      measure(x + half, y + half, a, d);
+      measure(x + half, y, a, b);
+      measure(x, y + half, a, c);
+    }
+  }
+  return { grid, vertices, indices, errorTexels };
+};
+
+/**
+ * Samples the lens warp on a grid that the GPU interpolates linearly. The
+ * grid is refined until it stays within MESH_MAX_ERROR_TEXELS of the exact
+ * warp, or the finest grid is reached (a hard sphere edge never converges);
+ * such a mesh fails `meshWithinTolerance` and the eye is drawn per pixel.
+ */
+export const buildDistortionMesh = (geometry: LensGeometry) => {
+  let mesh: DistortionMesh | null = null;
+  for (const grid of MESH_GRIDS) {
+    mesh = buildGrid(geometry, grid);
+    if (mesh.errorTexels <= MESH_MAX_ERROR_TEXELS) {
+      break;
+    }
+  }
+  return mesh as DistortionMesh;
+};
+
+export const meshWithinTolerance = (mesh: Pick<DistortionMesh, "errorTexels">) =>
+  mesh.errorTexels <= MESH_MAX_ERROR_TEXELS;
+
+export type ImageDifference = {
+  /** Mean of the per-pixel largest channel difference, 0–255. */
+  mean: number;
+  p99: number;
+  max: number;
+};
+
+export const compareImages = (a: Uint8Array, b: Uint8Array): ImageDifference => {
+  const histogram = new Uint32Array(256);
+  const pixels = Math.min(a.length, b.length) / 4;
+  let sum = 0;
+  for (let pixel = 0; pixel < pixels; pixel += 1) {
+    const offset = pixel * 4;
+    const diff = Math.max(
+      Math.abs((a[offset] ?? 0) - (b[offset] ?? 0)),
+      Math.abs((a[offset + 1] ?? 0) - (b[offset + 1] ?? 0)),
+      Math.abs((a[offset + 2] ?? 0) - (b[offset + 2] ?? 0))
+    );
+    histogram[diff] = (histogram[diff] ?? 0) + 1;
+    sum += diff;
+  }
+  let max = 0;
+  let p99 = -1;
+  let seen = 0;
+  histogram.forEach((count, value) => {
+    if (count === 0) {
+      return;
+    }
+    max = value;
+    seen += count;
+    if (p99 < 0 && seen >= pixels * 0.99) {
+      p99 = value;
+    }
+  });
+  return { mean: pixels > 0 ? sum / pixels : 0, p99: Math.max(0, p99), max };
+};
@@ -0,0 +1,384 @@
+export type GLContext = WebGLRenderingContext | WebGL2RenderingContext;
+
+export type RenderTarget = {
+  framebuffer: WebGLFramebuffer;
+  texture: WebGLTexture;
+  width: number;
+  height: number;
+};
+
+/** An indexed triangle grid; see mesh.ts for the vertex layout. */
+export type MeshBuffers = {
+  vertices: WebGLBuffer;
+  indices: WebGLBuffer;
+  count: number;
+};
+
+const QUAD_STRIDE = 4 * Float32Array.BYTES_PER_ELEMENT;
+const MESH_STRIDE = 6 * Float32Array.BYTES_PER_ELEMENT;
+
+const createShader = (gl: GLContext, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) {
+    throw new Error("Failed to create shader.");
+  }
+
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const info = gl.getShaderInfoLog(shader) ?? "Unknown shader error.";
+    gl.deleteShader(shader);
+    throw new Error(info);
+  }
+
+  return shader;
+};
+
+export const createProgram = (
+  gl: GLContext,
+  vertexSource: string,
+  fragmentSource: string
+) => {
+  const vertexShader = createShader(gl, gl.VERTEX_SHADER, vertexSource);
+  const fragmentShader = createShader(gl, gl.FRAGMENT_SHADER, fragmentSource);
+
+  const program = gl.createProgram();
+  if (!program) {
+    throw new Error("Failed to create program.");
+  }
+
+  gl.attachShader(program, vertexShader);
+  gl.attachShader(program, fragmentShader);
+  gl.linkProgram(program);
+
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    const info = gl.getProgramInfoLog(program) ?? "Unknown program error.";
+    gl.deleteProgram(program);
+    throw new Error(info);
+  }
+
+  gl.deleteShader(vertexShader);
+  gl.deleteShader(fragmentShader);
+
+  return program;
+};
+
+const configureTexture = (gl: GLContext, texture: WebGLTexture) => {
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+};
+
+export const createTexture = (gl: GLContext) => {
+  const texture = gl.createTexture();
+  if (!texture) {
+    throw new Error("Failed to allocate WebGL resources.");
+  }
+  configureTexture(gl, texture);
+  return texture;
+};
+
+export const createRenderTarget = (
+  gl: GLContext,
+  width: number,
+  height: number
+): RenderTarget => {
+  const texture = createTexture(gl);
+  const framebuffer = gl.createFramebuffer();
+  if (!framebuffer) {
+    throw new Error("Failed to allocate WebGL resources.");
+  }
+
+  const target: RenderTarget = { framebuffer, texture, width: 0, height: 0 };
+  resizeRenderTarget(gl, target, width, height);
+
+  gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+  gl.framebufferTexture2D(
+    gl.FRAMEBUFFER,
+    gl.COLOR_ATTACHMENT0,
+    gl.TEXTURE_2D,
+    texture,
+    0
+  );
+  const status = gl.checkFramebufferStatus(gl.FRAMEBUFFER);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+  if (status !== gl.FRAMEBUFFER_COMPLETE) {
+    throw new Error("Render target is not supported on this device.");
+  }
+
+  return target;
+};
+
+export const resizeRenderTarget = (
+  gl: GLContext,
+  target: RenderTarget,
+  width: number,
+  height: number
+) => {
+  const safeWidth = Math.max(1, Math.floor(width));
+  const safeHeight = Math.max(1, Math.floor(height));
+  if (target.width === safeWidth && target.height === safeHeight) {
+    return;
+  }
+
+  target.width = safeWidth;
+  target.height = safeHeight;
+  gl.bindTexture(gl.TEXTURE_2D, target.texture);
+  gl.texImage2D(
+    gl.TEXTURE_2D,
+    0,
+    gl.RGBA,
+    safeWidth,
+    safeHeight,
+    0,
+    gl.RGBA,
+    gl.UNSIGNED_BYTE,
+    null
+  );
+};
+
+export const deleteRenderTarget = (gl: GLContext, target: RenderTarget) => {
+  gl.deleteFramebuffer(target.framebuffer);
+  gl.deleteTexture(target.texture);
+};
+
+/** Reads a render target back as RGBA bytes, bottom row first. */
+export const readRenderTarget = (gl: GLContext, target: RenderTarget) => {
+  const pixels = new Uint8Array(target.width * target.height * 4);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+  gl.readPixels(0, 0, target.width, target.height, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  return pixels;
+};
+
+export const createMeshBuffers = (gl: GLContext): MeshBuffers => {
+  const vertices = gl.createBuffer();
+  const indices = gl.createBuffer();
+  if (!vertices || !indices) {
+    throw new Error("Failed to allocate WebGL resources.");
+  }
+  return { vertices, indices, count: 0 };
+};
+
+export const uploadMeshBuffers = (
+  gl: GLContext,
+  mesh: MeshBuffers,
+  vertices: Float32Array,
+  indices: Uint16Array
+) => {
+  gl.bindBuffer(gl.ARRAY_BUFFER, mesh.vertices);
+  gl.bufferData(gl.ARRAY_BUFFER, vertices, gl.STATIC_DRAW);
+  gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, mesh.indices);
+  gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, indices, gl.STATIC_DRAW);
+  mesh.count = indices.length;
+};
+
+export const deleteMeshBuffers = (gl: GLContext, mesh: MeshBuffers) => {
+  gl.deleteBuffer(mesh.vertices);
+  gl.deleteBuffer(mesh.indices);
+};
+
+/**
+ * Two render targets that alternate between being read and written, so a
+ * chain of camera-space passes can feed each other without extra copies.
+ */
+export class PingPongTargets {
+  private targets: [RenderTarget, RenderTarget];
+
+  constructor(gl: GLContext) {
+    this.targets = [createRenderTarget(gl, 1, 1), createRenderTarget(gl, 1, 1)];
+  }
+
+  get read() {
+    return this.targets[0];
+  }
+
+  get write() {
+    return this.targets[1];
+  }
+
+  resize(gl: GLContext, width: number, height: number) {
+    resizeRenderTarget(gl, this.targets[0], width, height);
+    resizeRenderTarget(gl, this.targets[1], width, height);
+  }
+
+  swap() {
+    this.targets = [this.targets[1], this.targets[0]];
+  }
+
+  dispose(gl: GLContext) {
+    deleteRenderTarget(gl, this.targets[0]);
+    deleteRenderTarget(gl, this.targets[1]);
+  }
+}
+
+/**
+ * One full-screen quad draw with its own program. Every stage of the render
+ * graph is a pass that samples `uTexture` on unit 0 and writes either into a
+ * render target or into a viewport of the canvas. The lens pass may instead
+ * draw a distortion mesh, whose vertices add an `aWarped` attribute.
+ */
+export class ShaderPass<U extends string> {
+  readonly program: WebGLProgram;
+  private readonly gl: GLContext;
+  private readonly uniforms: Record<U, WebGLUniformLocation | null>;
+  private readonly position: number;
+  private readonly uv: number;
+  private readonly warped: number;
+
+  constructor(
+    gl: GLContext,
+    vertexSource: string,
+    fragmentSource: string,
+    uniformNames: readonly U[]
+  ) {
+    this.gl = gl;
+    this.program = createProgram(gl, vertexSource, fragmentSource);
+    this.position = gl.getAttribLocation(this.program, "aPosition");
+    this.uv = gl.getAttribLocation(this.program, "aUV");
+    this.warped = gl.getAttribLocation(this.program, "aWarped");
+    this.uniforms = {} as Record<U, WebGLUniformLocation | null>;
+    uniformNames.forEach((name) => {
+      this.uniforms[name] = gl.getUniformLocation(this.program, name);
+    });
+
+    gl.useProgram(this.program);
+    const texture = gl.getUniformLocation(this.program, "uTexture");
+    if (texture) {
+      gl.uniform1i(texture, 0);
+    }
+  }
+
+  use() {
+    this.gl.useProgram(this.program);
+  }
+
+  setFloat(name: U, value: number) {
+    const location = this.uniforms[name];
+    if (location) {
+      this.gl.uniform1f(location, value);
+    }
+  }
+
+  setVec2(name: U, x: number, y: number) {
+    const location = this.uniforms[name];
+    if (location) {
+      this.gl.uniform2f(location, x, y);
+    }
+  }
+
+  setVec3(name: U, x: number, y: number, z: number) {
+    const location = this.uniforms[name];
+    if (location) {
+      this.gl.uniform3f(location, x, y, z);
+    }
+  }
+
+  setVec4(name: U, x: number, y: number, z: number, w: number) {
+    const location = this.uniforms[name];
+    if (location) {
+      this.gl.uniform4f(location, x, y, z, w);
+    }
+  }
+
+  setVec2Array(name: U, values: Float32Array) {
+    const location = this.uniforms[name];
+    if (location && values.length > 0) {
+      this.gl.uniform2fv(location, values);
+    }
+  }
+
+  setVec4Array(name: U, values: Float32Array) {
+    const location = this.uniforms[name];
+    if (location && values.length > 0) {
+      this.gl.uniform4fv(location, values);
+    }
+  }
+
+  setSampler(name: U, unit: number) {
+    const location = this.uniforms[name];
+    if (location) {
+      this.gl.uniform1i(location, unit);
+    }
+  }
+
+  draw(
+    quad: WebGLBuffer,
+    input: WebGLTexture,
+    target: RenderTarget | null,
+    viewport: [number, number, number, number]
+  ) {
+    const gl = this.gl;
+    this.bind(input, target, viewport);
+    gl.bindBuffer(gl.ARRAY_BUFFER, quad);
+    this.pointAttributes(QUAD_STRIDE);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  }
+
+  drawMesh(
+    mesh: MeshBuffers,
+    input: WebGLTexture,
+    target: RenderTarget | null,
+    viewport: [number, number, number, number]
+  ) {
+    const gl = this.gl;
+    this.bind(input, target, viewport);
+    gl.bindBuffer(gl.ARRAY_BUFFER, mesh.vertices);
+    this.pointAttributes(MESH_STRIDE);
+    if (this.warped >= 0) {
+      gl.enableVertexAttribArray(this.warped);
+      gl.vertexAttribPointer(
+        this.warped,
+        2,
+        gl.FLOAT,
+        false,
+        MESH_STRIDE,
+        4 * Float32Array.BYTES_PER_ELEMENT
+      );
+    }
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, mesh.indices);
+    gl.drawElements(gl.TRIANGLES, mesh.count, gl.UNSIGNED_SHORT, 0);
+    if (this.warped >= 0) {
+      gl.disableVertexAttribArray(this.warped);
+    }
+  }
+
+  private bind(
+    input: WebGLTexture,
+    target: RenderTarget | null,
+    viewport: [number, number, number, number]
+  ) {
+    const gl = this.gl;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target ? target.framebuffer : null);
+    gl.viewport(viewport[0], viewport[1], viewport[2], viewport[3]);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, input);
+  }
+
+  private pointAttributes(stride: number) {
+    const gl = this.gl;
+    if (this.position >= 0) {
+      gl.enableVertexAttribArray(this.position);
+      gl.vertexAttribPointer(this.position, 2, gl.FLOAT, false, stride, 0);
+    }
+    if (this.uv >= 0) {
+      gl.enableVertexAttribArray(this.uv);
+      gl.vertexAttribPointer(
+        this.uv,
+        2,
+        gl.FLOAT,
+        false,
+        stride,
+        2 * Float32Array.BYTES_PER_ELEMENT
+      );
+    }
+  }
+
+  dispose() {
+    this.gl.deleteProgram(this.program);
+  }
+}
@@ -1,55 +1,233 @@
-import type { VRSettings } from "../types";
+import type { LumaFrame } from "../motion/registration";
+import { Stabilizer, textureUnitsPerRadian } from "../motion/stabilizer";
+import type { FilterSpec, ScreenSize, VRSettings } from "../types";
 import {
-  fragmentWebGL1,
-  fragmentWebGL2,
-  vertexWebGL1,
-  vertexWebGL2
+  filterShaderSource,
+  filterUniforms,
+  getFilter,
+  hexToRgb,
+  paramUniform
+} from "./filters";
+import { assertUniforms, composeShader, ShaderDefines, ShaderDialect } from "./glsl";
+import { MAX_RADIAL_TABLE } from "./lens";
+import {
+  buildDistortionMesh,
+  compareImages,
+  ImageDifference,
+  lensCenter,
+  LensGeometry,
+  lensGeometryKey,
+  MESH_MAX_MEAN_DIFF,
+  meshWithinTolerance,
+  radialTableScale
+} from "./mesh";
+import {
+  createMeshBuffers,
+  createTexture,
+  createRenderTarget,
+  deleteMeshBuffers,
+  deleteRenderTarget,
+  GLContext,
+  MeshBuffers,
+  PingPongTargets,
+  readRenderTarget,
+  RenderTarget,
+  resizeRenderTarget,
+  ShaderPass,
+  uploadMeshBuffers
+} from "./passes";
+import {
+  colorFragment,
+  lensFragment,
+  lensMeshFragment,
+  lensMeshVertex,
+  lumaFragment,
+  overlayFragment,
+  panelFragment,
+  quadVertex,
+  textHighlightFragment
 } from "./shaders";
 
-type GLContext = WebGLRenderingContext | WebGL2RenderingContext;
-
-type UniformLocations = {
-  texture: WebGLUniformLocation | null;
-  contrast: WebGLUniformLocation | null;
-  brightness: WebGLUniformLocation | null;
-  gamma: WebGLUniformLocation | null;
-  highlights: WebGLUniformLocation | null;
-  shadows: WebGLUniformLocation | null;
-  temperature: WebGLUniformLocation | null;
-  scale: WebGLUniformLocation | null;
-  offset: WebGLUniformLocation | null;
-  separation: WebGLUniformLocation | null;
-  eyeSign: WebGLUniformLocation | null;
-  videoAspect: WebGLUniformLocation | null;
-  magnifyEnabled: WebGLUniformLocation | null;
-  magnifyZoom: WebGLUniformLocation | null;
-  magnifySize: WebGLUniformLocation | null;
-  sphereStrength: WebGLUniformLocation | null;
-  sphereRadius: WebGLUniformLocation | null;
-  filterMode: WebGLUniformLocation | null;
-  texel: WebGLUniformLocation | null;
-  k1: WebGLUniformLocation | null;
-  k2: WebGLUniformLocation | null;
-  distortEnabled: WebGLUniformLocation | null;
-  calibrate: WebGLUniformLocation | null;
-  resolution: WebGLUniformLocation | null;
+export const colorUniforms = [
+  "uContrast",
+  "uBrightness",
+  "uGamma",
+  "uHighlights",
+  "uShadows",
+  "uTemperature"
+] as const;
+
+export const lensUniforms = [
+  "uScale",
+  "uOffset",
+  "uSeparation",
+  "uEyeSign",
+  "uVideoAspect",
+  "uPan",
+  "uRoll",
+  "uMagnifyZoom",
+  "uMagnifySize",
+  "uSphereStrength",
+  "uSphereRadius",
+  "uK1",
+  "uK2",
+  "uK3",
+  "uTangential",
+  "uRadialTable",
+  "uRadialTableSize",
+  "uRadialScale",
+  "uDistortEnabled",
+  "uChromaScale",
+  "uResolution"
+] as const;
+
+export const lensMeshUniforms = [
+  "uCenter",
+  "uPan",
+  "uRoll",
+  "uMagnifyZoom",
+  "uMagnifySize",
+  "uChromaScale",
+  "uResolution"
+] as const;
+
+export const overlayUniforms = ["uResolution"] as const;
+
+export const panelUniforms = [
+  "uOffset",
+  "uSeparation",
+  "uEyeSign",
+  "uPanelSize",
+  "uK1",
+  "uK2",
+  "uK3",
+  "uTangential",
+  "uRadialTable",
+  "uRadialTableSize",
+  "uRadialScale",
+  "uDistortEnabled"
+] as const;
+
+/** Share of the eye square the headset panel spans, before the lens warp. */
+const PANEL_SIZE = 0.8;
+
+export const textHighlightUniforms = ["uTextBoxes", "uTextBoxCount", "uTexel"] as const;
+
+export const lumaUniforms = ["uTexel"] as const;
+
+export const MAX_TEXT_BOXES = 16;
+
+/** Width of the luminance frames handed to frame registration. */
+const LUMA_WIDTH = 96;
+
+
+type ColorUniform = (typeof colorUniforms)[number];
+type LensUniform = (typeof lensUniforms)[number];
+type LensShadingUniform = LensUniform & (typeof lensMeshUniforms)[number];
+type OverlayUniform = (typeof overlayUniforms)[number];
+
+/** "stereo" is both eyes side by side, "eye" the left eye alone. */
+export type CaptureArea = "stereo" | "eye";
+
+type PendingCapture = {
+  area: CaptureArea;
+  resolve: (canvas: HTMLCanvasElement) => void;
+  reject: (error: Error) => void;
+};
+
+/** "mesh" bakes the lens warp into a vertex grid, "shader" computes it per pixel. */
+export type LensPath = "mesh" | "shader";
+
+export type LensPathReport = {
+  /** Average lens-pass time per frame, both eyes, waited on with gl.finish. */
+  meshMs: number;
+  shaderMs: number;
+  meshGrid: number;
+  meshErrorTexels: number;
+  difference: ImageDifference;
+  withinTolerance: boolean;
+};
+
+type PendingBenchmark = {
+  frame: number;
+  frames: number;
+  timings: Record<LensPath, number[]>;
+  resolve: (report: LensPathReport) => void;
+  reject: (error: Error) => void;
+};
+
+type EyeMesh = {
+  buffers: MeshBuffers;
+  key: string;
+  grid: number;
+  errorTexels: number;
+};
+
+// Frames that compile the other path's program are not timed.
+const BENCHMARK_WARMUP_FRAMES = 2;
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/** Camera UV rectangle: u0, v0, u1, v1. */
+export type HighlightBox = [number, number, number, number];
+
+export type FreezeView = {
+  panX: number;
+  panY: number;
+  zoom: number;
 };
 
-type AttributeLocations = {
-  position: number;
-  uv: number;
+type EyeLayout = {
+  eyeSign: number;
+  viewport: [number, number, number, number];
+  offsetX: number;
+  offsetY: number;
+  /** Horizontal image shift in eye-viewport units, see VRSettings.separation. */
+  separation: number;
 };
 
+/**
+ * Frame pipeline:
+ *   camera texture -> colour pass -> filter chain -> text highlights
+ *   (camera space, once per frame)
+ *   -> lens pass per eye (warp into an eye-sized target, either through a
+ *      precomputed distortion mesh or per pixel, see LensPath)
+ *   -> headset panel per eye, when shown (blended over the lens output)
+ *   -> overlay pass per eye (screen-space marks, composited to the canvas).
+ */
 export class GLRenderer {
   private readonly canvas: HTMLCanvasElement;
   private readonly video: HTMLVideoElement;
   private readonly gl: GLContext;
-  private readonly program: WebGLProgram;
   private readonly texture: WebGLTexture;
+  private readonly frozenTexture: WebGLTexture;
+  private readonly panelTexture: WebGLTexture;
+  private panelVisible = false;
+  private frozenSize: { width: number; height: number } | null = null;
+  private freezeView: FreezeView = { panX: 0, panY: 0, zoom: 1 };
+  private textBoxes = new Float32Array(0);
+  private eyeMirror: CanvasRenderingContext2D | null = null;
+  private screenSize: ScreenSize | null = null;
+  private stabilizer: Stabilizer | null = null;
+  private opticalZoom = 1;
+  private frameSink: ((frame: LumaFrame) => void) | null = null;
+  /** Source UV shift of the current frame: the frozen view's pan or the stabiliser's. */
+  private framePan: [number, number] = [0, 0];
+  /** Source rotation of the current frame, see the `frame-motion` shader module. */
+  private frameRoll: [number, number, number, number] = [1, 0, 0, 1];
+  private pendingCaptures: PendingCapture[] = [];
+  private lensPath: LensPath = "mesh";
+  private benchmark: PendingBenchmark | null = null;
   private readonly buffer: WebGLBuffer;
-  private readonly attributes: AttributeLocations;
-  private readonly uniforms: UniformLocations;
-  private readonly isWebGL2: boolean;
+  private readonly dialect: ShaderDialect;
+  private readonly vertexSource: string;
+  private readonly meshVertexSource: string;
+  private readonly passes = new Map<string, ShaderPass<string>>();
+  private readonly cameraTargets: PingPongTargets;
+  private readonly eyeTargets: [RenderTarget, RenderTarget];
+  private readonly lumaTarget: RenderTarget;
+  private readonly eyeMeshes: [EyeMesh, EyeMesh];
   private rafId = 0;
   private readonly getSettings: () => VRSettings;
 
@@ -80,62 +258,46 @@ export class GLRenderer {
     }
 
     this.gl = (gl2 ?? gl1) as GLContext;
-    this.isWebGL2 = Boolean(gl2);
-
-    this.program = this.createProgram(
-      this.isWebGL2 ? vertexWebGL2 : vertexWebGL1,
-      this.isWebGL2 ? fragmentWebGL2 : fragmentWebGL1
-    );
-
-    this.attributes = {
-      position: this.gl.getAttribLocation(this.program, "aPosition"),
-      uv: this.gl.getAttribLocation(this.program, "aUV")
-    };
+    this.dialect = gl2 ? "webgl2" : "webgl1";
+    this.vertexSource = composeShader(quadVertex, {
+      stage: "vertex",
+      dialect: this.dialect
+    });
+    this.meshVertexSource = composeShader(lensMeshVertex, {
+      stage: "vertex",
+      dialect: this.dialect
+    });
 
-    this.uniforms = {
-      texture: this.gl.getUniformLocation(this.program, "uTexture"),
-      contrast: this.gl.getUniformLocation(this.program, "uContrast"),
-      brightness: this.gl.getUniformLocation(this.program, "uBrightness"),
-      gamma: this.gl.getUniformLocation(this.program, "uGamma"),
-      highlights: this.gl.getUniformLocation(this.program, "uHighlights"),
-      shadows: this.gl.getUniformLocation(this.program, "uShadows"),
-      temperature: this.gl.getUniformLocation(this.program, "uTemperature"),
-      scale: this.gl.getUniformLocation(this.program, "uScale"),
-      offset: this.gl.getUniformLocation(this.program, "uOffset"),
-      separation: this.gl.getUniformLocation(this.program, "uSeparation"),
-      eyeSign: this.gl.getUniformLocation(this.program, "uEyeSign"),
-      videoAspect: this.gl.getUniformLocation(this.program, "uVideoAspect"),
-      magnifyEnabled: this.gl.getUniformLocation(this.program, "uMagnifyEnabled"),
-      magnifyZoom: this.gl.getUniformLocation(this.program, "uMagnifyZoom"),
-      magnifySize: this.gl.getUniformLocation(this.program, "uMagnifySize"),
-      sphereStrength: this.gl.getUniformLocation(this.program, "uSphereStrength"),
-      sphereRadius: this.gl.getUniformLocation(this.program, "uSphereRadius"),
-      filterMode: this.gl.getUniformLocation(this.program, "uFilterMode"),
-      texel: this.gl.getUniformLocation(this.program, "uTexel"),
-      k1: this.gl.getUniformLocation(this.program, "uK1"),
-      k2: this.gl.getUniformLocation(this.program, "uK2"),
-      distortEnabled: this.gl.getUniformLocation(this.program, "uDistortEnabled"),
-      calibrate: this.gl.getUniformLocation(this.program, "uCalibrate"),
-      resolution: this.gl.getUniformLocation(this.program, "uResolution")
-    };
+    this.getPass("color", colorFragment, colorUniforms);
+    this.getPass("lens", lensFragment, lensUniforms);
+    this.getPass("overlay", overlayFragment, overlayUniforms);
 
     const buffer = this.gl.createBuffer();
-    const texture = this.gl.createTexture();
-    if (!buffer || !texture) {
+    if (!buffer) {
       throw new Error("Failed to allocate WebGL resources.");
     }
 
     this.buffer = buffer;
-    this.texture = texture;
+    this.texture = createTexture(this.gl);
+    this.frozenTexture = createTexture(this.gl);
+    this.panelTexture = createTexture(this.gl);
+    this.cameraTargets = new PingPongTargets(this.gl);
+    this.eyeTargets = [
+      createRenderTarget(this.gl, 1, 1),
+      createRenderTarget(this.gl, 1, 1)
+    ];
+    this.lumaTarget = createRenderTarget(this.gl, 1, 1);
+    const emptyMesh = (): EyeMesh => ({
+      buffers: createMeshBuffers(this.gl),
+      key: "",
+      grid: 0,
+      errorTexels: 0
+    });
+    this.eyeMeshes = [emptyMesh(), emptyMesh()];
 
     this.initBuffers();
     this.initTexture();
 
-    this.gl.useProgram(this.program);
-    if (this.uniforms.texture) {
-      this.gl.uniform1i(this.uniforms.texture, 0);
-    }
-
     this.gl.clearColor(0, 0, 0, 1);
   }
 
@@ -151,110 +313,230 @@ export class GLRenderer {
       cancelAnimationFrame(this.rafId);
       this.rafId = 0;
     }
+    const pending = this.pendingCaptures;
+    this.pendingCaptures = [];
+    pending.forEach((capture) => capture.reject(new Error("Renderer stopped.")));
+    this.benchmark?.reject(new Error("Renderer stopped."));
+    this.benchmark = null;
   }
 
-  private initBuffers() {
-    const vertices = new Float32Array([
-      -1, -1, 0, 0,
-      1, -1, 1, 0,
-      -1, 1, 0, 1,
-      1, 1, 1, 1
-    ]);
+  /**
+   * Resolves with a copy of the next rendered frame. The drawing buffer is
+   * not preserved, so the copy is taken inside the frame that produced it.
+   */
+  captureFrame(area: CaptureArea): Promise<HTMLCanvasElement> {
+    if (!this.rafId) {
+      return Promise.reject(new Error("Renderer is not running."));
+    }
+    return new Promise((resolve, reject) => {
+      this.pendingCaptures.push({ area, resolve, reject });
+    });
+  }
 
-    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.buffer);
-    this.gl.bufferData(this.gl.ARRAY_BUFFER, vertices, this.gl.STATIC_DRAW);
+  setLensPath(path: LensPath) {
+    this.lensPath = path;
+  }
 
-    const stride = 4 * Float32Array.BYTES_PER_ELEMENT;
-
-    if (this.attributes.position >= 0) {
-      this.gl.enableVertexAttribArray(this.attributes.position);
-      this.gl.vertexAttribPointer(
-        this.attributes.position,
-        2,
-        this.gl.FLOAT,
-        false,
-        stride,
-        0
-      );
+  /**
+   * Alternates the two lens paths for `frames` frames and times them, then
+   * renders the left eye both ways and compares the pixels.
+   */
+  compareLensPaths(frames = 60): Promise<LensPathReport> {
+    if (!this.rafId) {
+      return Promise.reject(new Error("Renderer is not running."));
+    }
+    if (this.benchmark) {
+      return Promise.reject(new Error("A comparison is already running."));
+    }
+    return new Promise((resolve, reject) => {
+      this.benchmark = {
+        frame: 0,
+        frames: frames + BENCHMARK_WARMUP_FRAMES,
+        timings: { mesh: [], shader: [] },
+        resolve,
+        reject
+      };
+    });
+  }
+
+  get isFrozen() {
+    return this.frozenSize !== null;
+  }
+
+  /**
+   * Copies the current camera frame into a still texture that replaces the
+   * live feed until `unfreeze`. Returns false when no frame is available yet.
+   */
+  freeze() {
+    if (this.video.readyState < this.video.HAVE_CURRENT_DATA) {
+      return false;
     }
+    this.gl.activeTexture(this.gl.TEXTURE0);
+    this.gl.bindTexture(this.gl.TEXTURE_2D, this.frozenTexture);
+    this.gl.texImage2D(
+      this.gl.TEXTURE_2D,
+      0,
+      this.gl.RGBA,
+      this.gl.RGBA,
+      this.gl.UNSIGNED_BYTE,
+      this.video
+    );
+    this.frozenSize = {
+      width: this.video.videoWidth || 1,
+      height: this.video.videoHeight || 1
+    };
+    return true;
+  }
+
+  unfreeze() {
+    this.frozenSize = null;
+    this.freezeView = { panX: 0, panY: 0, zoom: 1 };
+  }
+
+  setFreezeView(view: FreezeView) {
+    this.freezeView = { ...view };
+  }
+
+  setTextHighlights(boxes: HighlightBox[]) {
+    const limited = boxes.slice(0, MAX_TEXT_BOXES);
+    this.textBoxes = new Float32Array(limited.flat());
+  }
 
-    if (this.attributes.uv >= 0) {
-      this.gl.enableVertexAttribArray(this.attributes.uv);
-      this.gl.vertexAttribPointer(
-        this.attributes.uv,
-        2,
-        this.gl.FLOAT,
-        false,
-        stride,
-        2 * Float32Array.BYTES_PER_ELEMENT
+  /**
+   * Copies the left eye into a separate 2D canvas after every frame, so it
+   * can be captured without the split screen. Pass null to stop mirroring.
+   */
+  setEyeMirror(canvas: HTMLCanvasElement | null) {
+    this.eyeMirror = canvas?.getContext("2d") ?? null;
+    if (canvas) {
+      const size = Math.max(
+        1,
+        Math.min(this.canvas.height, Math.floor(this.canvas.width / 2))
       );
+      canvas.width = size;
+      canvas.height = size;
     }
   }
 
-  private initTexture() {
+  /**
+   * Shows the headset panel drawn in `canvas` over both eyes, see
+   * vr/panel.ts. Call again after every redraw; null hides it.
+   */
+  setPanel(canvas: HTMLCanvasElement | null) {
+    this.panelVisible = canvas !== null;
+    if (!canvas) {
+      return;
+    }
     this.gl.activeTexture(this.gl.TEXTURE0);
-    this.gl.bindTexture(this.gl.TEXTURE_2D, this.texture);
-    this.gl.pixelStorei(this.gl.UNPACK_FLIP_Y_WEBGL, true);
-    this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MIN_FILTER, this.gl.LINEAR);
-    this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MAG_FILTER, this.gl.LINEAR);
-    this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_WRAP_S, this.gl.CLAMP_TO_EDGE);
-    this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_WRAP_T, this.gl.CLAMP_TO_EDGE);
-
-    const placeholder = new Uint8Array([0, 0, 0, 255]);
+    this.gl.bindTexture(this.gl.TEXTURE_2D, this.panelTexture);
     this.gl.texImage2D(
       this.gl.TEXTURE_2D,
       0,
       this.gl.RGBA,
-      1,
-      1,
-      0,
       this.gl.RGBA,
       this.gl.UNSIGNED_BYTE,
-      placeholder
+      canvas
     );
   }
 
-  private createShader(type: number, source: string) {
-    const shader = this.gl.createShader(type);
-    if (!shader) {
-      throw new Error("Failed to create shader.");
-    }
+  /** Enables the millimetre layout of `VRSettings.physicalLayout`. */
+  setScreenSize(screen: ScreenSize | null) {
+    this.screenSize = screen ? { ...screen } : null;
+  }
 
-    this.gl.shaderSource(shader, source);
-    this.gl.compileShader(shader);
+  /** Counter-shifts the live image by the stabiliser's tremor each frame. */
+  setStabilizer(stabilizer: Stabilizer | null) {
+    this.stabilizer = stabilizer;
+  }
 
-    if (!this.gl.getShaderParameter(shader, this.gl.COMPILE_STATUS)) {
-      const info = this.gl.getShaderInfoLog(shader) ?? "Unknown shader error.";
-      this.gl.deleteShader(shader);
-      throw new Error(info);
-    }
+  /**
+   * Hands a small luminance copy of every live camera frame to `sink`, for
+   * image-based stabilisation. Costs a pixel read-back per frame; pass null
+   * to stop.
+   */
+  setFrameSink(sink: ((frame: LumaFrame) => void) | null) {
+    this.frameSink = sink;
+  }
 
-    return shader;
+  /** Hardware zoom applied to the camera track; narrows its field of view. */
+  setOpticalZoom(zoom: number) {
+    this.opticalZoom = Math.max(1, zoom);
   }
 
-  private createProgram(vertexSource: string, fragmentSource: string) {
-    const vertexShader = this.createShader(this.gl.VERTEX_SHADER, vertexSource);
-    const fragmentShader = this.createShader(this.gl.FRAGMENT_SHADER, fragmentSource);
+  dispose() {
+    this.stop();
+    this.passes.forEach((pass) => pass.dispose());
+    this.passes.clear();
+    this.cameraTargets.dispose(this.gl);
+    this.eyeTargets.forEach((target) => deleteRenderTarget(this.gl, target));
+    deleteRenderTarget(this.gl, this.lumaTarget);
+    this.eyeMeshes.forEach((mesh) => deleteMeshBuffers(this.gl, mesh.buffers));
+    this.gl.deleteTexture(this.texture);
+    this.gl.deleteTexture(this.frozenTexture);
+    this.gl.deleteTexture(this.panelTexture);
+    this.gl.deleteBuffer(this.buffer);
+  }
 
-    const program = this.gl.createProgram();
-    if (!program) {
-      throw new Error("Failed to create program.");
+  /**
+   * Passes are compiled lazily, one program per fragment source and set of
+   * feature defines, and kept for the renderer's lifetime.
+   */
+  private getPass<U extends string>(
+    name: string,
+    fragmentSource: string,
+    uniforms: readonly U[],
+    defines: ShaderDefines = {},
+    vertexSource = this.vertexSource
+  ): ShaderPass<U> {
+    const key = `${name}:${Object.keys(defines)
+      .filter((define) => defines[define] !== false)
+      .sort()
+      .join(",")}`;
+    const cached = this.passes.get(key);
+    if (cached) {
+      return cached as ShaderPass<U>;
     }
 
-    this.gl.attachShader(program, vertexShader);
-    this.gl.attachShader(program, fragmentShader);
-    this.gl.linkProgram(program);
+    const fragment = composeShader(fragmentSource, {
+      stage: "fragment",
+      dialect: this.dialect,
+      defines
+    });
+    assertUniforms(fragment, uniforms);
+    const pass = new ShaderPass<U>(this.gl, vertexSource, fragment, uniforms);
+    this.passes.set(key, pass as ShaderPass<string>);
+    return pass;
+  }
 
-    if (!this.gl.getProgramParameter(program, this.gl.LINK_STATUS)) {
-      const info = this.gl.getProgramInfoLog(program) ?? "Unknown program error.";
-      this.gl.deleteProgram(program);
-      throw new Error(info);
-    }
+  private initBuffers() {
+    const vertices = new Float32Array([
+      -1, -1, 0, 0,
+      1, -1, 1, 0,
+      -1, 1, 0, 1,
+      1, 1, 1, 1
+    ]);
+
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.buffer);
+    this.gl.bufferData(this.gl.ARRAY_BUFFER, vertices, this.gl.STATIC_DRAW);
+  }
 
-    this.gl.deleteShader(vertexShader);
-    this.gl.deleteShader(fragmentShader);
+  private initTexture() {
+    this.gl.activeTexture(this.gl.TEXTURE0);
+    this.gl.bindTexture(this.gl.TEXTURE_2D, this.texture);
+    this.gl.pixelStorei(this.gl.UNPACK_FLIP_Y_WEBGL, true);
 
-    return program;
+    const placeholder = new Uint8Array([0, 0, 0, 255]);
+    this.gl.texImage2D(
+      this.gl.TEXTURE_2D,
+      0,
+      this.gl.RGBA,
+      1,
+      1,
+      0,
+      this.gl.RGBA,
+      this.gl.UNSIGNED_BYTE,
+      placeholder
+    );
   }
 
   private resizeCanvas() {
@@ -269,10 +551,11 @@ export class GLRenderer {
   }
 
   private updateVideoTexture() {
-    if (this.video.readyState < this.video.HAVE_CURRENT_DATA) {
+    if (this.frozenSize || this.video.readyState < this.video.HAVE_CURRENT_DATA) {
       return;
     }
 
+    this.gl.activeTexture(this.gl.TEXTURE0);
     this.gl.bindTexture(this.gl.TEXTURE_2D, this.texture);
     this.gl.texImage2D(
       this.gl.TEXTURE_2D,
@@ -284,137 +567,511 @@ export class GLRenderer {
     );
   }
 
-  private setUniform1f(location: WebGLUniformLocation | null, value: number) {
-    if (location) {
-      this.gl.uniform1f(location, value);
+  private renderCameraPasses(
+    settings: VRSettings,
+    source: WebGLTexture,
+    width: number,
+    height: number
+  ): RenderTarget {
+    this.cameraTargets.resize(this.gl, width, height);
+
+    const pass = this.getPass("color", colorFragment, colorUniforms);
+    pass.use();
+    pass.setFloat("uContrast", settings.contrast);
+    pass.setFloat("uBrightness", settings.brightness);
+    pass.setFloat("uGamma", settings.gamma);
+    pass.setFloat("uHighlights", settings.highlights);
+    pass.setFloat("uShadows", settings.shadows);
+    pass.setFloat("uTemperature", settings.temperature);
+
+    const output = this.cameraTargets.write;
+    pass.draw(this.buffer, source, output, [0, 0, output.width, output.height]);
+    this.cameraTargets.swap();
+
+    settings.filters.forEach((filter) => {
+      if (filter.enabled) {
+        this.renderFilterPass(filter, width, height);
+      }
+    });
+
+    if (this.textBoxes.length > 0) {
+      this.renderTextHighlightPass(width, height);
+    }
+
+    return this.cameraTargets.read;
+  }
+
+  private renderFilterPass(filter: FilterSpec, width: number, height: number) {
+    const definition = getFilter(filter.type);
+    if (!definition) {
+      return;
     }
+    const pass = this.getPass(
+      `filter-${definition.type}`,
+      filterShaderSource(definition),
+      filterUniforms(definition)
+    );
+
+    pass.use();
+    pass.setVec2("uTexel", 1 / width, 1 / height);
+    definition.params.forEach((param) => {
+      const value = filter.params[param.name] ?? param.default;
+      const uniform = paramUniform(param.name);
+      if (param.kind === "color") {
+        const [r, g, b] = hexToRgb(String(value));
+        pass.setVec3(uniform, r, g, b);
+      } else {
+        pass.setFloat(uniform, Number(value));
+      }
+    });
+
+    const input = this.cameraTargets.read;
+    const output = this.cameraTargets.write;
+    pass.draw(this.buffer, input.texture, output, [0, 0, output.width, output.height]);
+    this.cameraTargets.swap();
   }
 
-  private setUniform2f(location: WebGLUniformLocation | null, x: number, y: number) {
-    if (location) {
-      this.gl.uniform2f(location, x, y);
+  private renderTextHighlightPass(width: number, height: number) {
+    const pass = this.getPass("text-highlight", textHighlightFragment, textHighlightUniforms, {
+      MAX_TEXT_BOXES
+    });
+    pass.use();
+    pass.setVec4Array("uTextBoxes", this.textBoxes);
+    pass.setFloat("uTextBoxCount", this.textBoxes.length / 4);
+    pass.setVec2("uTexel", 1 / width, 1 / height);
+
+    const input = this.cameraTargets.read;
+    const output = this.cameraTargets.write;
+    pass.draw(this.buffer, input.texture, output, [0, 0, output.width, output.height]);
+    this.cameraTargets.swap();
+  }
+
+  /** Everything the lens pass warps by; both lens paths are fed from it. */
+  private lensGeometry(
+    eye: EyeLayout,
+    settings: VRSettings,
+    videoWidth: number,
+    videoHeight: number
+  ): LensGeometry {
+    const view = this.frozenSize ? this.freezeView : null;
+    return {
+      videoAspect: videoWidth / videoHeight,
+      scale: settings.scale * (view?.zoom ?? 1),
+      offsetX: eye.offsetX,
+      offsetY: eye.offsetY,
+      shift: eye.eyeSign * eye.separation,
+      distortion: settings.distortionEnabled,
+      k1: settings.k1,
+      k2: settings.k2,
+      k3: settings.k3,
+      p1: settings.p1,
+      p2: settings.p2,
+      radialTable: settings.radialTable,
+      sphereStrength: settings.sphereStrength / 100,
+      sphereRadius: 0.5 * (settings.sphereDiameter / 100),
+      textureWidth: videoWidth,
+      textureHeight: videoHeight
+    };
+  }
+
+  private sampleLuma(sink: (frame: LumaFrame) => void, videoWidth: number, videoHeight: number) {
+    const width = LUMA_WIDTH;
+    const height = Math.max(1, Math.round((LUMA_WIDTH * videoHeight) / videoWidth));
+    resizeRenderTarget(this.gl, this.lumaTarget, width, height);
+    const pass = this.getPass("luma", lumaFragment, lumaUniforms);
+    pass.use();
+    pass.setVec2("uTexel", 1 / width, 1 / height);
+    pass.draw(this.buffer, this.texture, this.lumaTarget, [0, 0, width, height]);
+    const pixels = readRenderTarget(this.gl, this.lumaTarget);
+    const luma = new Uint8Array(width * height);
+    luma.forEach((_, index) => {
+      luma[index] = pixels[index * 4] ?? 0;
+    });
+    sink({ time: performance.now(), width, height, luma });
+  }
+
+  private updateFrameMotion(videoAspect: number) {
+    if (this.frozenSize) {
+      this.framePan = [this.freezeView.panX, this.freezeView.panY];
+      this.frameRoll = [1, 0, 0, 1];
+      return;
     }
+    const [yaw, pitch, roll] = this.stabilizer?.correction() ?? [0, 0, 0];
+    const perRadian = textureUnitsPerRadian(this.opticalZoom);
+    // Turning left moves the scene right in the frame, so sampling follows
+    // it right; tilting up moves it down. V grows upwards in the texture.
+    this.framePan = [yaw * perRadian, -pitch * perRadian * videoAspect];
+    // Rolling the phone turns the scene the other way in the frame. The
+    // rotation is applied in pixel proportions, hence the aspect terms.
+    const cos = Math.cos(-roll);
+    const sin = Math.sin(-roll);
+    this.frameRoll = [cos, -sin / videoAspect, sin * videoAspect, cos];
+  }
+
+  private lensShadingDefines(settings: VRSettings): ShaderDefines {
+    return {
+      FEATURE_MAGNIFIER: settings.magnifierEnabled,
+      FEATURE_CHROMA: [settings.chromaRed, settings.chromaGreen, settings.chromaBlue].some(
+        (value) => value !== 0
+      ),
+      FEATURE_CALIBRATION: settings.calibration,
+      FEATURE_CHROMA_PATTERN: settings.calibration && settings.chromaPattern
+    };
   }
 
-  private drawEye(
-    eyeSign: number,
-    viewportX: number,
-    viewportY: number,
-    viewportWidth: number,
-    viewportHeight: number,
-    offsetX: number,
-    offsetY: number,
-    videoAspect: number,
+  private setLensShading(
+    pass: ShaderPass<LensShadingUniform>,
+    target: RenderTarget,
     settings: VRSettings
   ) {
-    this.gl.viewport(viewportX, viewportY, viewportWidth, viewportHeight);
-
-    this.setUniform1f(this.uniforms.contrast, settings.contrast);
-    this.setUniform1f(this.uniforms.brightness, settings.brightness);
-    this.setUniform1f(this.uniforms.gamma, settings.gamma);
-    this.setUniform1f(this.uniforms.highlights, settings.highlights);
-    this.setUniform1f(this.uniforms.shadows, settings.shadows);
-    this.setUniform1f(this.uniforms.temperature, settings.temperature);
-    this.setUniform1f(this.uniforms.scale, settings.scale);
-    this.setUniform2f(this.uniforms.offset, offsetX, offsetY);
-    this.setUniform1f(this.uniforms.separation, settings.separation);
-    this.setUniform1f(this.uniforms.eyeSign, eyeSign);
-    this.setUniform1f(this.uniforms.videoAspect, videoAspect);
-    this.setUniform1f(
-      this.uniforms.magnifyEnabled,
-      settings.magnifierEnabled ? 1 : 0
+    pass.setVec2("uPan", this.framePan[0], this.framePan[1]);
+    pass.setVec4("uRoll", ...this.frameRoll);
+    pass.setFloat("uMagnifyZoom", settings.magnifierZoom);
+    pass.setFloat("uMagnifySize", settings.magnifierSize);
+    pass.setVec3(
+      "uChromaScale",
+      1 + settings.chromaRed / 100,
+      1 + settings.chromaGreen / 100,
+      1 + settings.chromaBlue / 100
     );
-    this.setUniform1f(this.uniforms.magnifyZoom, settings.magnifierZoom);
-    this.setUniform1f(this.uniforms.magnifySize, settings.magnifierSize);
-    this.setUniform1f(this.uniforms.sphereStrength, settings.sphereStrength / 100);
-    const sphereRadius = 0.5 * (settings.sphereDiameter / 100);
-    this.setUniform1f(this.uniforms.sphereRadius, sphereRadius);
-    const filterIndex =
-      settings.filterMode === "amber"
-        ? 1
-        : settings.filterMode === "deepblue"
-          ? 2
-          : settings.filterMode === "edge"
-            ? 3
-            : 0;
-    this.setUniform1f(this.uniforms.filterMode, filterIndex);
-    const distortionScale = 0.1;
-    this.setUniform1f(this.uniforms.k1, settings.k1 * distortionScale);
-    this.setUniform1f(this.uniforms.k2, settings.k2 * distortionScale);
-    this.setUniform1f(this.uniforms.distortEnabled, settings.distortionEnabled ? 1 : 0);
-    this.setUniform1f(this.uniforms.calibrate, settings.calibration ? 1 : 0);
-    this.setUniform2f(this.uniforms.resolution, viewportWidth, viewportHeight);
-
-    this.gl.drawArrays(this.gl.TRIANGLE_STRIP, 0, 4);
+    pass.setVec2("uResolution", target.width, target.height);
   }
 
-  private render = () => {
-    this.resizeCanvas();
-    this.gl.useProgram(this.program);
-    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.buffer);
+  private renderLensPass(
+    source: RenderTarget,
+    target: RenderTarget,
+    eye: EyeLayout,
+    geometry: LensGeometry,
+    settings: VRSettings
+  ) {
+    const hasTable = geometry.radialTable.length > 0;
+    const pass = this.getPass("lens", lensFragment, lensUniforms, {
+      FEATURE_SPHERE: settings.sphereStrength > 0,
+      FEATURE_RADIAL_TABLE: hasTable,
+      MAX_RADIAL_TABLE,
+      ...this.lensShadingDefines(settings)
+    });
+    pass.use();
+    pass.setFloat("uScale", geometry.scale);
+    pass.setVec2("uOffset", geometry.offsetX, geometry.offsetY);
+    pass.setFloat("uSeparation", eye.separation);
+    pass.setFloat("uEyeSign", eye.eyeSign);
+    pass.setFloat("uVideoAspect", geometry.videoAspect);
+    pass.setFloat("uSphereStrength", geometry.sphereStrength);
+    pass.setFloat("uSphereRadius", geometry.sphereRadius);
+    pass.setFloat("uK1", geometry.k1);
+    pass.setFloat("uK2", geometry.k2);
+    pass.setFloat("uK3", geometry.k3);
+    pass.setVec2("uTangential", geometry.p1, geometry.p2);
+    if (hasTable) {
+      pass.setVec2Array("uRadialTable", new Float32Array(geometry.radialTable.flat()));
+      pass.setFloat("uRadialTableSize", geometry.radialTable.length);
+      pass.setVec2("uRadialScale", ...radialTableScale(geometry));
+    }
+    pass.setFloat("uDistortEnabled", geometry.distortion ? 1 : 0);
+    this.setLensShading(pass, target, settings);
 
-    if (this.attributes.position >= 0) {
-      this.gl.enableVertexAttribArray(this.attributes.position);
-      this.gl.vertexAttribPointer(
-        this.attributes.position,
-        2,
-        this.gl.FLOAT,
-        false,
-        4 * Float32Array.BYTES_PER_ELEMENT,
-        0
-      );
+    pass.draw(this.buffer, source.texture, target, [0, 0, target.width, target.height]);
+  }
+
+  /** Rebuilds the eye's mesh only when the geometry it was built for changed. */
+  private updateEyeMesh(index: number, geometry: LensGeometry) {
+    const mesh = this.eyeMeshes[index] as EyeMesh;
+    const key = lensGeometryKey(geometry);
+    if (mesh.key !== key) {
+      const built = buildDistortionMesh(geometry);
+      uploadMeshBuffers(this.gl, mesh.buffers, built.vertices, built.indices);
+      mesh.key = key;
+      mesh.grid = built.grid;
+      mesh.errorTexels = built.errorTexels;
     }
+    return mesh;
+  }
 
-    if (this.attributes.uv >= 0) {
-      this.gl.enableVertexAttribArray(this.attributes.uv);
-      this.gl.vertexAttribPointer(
-        this.attributes.uv,
-        2,
-        this.gl.FLOAT,
-        false,
-        4 * Float32Array.BYTES_PER_ELEMENT,
-        2 * Float32Array.BYTES_PER_ELEMENT
-      );
+  private renderLensMeshPass(
+    source: RenderTarget,
+    target: RenderTarget,
+    mesh: EyeMesh,
+    geometry: LensGeometry,
+    settings: VRSettings
+  ) {
+    const pass = this.getPass(
+      "lens-mesh",
+      lensMeshFragment,
+      lensMeshUniforms,
+      this.lensShadingDefines(settings),
+      this.meshVertexSource
+    );
+    pass.use();
+    const [centerX, centerY] = lensCenter(geometry);
+    pass.setVec2("uCenter", centerX, centerY);
+    this.setLensShading(pass, target, settings);
+
+    pass.drawMesh(mesh.buffers, source.texture, target, [
+      0,
+      0,
+      target.width,
+      target.height
+    ]);
+  }
+
+  /**
+   * Records one timed frame; after the last one renders the left eye through
+   * both paths, reads the pixels back and settles the comparison.
+   */
+  private stepBenchmark(
+    benchmark: PendingBenchmark,
+    path: LensPath,
+    elapsed: number,
+    camera: RenderTarget,
+    eyes: EyeLayout[],
+    geometries: LensGeometry[],
+    settings: VRSettings
+  ) {
+    if (benchmark.frame >= BENCHMARK_WARMUP_FRAMES) {
+      benchmark.timings[path].push(elapsed);
+    }
+    benchmark.frame += 1;
+    if (benchmark.frame < benchmark.frames) {
+      return;
+    }
+    this.benchmark = null;
+    const target = this.eyeTargets[0];
+    const eye = eyes[0];
+    const geometry = geometries[0];
+    if (!eye || !geometry) {
+      benchmark.reject(new Error("Nothing to compare."));
+      return;
+    }
+    this.renderLensPass(camera, target, eye, geometry, settings);
+    const exact = readRenderTarget(this.gl, target);
+    const mesh = this.updateEyeMesh(0, geometry);
+    this.renderLensMeshPass(camera, target, mesh, geometry, settings);
+    const meshed = readRenderTarget(this.gl, target);
+    const difference = compareImages(exact, meshed);
+    benchmark.resolve({
+      meshMs: average(benchmark.timings.mesh),
+      shaderMs: average(benchmark.timings.shader),
+      meshGrid: mesh.grid,
+      meshErrorTexels: mesh.errorTexels,
+      difference,
+      withinTolerance: meshWithinTolerance(mesh) && difference.mean <= MESH_MAX_MEAN_DIFF
+    });
+  }
+
+  private renderPanelPass(target: RenderTarget, eye: EyeLayout, geometry: LensGeometry) {
+    const hasTable = geometry.radialTable.length > 0;
+    const pass = this.getPass("panel", panelFragment, panelUniforms, {
+      FEATURE_RADIAL_TABLE: hasTable,
+      MAX_RADIAL_TABLE
+    });
+    pass.use();
+    pass.setVec2("uOffset", geometry.offsetX, geometry.offsetY);
+    pass.setFloat("uSeparation", eye.separation);
+    pass.setFloat("uEyeSign", eye.eyeSign);
+    pass.setFloat("uPanelSize", PANEL_SIZE);
+    pass.setFloat("uK1", geometry.k1);
+    pass.setFloat("uK2", geometry.k2);
+    pass.setFloat("uK3", geometry.k3);
+    pass.setVec2("uTangential", geometry.p1, geometry.p2);
+    if (hasTable) {
+      pass.setVec2Array("uRadialTable", new Float32Array(geometry.radialTable.flat()));
+      pass.setFloat("uRadialTableSize", geometry.radialTable.length);
+      // The panel is drawn in eye UV already.
+      pass.setVec2("uRadialScale", 1, 1);
     }
+    pass.setFloat("uDistortEnabled", geometry.distortion ? 1 : 0);
 
-    this.gl.clear(this.gl.COLOR_BUFFER_BIT);
+    this.gl.enable(this.gl.BLEND);
+    this.gl.blendFunc(this.gl.SRC_ALPHA, this.gl.ONE_MINUS_SRC_ALPHA);
+    pass.draw(this.buffer, this.panelTexture, target, [0, 0, target.width, target.height]);
+    this.gl.disable(this.gl.BLEND);
+  }
+
+  private renderOverlayPass(
+    source: RenderTarget,
+    eye: EyeLayout,
+    settings: VRSettings
+  ) {
+    const pass = this.getPass("overlay", overlayFragment, overlayUniforms, {
+      FEATURE_CALIBRATION: settings.calibration
+    });
+    pass.use();
+    pass.setVec2("uResolution", eye.viewport[2], eye.viewport[3]);
+
+    pass.draw(this.buffer, source.texture, null, eye.viewport);
+  }
+
+  // The eye viewports are vertically centred, so GL and 2D rows coincide.
+  // Eyes may sit apart in the physical layout; captures place them edge to edge.
+  private resolveCaptures(eyes: EyeLayout[]) {
+    const pending = this.pendingCaptures;
+    this.pendingCaptures = [];
+    pending.forEach((capture) => {
+      const captured = capture.area === "stereo" ? eyes : eyes.slice(0, 1);
+      const size = eyes[0]?.viewport[2] ?? 1;
+      const canvas = document.createElement("canvas");
+      canvas.width = size * captured.length;
+      canvas.height = size;
+      const context = canvas.getContext("2d");
+      if (!context) {
+        capture.reject(new Error("Failed to capture the frame."));
+        return;
+      }
+      captured.forEach(({ viewport: [x, y] }, index) => {
+        context.drawImage(this.canvas, x, y, size, size, index * size, 0, size, size);
+      });
+      capture.resolve(canvas);
+    });
+  }
+
+  private copyEyeToMirror(mirror: CanvasRenderingContext2D, eye: EyeLayout) {
+    const [x, y, size] = eye.viewport;
+    if (mirror.canvas.width !== size || mirror.canvas.height !== size) {
+      mirror.canvas.width = size;
+      mirror.canvas.height = size;
+    }
+    mirror.drawImage(this.canvas, x, y, size, size, 0, 0, size, size);
+  }
+
+  /** Device pixels per millimetre, or null while the screen size is unknown. */
+  private pixelsPerMm() {
+    const cssWidth = this.canvas.clientWidth;
+    if (!this.screenSize || cssWidth <= 0) {
+      return null;
+    }
+    const screenCss = Math.max(window.screen.width, window.screen.height);
+    return (this.canvas.width / cssWidth) * (screenCss / this.screenSize.widthMm);
+  }
+
+  /**
+   * Normalised layout: two adjacent squares in the middle of the canvas.
+   * Physical layout: each square is centred under its lens and the image is
+   * shifted towards the pupil by half the IPD/lens difference, so the same
+   * millimetre fitting lines up on any phone.
+   */
+  private layoutEyes(width: number, height: number, settings: VRSettings) {
+    const pxPerMm = settings.physicalLayout ? this.pixelsPerMm() : null;
+    let squareSize = Math.min(height, Math.floor(width / 2));
+    let leftX = Math.max(0, Math.floor((width - squareSize * 2) / 2));
+    let rightX = leftX + squareSize;
+    let separation = settings.separation;
+    if (pxPerMm) {
+      const lensPx = settings.interLensMm * pxPerMm;
+      squareSize = Math.max(1, Math.floor(Math.min(height, lensPx, width - lensPx)));
+      leftX = Math.round((width - lensPx - squareSize) / 2);
+      rightX = Math.round((width + lensPx - squareSize) / 2);
+      separation =
+        (((settings.interLensMm - settings.ipdMm) / 2) * pxPerMm) / squareSize;
+    }
+    const top = Math.max(0, Math.floor((height - squareSize) / 2));
+    const eyes: EyeLayout[] = [
+      {
+        eyeSign: -1,
+        viewport: [leftX, top, squareSize, squareSize],
+        offsetX: settings.leftOffsetX,
+        offsetY: settings.leftOffsetY,
+        separation
+      },
+      {
+        eyeSign: 1,
+        viewport: [rightX, top, squareSize, squareSize],
+        offsetX: settings.rightOffsetX,
+        offsetY: settings.rightOffsetY,
+        separation
+      }
+    ];
+    return eyes;
+  }
+
+  private render = () => {
+    this.resizeCanvas();
     this.updateVideoTexture();
 
     const width = this.canvas.width;
     const height = this.canvas.height;
-    const squareSize = Math.min(height, Math.floor(width / 2));
-    const totalWidth = squareSize * 2;
-    const offsetX = Math.max(0, Math.floor((width - totalWidth) / 2));
-    const offsetY = Math.max(0, Math.floor((height - squareSize) / 2));
 
     const settings = this.getSettings();
-    const videoWidth = this.video.videoWidth || 1;
-    const videoHeight = this.video.videoHeight || 1;
-    const videoAspect = videoWidth / videoHeight;
-    this.setUniform2f(this.uniforms.texel, 1 / videoWidth, 1 / videoHeight);
-
-    this.drawEye(
-      -1,
-      offsetX,
-      offsetY,
-      squareSize,
-      squareSize,
-      settings.leftOffsetX,
-      settings.leftOffsetY,
-      videoAspect,
-      settings
+    const videoWidth = this.frozenSize?.width ?? (this.video.videoWidth || 1);
+    const videoHeight = this.frozenSize?.height ?? (this.video.videoHeight || 1);
+
+    const camera = this.renderCameraPasses(
+      settings,
+      this.frozenSize ? this.frozenTexture : this.texture,
+      videoWidth,
+      videoHeight
     );
-    this.drawEye(
-      1,
-      offsetX + squareSize,
-      offsetY,
-      squareSize,
-      squareSize,
-      settings.rightOffsetX,
-      settings.rightOffsetY,
-      videoAspect,
-      settings
+
+    if (this.frameSink && !this.frozenSize) {
+      this.sampleLuma(this.frameSink, videoWidth, videoHeight);
+    }
+    this.updateFrameMotion(videoWidth / videoHeight);
+    const eyes = this.layoutEyes(width, height, settings);
+    const geometries = eyes.map((eye) =>
+      this.lensGeometry(eye, settings, videoWidth, videoHeight)
     );
+    const benchmark = this.benchmark;
+    const path: LensPath = benchmark
+      ? benchmark.frame % 2 === 0
+        ? "mesh"
+        : "shader"
+      : this.lensPath;
+    // Mesh rebuilds happen before the clock starts; only drawing is timed.
+    const meshes =
+      path === "mesh"
+        ? geometries.map((geometry, index) => this.updateEyeMesh(index, geometry))
+        : [];
+
+    const lensStart = performance.now();
+    eyes.forEach((eye, index) => {
+      const target = this.eyeTargets[index];
+      const geometry = geometries[index];
+      if (!target || !geometry) {
+        return;
+      }
+      const size = eye.viewport[2];
+      resizeRenderTarget(this.gl, target, size, size);
+      const mesh = meshes[index];
+      // A warp no grid follows closely enough is drawn per pixel; the
+      // comparison still draws the mesh, to report how far off it is.
+      if (mesh && (benchmark || meshWithinTolerance(mesh))) {
+        this.renderLensMeshPass(camera, target, mesh, geometry, settings);
+      } else {
+        this.renderLensPass(camera, target, eye, geometry, settings);
+      }
+    });
+    if (benchmark) {
+      this.gl.finish();
+      const elapsed = performance.now() - lensStart;
+      this.stepBenchmark(benchmark, path, elapsed, camera, eyes, geometries, settings);
+    }
+    if (this.panelVisible) {
+      eyes.forEach((eye, index) => {
+        const target = this.eyeTargets[index];
+        const geometry = geometries[index];
+        if (target && geometry) {
+          this.renderPanelPass(target, eye, geometry);
+        }
+      });
+    }
+
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, null);
+    this.gl.viewport(0, 0, width, height);
+    this.gl.clear(this.gl.COLOR_BUFFER_BIT);
+
+    eyes.forEach((eye, index) => {
+      const target = this.eyeTargets[index];
+      if (target) {
+        this.renderOverlayPass(target, eye, settings);
+      }
+    });
+
+    if (this.eyeMirror && eyes[0]) {
+      this.copyEyeToMirror(this.eyeMirror, eyes[0]);
+    }
+    if (this.pendingCaptures.length > 0) {
+      this.resolveCaptures(eyes);
+    }
 
     this.rafId = requestAnimationFrame(this.render);
   };
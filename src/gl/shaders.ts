@@ -1,51 +1,32 @@
-export const vertexWebGL1 = `
-attribute vec2 aPosition;
-attribute vec2 aUV;
+import { defineShaderModule } from "./glsl";
 
-varying vec2 vUV;
-
-void main() {
-  vUV = aUV;
-  gl_Position = vec4(aPosition, 0.0, 1.0);
+defineShaderModule(
+  "luminance",
+  `
+float luminance(vec3 color) {
+  return dot(color, vec3(0.2126, 0.7152, 0.0722));
 }
-`;
+`
+);
 
-export const fragmentWebGL1 = `
-precision mediump float;
+defineShaderModule(
+  "color",
+  `
+#include <luminance>
 
-varying vec2 vUV;
-
-uniform sampler2D uTexture;
 uniform float uContrast;
 uniform float uBrightness;
 uniform float uGamma;
 uniform float uHighlights;
 uniform float uShadows;
 uniform float uTemperature;
-uniform float uScale;
-uniform vec2 uOffset;
-uniform float uSeparation;
-uniform float uEyeSign;
-uniform float uVideoAspect;
-uniform float uMagnifyEnabled;
-uniform float uMagnifyZoom;
-uniform float uMagnifySize;
-uniform float uSphereStrength;
-uniform float uSphereRadius;
-uniform float uK1;
-uniform float uK2;
-uniform float uDistortEnabled;
-uniform float uCalibrate;
-uniform vec2 uResolution;
-uniform float uFilterMode;
-uniform vec2 uTexel;
 
 vec3 applyColor(vec3 color) {
   color = (color - 0.5) * uContrast + 0.5;
   color += uBrightness;
   color = clamp(color, 0.0, 1.0);
   color = pow(color, vec3(1.0 / max(uGamma, 0.001)));
-  float lum = dot(color, vec3(0.2126, 0.7152, 0.0722));
+  float lum = luminance(color);
   float shadowMask = 1.0 - smoothstep(0.2, 0.55, lum);
   float highlightMask = smoothstep(0.55, 0.9, lum);
   color += shadowMask * uShadows * 0.35;
@@ -53,42 +34,275 @@ vec3 applyColor(vec3 color) {
   color += vec3(0.12, 0.04, -0.12) * uTemperature;
   return clamp(color, 0.0, 1.0);
 }
+`
+);
+
+// Brown–Conrady: radial k1–k3 and tangential p1/p2 (uTangential). With
+// FEATURE_RADIAL_TABLE a user table of r -> r' replaces the radial terms;
+// MAX_RADIAL_TABLE is supplied by the renderer. The table is in eye units,
+// so uRadialScale turns the pass's UV offsets into them: it undoes the
+// aspect fit and the zoom of the lens pass and is 1 where UV is the eye.
+defineShaderModule(
+  "distortion",
+  `
+uniform float uK1;
+uniform float uK2;
+uniform float uK3;
+uniform vec2 uTangential;
+uniform float uDistortEnabled;
 
-float luminance(vec3 color) {
-  return dot(color, vec3(0.2126, 0.7152, 0.0722));
-}
-
-float sobelEdge(vec2 uv) {
-  vec2 t = uTexel;
-  float tl = luminance(texture2D(uTexture, uv + vec2(-t.x, -t.y)).rgb);
-  float tc = luminance(texture2D(uTexture, uv + vec2(0.0, -t.y)).rgb);
-  float tr = luminance(texture2D(uTexture, uv + vec2(t.x, -t.y)).rgb);
-  float ml = luminance(texture2D(uTexture, uv + vec2(-t.x, 0.0)).rgb);
-  float mr = luminance(texture2D(uTexture, uv + vec2(t.x, 0.0)).rgb);
-  float bl = luminance(texture2D(uTexture, uv + vec2(-t.x, t.y)).rgb);
-  float bc = luminance(texture2D(uTexture, uv + vec2(0.0, t.y)).rgb);
-  float br = luminance(texture2D(uTexture, uv + vec2(t.x, t.y)).rgb);
-
-  float gx = -tl + tr + -2.0 * ml + 2.0 * mr + -bl + br;
-  float gy = -tl - 2.0 * tc - tr + bl + 2.0 * bc + br;
-  float edge = sqrt(gx * gx + gy * gy);
-  return step(0.1, edge);
+#ifdef FEATURE_RADIAL_TABLE
+uniform vec2 uRadialTable[MAX_RADIAL_TABLE];
+uniform float uRadialTableSize;
+uniform vec2 uRadialScale;
+
+float radialTableFactor(float r) {
+  vec2 previous = vec2(0.0);
+  float mapped = -1.0;
+  for (int i = 0; i < MAX_RADIAL_TABLE; i++) {
+    if (float(i) >= uRadialTableSize) {
+      break;
+    }
+    vec2 row = uRadialTable[i];
+    if (mapped < 0.0 && r <= row.x) {
+      float t = (r - previous.x) / max(row.x - previous.x, 0.00001);
+      mapped = mix(previous.y, row.y, t);
+    }
+    previous = row;
+  }
+  if (mapped < 0.0) {
+    mapped = r * previous.y / max(previous.x, 0.00001);
+  }
+  return mapped / max(r, 0.00001);
 }
+#endif
 
 vec2 applyDistortion(vec2 uv, vec2 center) {
   float enabled = step(0.5, uDistortEnabled);
   vec2 d = uv - center;
   float r2 = dot(d, d);
-  float factor = 1.0 + uK1 * r2 + uK2 * r2 * r2;
-  vec2 warped = center + d * factor;
+#ifdef FEATURE_RADIAL_TABLE
+  float factor = radialTableFactor(length(d * uRadialScale));
+#else
+  float factor = 1.0 + r2 * (uK1 + r2 * (uK2 + r2 * uK3));
+#endif
+  vec2 tangential = vec2(
+    2.0 * uTangential.x * d.x * d.y + uTangential.y * (r2 + 2.0 * d.x * d.x),
+    uTangential.x * (r2 + 2.0 * d.y * d.y) + 2.0 * uTangential.y * d.x * d.y
+  );
+  vec2 warped = center + d * factor + tangential;
   return mix(uv, warped, enabled);
 }
+`
+);
+
+defineShaderModule(
+  "chroma",
+  `
+uniform vec3 uChromaScale;
 
+vec2 chromaUV(vec2 uv, vec2 center, float scale) {
+  return center + (uv - center) * scale;
+}
+
+vec3 sampleChroma(sampler2D tex, vec2 uv, vec2 center) {
+  return vec3(
+    TEXTURE(tex, chromaUV(uv, center, uChromaScale.r)).r,
+    TEXTURE(tex, chromaUV(uv, center, uChromaScale.g)).g,
+    TEXTURE(tex, chromaUV(uv, center, uChromaScale.b)).b
+  );
+}
+`
+);
+
+defineShaderModule(
+  "sphere",
+  `
+uniform float uSphereStrength;
+uniform float uSphereRadius;
+
+vec2 applySphere(vec2 warped, vec2 screenUV, vec2 center, float scale) {
+  float sphereStrength = clamp(uSphereStrength, 0.0, 1.0);
+  float sphereRadius = max(uSphereRadius, 0.00001);
+  vec2 screenDelta = screenUV - 0.5;
+  float screenR = length(screenDelta);
+  float normR = screenR / sphereRadius;
+  if (sphereStrength <= 0.001) {
+    return warped;
+  }
+  float clampedR = clamp(normR, 0.0, 1.0);
+  float sphereNorm = asin(clampedR) / 1.57079632679;
+  vec2 dir = screenR > 0.00001 ? screenDelta / screenR : vec2(0.0, 0.0);
+  vec2 sphereDelta = dir * (sphereNorm * sphereRadius) / scale;
+  vec2 sphereUV = center + sphereDelta;
+  float feather = mix(0.45, 0.0, sphereStrength);
+  float mask = feather > 0.0001
+    ? (1.0 - smoothstep(1.0 - feather, 1.0, normR))
+    : step(normR, 1.0);
+  return mix(warped, sphereUV, mask);
+}
+`
+);
+
+defineShaderModule(
+  "magnifier",
+  `
+uniform float uMagnifyZoom;
+uniform float uMagnifySize;
+
+float magnifierMask(vec2 screenUV) {
+  vec2 p = screenUV - 0.5;
+  float size = clamp(uMagnifySize, 0.2, 1.0);
+  vec2 box = vec2(0.5 * size);
+  float radius = mix(0.08, 0.02, size);
+  vec2 q = abs(p) - box + radius;
+  float dist = length(max(q, 0.0)) + min(max(q.x, q.y), 0.0) - radius;
+  float edge = 0.012;
+  return 1.0 - smoothstep(0.0, edge, dist);
+}
+
+vec2 magnifierUV(vec2 warped, vec2 center) {
+  float zoom = max(uMagnifyZoom, 1.0);
+  return center + (warped - center) / zoom;
+}
+`
+);
+
+defineShaderModule(
+  "grid",
+  `
 float lineMask(float v, float count, float thickness) {
   float cell = abs(fract(v * count) - 0.5);
   return 1.0 - smoothstep(0.0, thickness, cell);
 }
 
+float pixelSize(vec2 resolution) {
+  return 1.0 / max(1.0, min(resolution.x, resolution.y));
+}
+
+// Thin white grid lines and rings around the lens centre on black. Lateral
+// colour error is largest at the edge, where the rings and lines are densest.
+float fringeChart(vec2 uv, vec2 center, float thickness) {
+  float grid = max(lineMask(uv.x, 12.0, thickness), lineMask(uv.y, 12.0, thickness));
+  float ring = lineMask(length(uv - center), 16.0, thickness);
+  return max(grid, ring);
+}
+`
+);
+
+// Moves the source under the warp: the frozen view's pan, or the stabiliser's
+// counter-shift and counter-rotation about the lens centre. uRoll holds the
+// rows of a 2x2 matrix in texture units, so it already folds in the aspect.
+defineShaderModule(
+  "frame-motion",
+  `
+uniform vec2 uPan;
+uniform vec4 uRoll;
+
+vec2 moveFrame(vec2 warped, vec2 center) {
+  vec2 offset = warped - center;
+  return center + vec2(dot(uRoll.xy, offset), dot(uRoll.zw, offset)) + uPan;
+}
+`
+);
+
+// Everything the lens pass does after the UV warp; shared by the per-pixel
+// and the mesh lens shaders.
+defineShaderModule(
+  "lens-shading",
+  `
+#include <grid>
+#if defined(FEATURE_CHROMA) || defined(FEATURE_CHROMA_PATTERN)
+#include <chroma>
+#endif
+#ifdef FEATURE_MAGNIFIER
+#include <magnifier>
+#endif
+
+uniform vec2 uResolution;
+
+vec3 shadeLens(sampler2D tex, vec2 warped, vec2 center, vec2 screenUV) {
+#ifdef FEATURE_CHROMA
+  vec3 color = sampleChroma(tex, warped, center);
+#else
+  vec3 color = TEXTURE(tex, warped).rgb;
+#endif
+
+#ifdef FEATURE_MAGNIFIER
+  vec3 zoomColor = TEXTURE(tex, magnifierUV(warped, center)).rgb;
+  color = mix(color, zoomColor, magnifierMask(screenUV));
+#endif
+
+#if defined(FEATURE_CALIBRATION) && defined(FEATURE_CHROMA_PATTERN)
+  float lineThickness = pixelSize(uResolution) * 3.0;
+  color = vec3(
+    fringeChart(chromaUV(warped, center, uChromaScale.r), center, lineThickness),
+    fringeChart(chromaUV(warped, center, uChromaScale.g), center, lineThickness),
+    fringeChart(chromaUV(warped, center, uChromaScale.b), center, lineThickness)
+  );
+#elif defined(FEATURE_CALIBRATION)
+  float gridThickness = pixelSize(uResolution) * 6.0;
+  vec2 gridUV = clamp(warped, 0.0, 1.0);
+  float grid = max(
+    lineMask(gridUV.x, 6.0, gridThickness),
+    lineMask(gridUV.y, 6.0, gridThickness)
+  );
+  color = mix(color, vec3(0.08, 0.92, 1.0), grid * 0.8);
+#endif
+
+  return color;
+}
+`
+);
+
+export const quadVertex = `
+ATTRIBUTE vec2 aPosition;
+ATTRIBUTE vec2 aUV;
+
+VARYING vec2 vUV;
+
+void main() {
+  vUV = aUV;
+  gl_Position = vec4(aPosition, 0.0, 1.0);
+}
+`;
+
+export const colorFragment = `
+#include <color>
+
+VARYING vec2 vUV;
+
+uniform sampler2D uTexture;
+
+void main() {
+  FRAG_COLOR = vec4(applyColor(TEXTURE(uTexture, vUV).rgb), 1.0);
+}
+`;
+
+/**
+ * FEATURE_SPHERE, FEATURE_MAGNIFIER, FEATURE_CHROMA and FEATURE_CALIBRATION
+ * compile the optional stages in, so a plain view pays for none of them.
+ * FEATURE_CHROMA_PATTERN replaces the calibration grid with a white-on-black
+ * chart pushed through the per-channel warp, where any fringe shows up.
+ * `warpLensUV` in mesh.ts mirrors the UV math and must be kept in step.
+ */
+export const lensFragment = `
+#include <distortion>
+#ifdef FEATURE_SPHERE
+#include <sphere>
+#endif
+#include <frame-motion>
+#include <lens-shading>
+
+VARYING vec2 vUV;
+
+uniform sampler2D uTexture;
+uniform float uScale;
+uniform vec2 uOffset;
+uniform float uSeparation;
+uniform float uEyeSign;
+uniform float uVideoAspect;
+
 void main() {
   vec2 uv = vUV;
   if (uVideoAspect > 1.0) {
@@ -104,288 +318,199 @@ void main() {
   vec2 center = vec2(0.5) + uOffset + eyeShift;
   vec2 warped = applyDistortion(uv, center);
 
-  float sphereStrength = clamp(uSphereStrength, 0.0, 1.0);
-  float sphereRadius = max(uSphereRadius, 0.00001);
-  vec2 screenDelta = vUV - 0.5;
-  float screenR = length(screenDelta);
-  float normR = screenR / sphereRadius;
-  if (sphereStrength > 0.001) {
-    float clampedR = clamp(normR, 0.0, 1.0);
-    float sphereNorm = asin(clampedR) / 1.57079632679;
-    vec2 dir = screenR > 0.00001 ? screenDelta / screenR : vec2(0.0, 0.0);
-    vec2 sphereDelta = dir * (sphereNorm * sphereRadius) / uScale;
-    vec2 sphereUV = center + sphereDelta;
-    float feather = mix(0.45, 0.0, sphereStrength);
-    float mask = feather > 0.0001
-      ? (1.0 - smoothstep(1.0 - feather, 1.0, normR))
-      : step(normR, 1.0);
-
-    warped = mix(warped, sphereUV, mask);
-  }
-
-  vec3 color = applyColor(texture2D(uTexture, warped).rgb);
-
-  if (uFilterMode > 0.5 && uFilterMode < 1.5) {
-    float lum = luminance(color);
-    float mask = step(0.52, lum);
-    vec3 a = vec3(0.03, 0.03, 0.02);
-    vec3 b = vec3(1.0, 0.82, 0.12);
-    color = mix(a, b, mask);
-  } else if (uFilterMode > 1.5 && uFilterMode < 2.5) {
-    float lum = luminance(color);
-    float mask = step(0.52, lum);
-    vec3 a = vec3(0.04, 0.06, 0.18);
-    vec3 b = vec3(0.92, 0.96, 1.0);
-    color = mix(a, b, mask);
-  } else if (uFilterMode > 2.5) {
-    float edge = sobelEdge(warped);
-    color = mix(color, vec3(0.0), edge * 0.3);
-  }
-
-  float magnify = step(0.5, uMagnifyEnabled);
-  if (magnify > 0.5) {
-    float zoom = max(uMagnifyZoom, 1.0);
-    vec2 zoomUV = center + (warped - center) / zoom;
-
-    vec2 p = vUV - 0.5;
-    float size = clamp(uMagnifySize, 0.2, 1.0);
-    vec2 box = vec2(0.5 * size);
-    float radius = mix(0.08, 0.02, size);
-    vec2 q = abs(p) - box + radius;
-    float dist = length(max(q, 0.0)) + min(max(q.x, q.y), 0.0) - radius;
-    float edge = 0.012;
-    float mask = 1.0 - smoothstep(0.0, edge, dist);
-
-    vec3 zoomColor = applyColor(texture2D(uTexture, zoomUV).rgb);
-    color = mix(color, zoomColor, mask);
-  }
+#ifdef FEATURE_SPHERE
+  warped = applySphere(warped, vUV, center, uScale);
+#endif
 
-  float cal = step(0.5, uCalibrate);
-  if (cal > 0.5) {
-    float px = 1.0 / max(1.0, min(uResolution.x, uResolution.y));
-    float gridThickness = px * 6.0;
-    float ringThickness = px * 1.6;
-
-    vec2 gridUV = clamp(warped, 0.0, 1.0);
-    float grid = max(
-      lineMask(gridUV.x, 6.0, gridThickness),
-      lineMask(gridUV.y, 6.0, gridThickness)
-    );
-    float crossX = 1.0 - smoothstep(0.0, gridThickness * 1, abs(vUV.x - 0.5));
-    float crossY = 1.0 - smoothstep(0.0, gridThickness * 1, abs(vUV.y - 0.5));
-    float cross = max(crossX, crossY);
-
-    float r = length(vUV - 0.5);
-    float ring1 = 1.0 - smoothstep(ringThickness, ringThickness * 3.0, abs(r - 0.25));
-    float ring2 = 1.0 - smoothstep(ringThickness, ringThickness * 3.0, abs(r - 0.4));
-    float ringScale = 0.45;
-
-    float gridAlpha = grid * 0.8;
-    vec3 gridColor = vec3(0.08, 0.92, 1.0);
-    color = mix(color, gridColor, gridAlpha);
-
-    float overlay = max(cross, max(ring1, ring2) * ringScale);
-    vec3 overlayColor = mix(vec3(0.12, 1.0, 0.7), vec3(1.0, 0.7, 0.25), cross);
-    color = mix(color, overlayColor, overlay * 0.45);
-  }
+  warped = moveFrame(warped, center);
+  center += uPan;
 
-  gl_FragColor = vec4(color, 1.0);
+  FRAG_COLOR = vec4(shadeLens(uTexture, warped, center, vUV), 1.0);
 }
 `;
 
-export const vertexWebGL2 = `#version 300 es
-in vec2 aPosition;
-in vec2 aUV;
+/** Lens vertices carry the warped source UV, precomputed by mesh.ts. */
+export const lensMeshVertex = `
+ATTRIBUTE vec2 aPosition;
+ATTRIBUTE vec2 aUV;
+ATTRIBUTE vec2 aWarped;
 
-out vec2 vUV;
+VARYING vec2 vUV;
+VARYING vec2 vWarped;
 
 void main() {
   vUV = aUV;
+  vWarped = aWarped;
   gl_Position = vec4(aPosition, 0.0, 1.0);
 }
 `;
 
-export const fragmentWebGL2 = `#version 300 es
-precision mediump float;
+/**
+ * The mesh counterpart of `lensFragment`: aspect, scale, offsets,
+ * distortion and sphere are already baked into vWarped, so only the frame
+ * motion and the shading stages run per fragment.
+ */
+export const lensMeshFragment = `
+#include <frame-motion>
+#include <lens-shading>
 
-in vec2 vUV;
+VARYING vec2 vUV;
+VARYING vec2 vWarped;
 
 uniform sampler2D uTexture;
-uniform float uContrast;
-uniform float uBrightness;
-uniform float uGamma;
-uniform float uHighlights;
-uniform float uShadows;
-uniform float uTemperature;
-uniform float uScale;
-uniform vec2 uOffset;
-uniform float uSeparation;
-uniform float uEyeSign;
-uniform float uVideoAspect;
-uniform float uMagnifyEnabled;
-uniform float uMagnifyZoom;
-uniform float uMagnifySize;
-uniform float uSphereStrength;
-uniform float uSphereRadius;
-uniform float uK1;
-uniform float uK2;
-uniform float uDistortEnabled;
-uniform float uCalibrate;
-uniform vec2 uResolution;
-uniform float uFilterMode;
-uniform vec2 uTexel;
+uniform vec2 uCenter;
 
-out vec4 outColor;
-
-vec3 applyColor(vec3 color) {
-  color = (color - 0.5) * uContrast + 0.5;
-  color += uBrightness;
-  color = clamp(color, 0.0, 1.0);
-  color = pow(color, vec3(1.0 / max(uGamma, 0.001)));
-  float lum = dot(color, vec3(0.2126, 0.7152, 0.0722));
-  float shadowMask = 1.0 - smoothstep(0.2, 0.55, lum);
-  float highlightMask = smoothstep(0.55, 0.9, lum);
-  color += shadowMask * uShadows * 0.35;
-  color += highlightMask * uHighlights * 0.35;
-  color += vec3(0.12, 0.04, -0.12) * uTemperature;
-  return clamp(color, 0.0, 1.0);
+void main() {
+  vec2 warped = moveFrame(vWarped, uCenter);
+  vec2 center = uCenter + uPan;
+  FRAG_COLOR = vec4(shadeLens(uTexture, warped, center, vUV), 1.0);
 }
+`;
 
-float luminance(vec3 color) {
-  return dot(color, vec3(0.2126, 0.7152, 0.0722));
+/**
+ * Luminance of the raw camera frame, box-filtered down to a small target for
+ * frame registration. uTexel is the size of one target pixel in source UV.
+ */
+export const lumaFragment = `
+#include <luminance>
+
+VARYING vec2 vUV;
+
+uniform sampler2D uTexture;
+uniform vec2 uTexel;
+
+void main() {
+  float sum = 0.0;
+  for (int y = 0; y < 4; y++) {
+    for (int x = 0; x < 4; x++) {
+      vec2 tap = (vec2(float(x), float(y)) - 1.5) * 0.25 * uTexel;
+      sum += luminance(TEXTURE(uTexture, vUV + tap).rgb);
+    }
+  }
+  FRAG_COLOR = vec4(vec3(sum / 16.0), 1.0);
 }
+`;
+
+export const overlayFragment = `
+#include <grid>
+
+VARYING vec2 vUV;
+
+uniform sampler2D uTexture;
+uniform vec2 uResolution;
+
+void main() {
+  vec3 color = TEXTURE(uTexture, vUV).rgb;
+
+#ifdef FEATURE_CALIBRATION
+  float px = pixelSize(uResolution);
+  float crossThickness = px * 6.0 * 1.4;
+  float ringThickness = px * 1.6;
+
+  float crossX = 1.0 - smoothstep(0.0, crossThickness, abs(vUV.x - 0.5));
+  float crossY = 1.0 - smoothstep(0.0, crossThickness, abs(vUV.y - 0.5));
+  float cross = max(crossX, crossY);
+
+  float r = length(vUV - 0.5);
+  float ring1 = 1.0 - smoothstep(ringThickness, ringThickness * 3.0, abs(r - 0.25));
+  float ring2 = 1.0 - smoothstep(ringThickness, ringThickness * 3.0, abs(r - 0.4));
+  float ringScale = 0.45;
 
-float sobelEdge(vec2 uv) {
-  vec2 t = uTexel;
-  float tl = luminance(texture(uTexture, uv + vec2(-t.x, -t.y)).rgb);
-  float tc = luminance(texture(uTexture, uv + vec2(0.0, -t.y)).rgb);
-  float tr = luminance(texture(uTexture, uv + vec2(t.x, -t.y)).rgb);
-  float ml = luminance(texture(uTexture, uv + vec2(-t.x, 0.0)).rgb);
-  float mr = luminance(texture(uTexture, uv + vec2(t.x, 0.0)).rgb);
-  float bl = luminance(texture(uTexture, uv + vec2(-t.x, t.y)).rgb);
-  float bc = luminance(texture(uTexture, uv + vec2(0.0, t.y)).rgb);
-  float br = luminance(texture(uTexture, uv + vec2(t.x, t.y)).rgb);
-
-  float gx = -tl + tr + -2.0 * ml + 2.0 * mr + -bl + br;
-  float gy = -tl - 2.0 * tc - tr + bl + 2.0 * bc + br;
-  float edge = sqrt(gx * gx + gy * gy);
-  return step(0.6, edge);
+  float overlay = max(cross, max(ring1, ring2) * ringScale);
+  vec3 overlayColor = mix(vec3(0.12, 1.0, 0.7), vec3(1.0, 0.7, 0.25), cross);
+  color = mix(color, overlayColor, overlay * 0.45);
+#endif
+
+  FRAG_COLOR = vec4(color, 1.0);
 }
+`;
 
-vec2 applyDistortion(vec2 uv, vec2 center) {
-  float enabled = step(0.5, uDistortEnabled);
-  vec2 d = uv - center;
-  float r2 = dot(d, d);
-  float factor = 1.0 + uK1 * r2 + uK2 * r2 * r2;
-  vec2 warped = center + d * factor;
-  return mix(uv, warped, enabled);
+/**
+ * The headset settings panel, blended over an eye after the lens pass. It
+ * goes through the eye's offset, separation and distortion like the camera
+ * image at scale 1, so it sits under the lens the way the picture does.
+ * uPanelSize is the share of the eye the panel spans.
+ */
+export const panelFragment = `
+#include <distortion>
+
+VARYING vec2 vUV;
+
+uniform sampler2D uTexture;
+uniform vec2 uOffset;
+uniform float uSeparation;
+uniform float uEyeSign;
+uniform float uPanelSize;
+
+void main() {
+  vec2 eyeShift = vec2(uEyeSign * uSeparation, 0.0);
+  vec2 center = vec2(0.5) + uOffset + eyeShift;
+  vec2 warped = applyDistortion(vUV + uOffset + eyeShift, center);
+  vec2 panelUV = (warped - center) / uPanelSize + 0.5;
+  if (panelUV.x < 0.0 || panelUV.x > 1.0 || panelUV.y < 0.0 || panelUV.y > 1.0) {
+    discard;
+  }
+  FRAG_COLOR = TEXTURE(uTexture, panelUV);
 }
+`;
 
-float lineMask(float v, float count, float thickness) {
-  float cell = abs(fract(v * count) - 0.5);
-  return 1.0 - smoothstep(0.0, thickness, cell);
+/**
+ * Outlines recognised text in camera space, before the lens pass, so the
+ * boxes stay glued to the text in both eyes. MAX_TEXT_BOXES is supplied by
+ * the renderer.
+ */
+export const textHighlightFragment = `
+VARYING vec2 vUV;
+
+uniform sampler2D uTexture;
+uniform vec4 uTextBoxes[MAX_TEXT_BOXES];
+uniform float uTextBoxCount;
+uniform vec2 uTexel;
+
+float insideBox(vec2 uv, vec2 lo, vec2 hi) {
+  return step(lo.x, uv.x) * step(uv.x, hi.x) * step(lo.y, uv.y) * step(uv.y, hi.y);
 }
 
 void main() {
-  vec2 uv = vUV;
-  if (uVideoAspect > 1.0) {
-    uv.x = (uv.x - 0.5) / uVideoAspect + 0.5;
-  } else {
-    uv.y = (uv.y - 0.5) * uVideoAspect + 0.5;
+  vec3 color = TEXTURE(uTexture, vUV).rgb;
+  vec2 stroke = uTexel * 4.0;
+  float fill = 0.0;
+  float border = 0.0;
+
+  for (int i = 0; i < MAX_TEXT_BOXES; i++) {
+    if (float(i) >= uTextBoxCount) {
+      break;
+    }
+    vec4 box = uTextBoxes[i];
+    float inner = insideBox(vUV, box.xy, box.zw);
+    float outer = insideBox(vUV, box.xy - stroke, box.zw + stroke);
+    fill = max(fill, inner);
+    border = max(border, outer - inner);
   }
 
-  uv = (uv - 0.5) / uScale + 0.5;
-  vec2 eyeShift = vec2(uEyeSign * uSeparation, 0.0);
-  uv += uOffset + eyeShift;
+  vec3 highlight = vec3(1.0, 0.85, 0.1);
+  color = mix(color, highlight, fill * 0.18);
+  color = mix(color, highlight, border);
+  FRAG_COLOR = vec4(color, 1.0);
+}
+`;
 
-  vec2 center = vec2(0.5) + uOffset + eyeShift;
-  vec2 warped = applyDistortion(uv, center);
+export const filterFragment = (uniforms: string, source: string) => `
+#include <luminance>
 
-  float sphereStrength = clamp(uSphereStrength, 0.0, 1.0);
-  float sphereRadius = max(uSphereRadius, 0.00001);
-  vec2 screenDelta = vUV - 0.5;
-  float screenR = length(screenDelta);
-  float normR = screenR / sphereRadius;
-  if (sphereStrength > 0.001) {
-    float clampedR = clamp(normR, 0.0, 1.0);
-    float sphereNorm = asin(clampedR) / 1.57079632679;
-    vec2 dir = screenR > 0.00001 ? screenDelta / screenR : vec2(0.0, 0.0);
-    vec2 sphereDelta = dir * (sphereNorm * sphereRadius) / uScale;
-    vec2 sphereUV = center + sphereDelta;
-    float feather = mix(0.45, 0.0, sphereStrength);
-    float mask = feather > 0.0001
-      ? (1.0 - smoothstep(1.0 - feather, 1.0, normR))
-      : step(normR, 1.0);
-
-    warped = mix(warped, sphereUV, mask);
-  }
+VARYING vec2 vUV;
 
-  vec3 color = applyColor(texture(uTexture, warped).rgb);
-
-  if (uFilterMode > 0.5 && uFilterMode < 1.5) {
-    float lum = luminance(color);
-    float mask = step(0.52, lum);
-    vec3 a = vec3(0.03, 0.03, 0.02);
-    vec3 b = vec3(1.0, 0.82, 0.12);
-    color = mix(a, b, mask);
-  } else if (uFilterMode > 1.5 && uFilterMode < 2.5) {
-    float lum = luminance(color);
-    float mask = step(0.52, lum);
-    vec3 a = vec3(0.04, 0.06, 0.18);
-    vec3 b = vec3(0.92, 0.96, 1.0);
-    color = mix(a, b, mask);
-  } else if (uFilterMode > 2.5) {
-    float edge = sobelEdge(warped);
-    color = mix(color, vec3(0.0), edge);
-  }
+uniform sampler2D uTexture;
+uniform vec2 uTexel;
+${uniforms}
 
-  float magnify = step(0.5, uMagnifyEnabled);
-  if (magnify > 0.5) {
-    float zoom = max(uMagnifyZoom, 1.0);
-    vec2 zoomUV = center + (warped - center) / zoom;
-
-    vec2 p = vUV - 0.5;
-    float size = clamp(uMagnifySize, 0.2, 1.0);
-    vec2 box = vec2(0.5 * size);
-    float radius = mix(0.08, 0.02, size);
-    vec2 q = abs(p) - box + radius;
-    float dist = length(max(q, 0.0)) + min(max(q.x, q.y), 0.0) - radius;
-    float edge = 0.012;
-    float mask = 1.0 - smoothstep(0.0, edge, dist);
-
-    vec3 zoomColor = applyColor(texture(uTexture, zoomUV).rgb);
-    color = mix(color, zoomColor, mask);
-  }
+vec3 sampleColor(vec2 uv) {
+  return TEXTURE(uTexture, uv).rgb;
+}
 
-  float cal = step(0.5, uCalibrate);
-  if (cal > 0.5) {
-    float px = 1.0 / max(1.0, min(uResolution.x, uResolution.y));
-    float gridThickness = px * 6.0;
-    float ringThickness = px * 1.6;
-
-    vec2 gridUV = clamp(warped, 0.0, 1.0);
-    float grid = max(
-      lineMask(gridUV.x, 6.0, gridThickness),
-      lineMask(gridUV.y, 6.0, gridThickness)
-    );
-    float crossX = 1.0 - smoothstep(0.0, gridThickness * 1.4, abs(vUV.x - 0.5));
-    float crossY = 1.0 - smoothstep(0.0, gridThickness * 1.4, abs(vUV.y - 0.5));
-    float cross = max(crossX, crossY);
-
-    float r = length(vUV - 0.5);
-    float ring1 = 1.0 - smoothstep(ringThickness, ringThickness * 3.0, abs(r - 0.25));
-    float ring2 = 1.0 - smoothstep(ringThickness, ringThickness * 3.0, abs(r - 0.4));
-    float ringScale = 0.45;
-
-    float gridAlpha = grid * 0.8;
-    vec3 gridColor = vec3(0.08, 0.92, 1.0);
-    color = mix(color, gridColor, gridAlpha);
-
-    float overlay = max(cross, max(ring1, ring2) * ringScale);
-    vec3 overlayColor = mix(vec3(0.12, 1.0, 0.7), vec3(1.0, 0.7, 0.25), cross);
-    color = mix(color, overlayColor, overlay * 0.45);
-  }
+${source}
 
-  outColor = vec4(color, 1.0);
+void main() {
+  FRAG_COLOR = vec4(clamp(applyFilter(vUV), 0.0, 1.0), 1.0);
 }
 `;
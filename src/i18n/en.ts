@@ -0,0 +1,334 @@
+import type { MessageKey } from "./ru";
+
+export const en: Record<MessageKey, string> = {
+  "common.apply": "Apply",
+  "common.cancel": "Cancel",
+  "common.close": "Close",
+  "common.delete": "Delete",
+  "common.copy": "Copy",
+  "common.share": "Share",
+  "common.save": "Save",
+  "common.update": "Update",
+  "common.auto": "Auto",
+  "common.on": "On",
+  "common.off": "Off",
+  "common.dated": " from {date}",
+  "common.changesNone": "no changes",
+  "common.changesMore": "{shown} and {count} more",
+
+  "language.title": "Language · Язык",
+  "language.auto": "System default",
+
+  "orientation.title": "Rotate your device",
+  "orientation.text": "Turn the phone to landscape for the app to work properly.",
+  "orientation.hint": "The interface appears as soon as the phone is rotated.",
+  "install.title": "Add to home screen",
+  "install.text":
+    "For the full experience, add the app to your home screen: tap \"Share\", then choose \"Add to Home Screen\".",
+  "install.hint": "Then open it from the home screen and it runs as a full app.",
+
+  "status.running": "Running",
+  "status.stopped": "Stopped",
+  "mode.vr": "VR mode",
+  "mode.settings": "Normal mode",
+
+  "hud.photo": "Photo",
+  "hud.calibration": "Calibration",
+  "hud.settings": "Settings",
+  "freeze.live": "Live video",
+  "freeze.freeze": "Freeze frame",
+  "vrMenu.readText": "Read text",
+  "panel.allSettings": "All settings",
+
+  "overlay.cameraError": "Camera error",
+  "overlay.starting": "Starting camera...",
+  "overlay.errorHint": "Allow camera access in the browser and reload the page.",
+  "overlay.startingHint": "Waiting for the camera. If it does not start, check the permissions.",
+
+  "error.cameraDenied": "Camera access is denied. Allow the camera in the browser settings.",
+  "error.cameraMissing": "No camera found on this device.",
+  "error.cameraBusy": "The camera is already in use by another app.",
+  "error.camera": "Camera error: {message}",
+  "error.unexpected": "Unexpected camera error. Please try again.",
+  "error.cameraUnsupported": "This browser does not support camera access.",
+  "error.noVideo": "Video element not found.",
+  "error.noCanvas": "Canvas element not found.",
+
+  "update.banner": "Update available · menu → “Update”",
+  "update.ready": "A new version of the app is available. Presets and settings are kept.",
+  "update.stopRecording": "Stop the recording first.",
+  "update.later": "Later",
+
+  "issues.title": "Fixed while loading the settings:",
+  "issues.dismiss": "Got it",
+
+  "fitting.received": "Calibration received",
+  "fitting.preset": "Preset “{name}”. ",
+  "fitting.question": "Apply it now or save it to a slot?",
+  "fitting.into": "To “{name}”",
+  "fitting.newPreset": "New preset",
+  "fitting.rejected": "Link rejected",
+
+  "camera.title": "Camera",
+  "camera.distortion": "Distortion",
+  "camera.magnifier": "Magnifier",
+  "camera.grid": "Grid",
+  "camera.fringeTest": "Fringe test",
+  "camera.chromaRed": "Red channel, %",
+  "camera.chromaGreen": "Green channel, %",
+  "camera.chromaBlue": "Blue channel, %",
+  "camera.numbered": "Camera {index}",
+
+  "source.title": "Video source",
+  "source.camera": "Camera",
+  "source.defaultCamera": "Main rear",
+  "source.resolution": "Resolution",
+  "source.frameRate": "Frames per second",
+  "source.active":
+    "Now: {mode}. The choice is stored on this phone; if the camera lacks the exact mode, the nearest one is used.",
+  "source.activeRate": ", {rate} fps",
+  "source.pending": "Cameras and their modes are listed once the camera is running.",
+  "source.missing": "The selected camera was not found, the main one was opened.",
+
+  "controls.title": "Camera controls",
+  "controls.torch": "Torch",
+  "controls.manualFocus": "Manual focus",
+  "controls.manualExposure": "Manual exposure",
+  "controls.manualWhiteBalance": "Manual white balance",
+  "controls.focusDistance": "Focus distance, m",
+  "controls.exposureCompensation": "Exposure compensation, EV",
+  "controls.colorTemperature": "Colour temperature, K",
+  "controls.pending": "Available controls appear once the camera is running.",
+  "controls.none": "This camera or browser does not allow control of focus, exposure or light.",
+  "controls.hint":
+    "Only what the current camera supports is shown. Values are saved in the preset and fitted to another camera's range.",
+  "controls.rejected": "The camera rejected the settings: {message}",
+
+  "input.title": "Remote and gamepad",
+  "input.nextPreset": "Next preset",
+  "input.previousPreset": "Previous preset",
+  "input.menu": "Menu",
+  "input.click": "Click",
+  "input.cursorUp": "Cursor up",
+  "input.cursorDown": "Cursor down",
+  "input.cursorLeft": "Cursor left",
+  "input.cursorRight": "Cursor right",
+  "input.scaleUp": "Zoom in",
+  "input.scaleDown": "Zoom out",
+  "input.brightnessUp": "Brighter",
+  "input.brightnessDown": "Darker",
+  "input.magnifier": "Magnifier",
+  "input.key": "Key {name}",
+  "input.button": "Button {index}",
+  "input.axis": "Axis {index}{sign}",
+  "input.unbound": "Not assigned",
+  "input.learn": "Assign",
+  "input.learning": "Press a button…",
+  "input.clear": "Clear",
+  "input.defaults": "Default buttons",
+  "input.gamepads": "Gamepad: {names}",
+  "input.noGamepad":
+    "No gamepad found. The browser shows one after its first press; a remote in music mode works as a keyboard.",
+  "input.hint":
+    "“Assign” waits for a press on the remote, gamepad or keyboard and adds it to the action. A button only ever does one action.",
+
+  "presets.title": "Presets",
+  "presets.new": "New",
+  "presets.duplicate": "Duplicate",
+  "presets.factory": "Factory presets",
+  "presets.save": "Save preset",
+  "preset.normal": "Normal",
+  "preset.reading": "Reading",
+  "preset.tv": "TV",
+  "preset.numbered": "Preset {index}",
+  "preset.copy": "{name} (copy)",
+
+  "backup.title": "Backup",
+  "backup.export": "Export to file",
+  "backup.import": "Import from file",
+  "backup.copy": "Backup",
+  "backup.choose": "Choose what to replace:",
+  "backup.currentSettings": "Current settings",
+  "backup.newPreset": "New preset “{name}”",
+  "backup.preset": "Preset “{name}”",
+  "backup.renamed": " → “{name}”",
+  "backup.willAdd": "will be added",
+  "backup.apply": "Import",
+  "backup.notJson": "The file is not JSON.",
+  "backup.notBackup": "This is not a Phone VR Camera backup file.",
+  "backup.newer": "The file comes from a newer version of the app (v{version}). Update the app.",
+  "backup.noPresets": "The file contains no presets.",
+
+  "share.title": "Share calibration",
+  "share.qrAlt": "Calibration QR code",
+  "share.copyLink": "Copy link",
+  "share.broken": "The link is damaged.",
+  "share.version": "Unsupported link version (v{version}).",
+  "share.incomplete": "The link is incomplete.",
+  "share.checksum": "The link is damaged: the checksum does not match.",
+  "share.invalid": "The link contains invalid values.",
+
+  "viewer.title": "Viewer (Cardboard)",
+  "viewer.hint":
+    "Paste the link from the QR code on the viewer or scan it with the camera. The profile sets the lenses and applies on top of any preset.",
+  "viewer.add": "Add",
+  "viewer.scan": "Scan QR",
+  "viewer.scanning": "Scanning…",
+  "viewer.details": "lenses {lenses} mm, screen {screen} mm, k1 {k1}, k2 {k2}",
+  "viewer.startCamera": "Start the camera and point it at the viewer's QR code.",
+  "viewer.qrNotFound": "No QR code found. Hold it closer and try again.",
+  "viewer.defaultName": "Viewer",
+  "viewer.corrupt": "The viewer profile is damaged.",
+  "viewer.badDistances": "The viewer profile contains invalid distances.",
+  "viewer.emptyInput": "Paste a link or a viewer profile code.",
+  "viewer.notLink": "This is not a Cardboard profile link. Open short links in the browser first.",
+  "viewer.emptyProfile": "The viewer profile is empty.",
+  "viewer.noQrScan": "This browser cannot read QR codes.",
+
+  "capture.stereo": "Both eyes",
+  "capture.eye": "One eye",
+  "capture.camera": "Camera",
+
+  "snapshot.title": "Snapshot",
+  "snapshot.take": "Take snapshot",
+  "snapshot.open": "Open snapshot",
+  "snapshot.unnamed": "Snapshot",
+  "snapshot.named": "Snapshot “{name}”",
+  "snapshot.question": "Restore the settings from this snapshot?",
+  "snapshot.restore": "Restore",
+  "snapshot.noSettings": "This image contains no saved settings.",
+  "snapshot.newer":
+    "The snapshot comes from a newer version of the app (v{version}). Update the app.",
+
+  "recording.title": "Recording",
+  "recording.record": "Record",
+  "recording.stop": "Stop recording",
+  "recording.stopAt": "Stop recording {time}",
+  "recording.start": "Start recording",
+  "recording.indicator": "Rec {time}",
+  "recording.size": "{size} MB",
+
+  "ocr.title": "Text",
+  "ocr.recognize": "Recognise",
+  "ocr.busy": "Recognising...",
+  "ocr.speak": "Read aloud",
+  "ocr.stop": "Stop",
+  "ocr.placeholder": "Recognised text appears here",
+
+  "filters.title": "Filters",
+  "filters.none": "No filter",
+  "filter.edge": "Edge enhancement",
+  "filter.edge.threshold": "Edge threshold",
+  "filter.edge.strength": "Edge strength",
+  "filter.twoTone": "Two-tone contrast",
+  "filter.twoTone.threshold": "Threshold",
+  "filter.twoTone.dark": "Dark colour",
+  "filter.twoTone.light": "Light colour",
+  "filter.tint": "Colour tint",
+  "filter.tint.color": "Colour",
+  "filter.tint.strength": "Tint strength",
+  "filter.sharpen": "Sharpen",
+  "filter.sharpen.strength": "Sharpen strength",
+  "filter.invert": "Invert",
+
+  "image.title": "Image",
+  "image.contrast": "Contrast",
+  "image.brightness": "Brightness",
+  "image.gamma": "Gamma",
+  "image.temperature": "Temperature",
+  "image.highlights": "Highlights",
+  "image.shadows": "Shadows",
+
+  "align.title": "Eye alignment",
+  "align.leftX": "Left shift X",
+  "align.rightX": "Right shift X",
+  "align.scale": "Scale",
+  "align.separation": "Interpupillary offset",
+
+  "geometry.title": "Geometry in millimetres",
+  "geometry.physical": "Physical layout",
+  "geometry.regular": "Regular layout",
+  "geometry.screen": "Phone screen",
+  "geometry.unset": "Not set",
+  "geometry.custom": "Custom size",
+  "geometry.width": "Width, mm",
+  "geometry.height": "Height, mm",
+  "geometry.needScreen": "Set the phone screen; until then the regular layout is used.",
+  "geometry.interLens": "Distance between lenses, mm",
+  "geometry.ipd": "Interpupillary distance, mm",
+
+  "distortion.title": "Distortion",
+  "distortion.p1": "p1 (tangential)",
+  "distortion.p2": "p2 (tangential)",
+  "distortion.sphere": "Spherisation (edge)",
+  "distortion.sphereDiameter": "Sphere diameter (0-100)",
+  "distortion.tableActive": "A {count}-point lens table is active, k1–k3 are not used.",
+  "distortion.tableHint":
+    "Lens table: one \"r, r′\" line per point (up to {max}), r is the distance from the lens centre, 0.5 is the edge of the eye at any scale.",
+  "distortion.applyTable": "Apply table",
+  "distortion.loadCsv": "Load CSV",
+  "distortion.removeTable": "Remove table",
+  "lens.badRow": "Line {row}: expected two numbers \"r, r′\".",
+  "lens.tooShort": "The table needs at least two rows with r > 0.",
+  "lens.invalid": "The table has repeats, negative values or more than {max} rows.",
+
+  "lensPath.title": "Lens rendering",
+  "lensPath.mesh": "Distortion mesh",
+  "lensPath.shader": "Per pixel",
+  "lensPath.compare": "Compare",
+  "lensPath.comparing": "Comparing…",
+  "lensPath.report":
+    "Mesh: {meshMs} ms, per pixel: {shaderMs} ms per frame. Mesh {grid}×{grid}, deviation up to {error} camera px, mean frame difference {mean}/255 (99%: {p99}/255) — {verdict}",
+  "lensPath.within": "within tolerance.",
+  "lensPath.outside": "out of tolerance.",
+
+  "magnifier.title": "Magnifier",
+  "magnifier.zoom": "Magnifier zoom",
+  "magnifier.size": "Magnifier size",
+
+  "stabilization.title": "Stabilisation",
+  "stabilization.frames": "From frames",
+  "stabilization.recenter": "Recentre",
+  "stabilization.strength": "Strength, %",
+  "stabilization.window": "Smoothing window, ms",
+  "stabilization.hint":
+    "Cancels small head tremor; slow turns are followed. A double tap on the screen recentres the image.",
+  "stabilization.framesHint":
+    "“From frames” estimates motion from the picture itself, for phones with a noisy gyroscope.",
+  "stabilization.noGyro": "No gyroscope, motion is estimated from the camera frames.",
+  "stabilization.lowDetail":
+    "Too little detail in view: frame stabilisation waits until some appears.",
+  "stabilization.denied": "No access to the motion sensors.",
+
+  "gaze.title": "Gaze cursor",
+  "gaze.sensitivity": "Sensitivity",
+  "gaze.dwell": "Dwell time, ms",
+  "gaze.hint":
+    "In the headset menu the cursor follows your head. Rest it on a button until the ring fills and the button is pressed.",
+  "gaze.noMotion": "Motion sensors are not available in this browser.",
+
+  "tips.title": "Tips",
+  "tips.text":
+    "Use the grid for calibration. Increase the scale if the picture is too small. Adjust the interpupillary offset to the lenses.",
+
+  "schema.legacyScale": "Distortion coefficients k1/k2 were converted to the 0–100 scale.",
+  "schema.filterMode": "Filter mode “{mode}” was replaced by a filter chain.",
+  "schema.brownConrady":
+    "Coefficients k1/k2 were converted to the Brown–Conrady model; the picture is unchanged.",
+  "schema.tableCorrupt": "Field “{key}” was damaged, the lens table was reset.",
+  "schema.tableRowsDropped": "Invalid rows removed from the lens table: {count}.",
+  "schema.filtersCorrupt": "Field “{key}” was damaged, the filters were reset.",
+  "schema.filtersDropped": "Unknown or damaged filters removed: {count}.",
+  "schema.notBoolean": "Field “{key}” is not a boolean, set to {value}.",
+  "schema.notNumber": "Field “{key}” is not a number, set to {value}.",
+  "schema.outOfRange": "Field “{key}”: {value} is outside {min}…{max}, corrected to {clamped}.",
+  "schema.settingsReset": "The settings were damaged and have been reset.",
+  "schema.presetName": "Preset name “{name}” was corrected.",
+  "schema.presetColor": "The colour of preset “{name}” was reset.",
+  "schema.presetIssue": "“{name}”: {issue}",
+  "schema.presetsCorrupt": "The presets were damaged and have been reset.",
+  "schema.presetDropped": "Preset #{index} was damaged and removed.",
+  "schema.presetsReset": "The presets were reset.",
+  "schema.unreadable": "The saved data could not be read and was reset.",
+  "schema.newer": "The data was saved by a newer version of the app (v{version}) and was reset."
+};
@@ -0,0 +1,87 @@
+import { en } from "./en";
+import { MessageKey, ru } from "./ru";
+
+export type Locale = "ru" | "en";
+
+/** The stored choice; "auto" follows the browser's languages. */
+export type LocalePreference = Locale | "auto";
+
+export type MessageParams = Record<string, string | number>;
+
+export const locales: Array<{ locale: Locale; name: string }> = [
+  { locale: "ru", name: "Русский" },
+  { locale: "en", name: "English" }
+];
+
+const catalogues: Record<Locale, Record<MessageKey, string>> = { ru, en };
+
+// Stored per phone, like the camera choice, and read here rather than in
+// App: settings and presets are checked, with localised notes, on load.
+const LOCALE_KEY = "phone-vr-camera-locale";
+
+/** The first of the browser's languages that has a catalogue; English otherwise. */
+export const detectLocale = (languages: readonly string[]): Locale => {
+  for (const language of languages) {
+    const base = language.toLowerCase().split("-")[0];
+    const match = locales.find((item) => item.locale === base);
+    if (match) {
+      return match.locale;
+    }
+  }
+  return "en";
+};
+
+const browserLanguages = () =>
+  typeof navigator === "undefined"
+    ? []
+    : navigator.languages?.length
+      ? navigator.languages
+      : [navigator.language];
+
+export const resolveLocale = (preference: LocalePreference) =>
+  preference === "auto" ? detectLocale(browserLanguages()) : preference;
+
+export const loadLocalePreference = (): LocalePreference => {
+  const stored =
+    typeof window === "undefined" ? null : window.localStorage.getItem(LOCALE_KEY);
+  return locales.find((item) => item.locale === stored)?.locale ?? "auto";
+};
+
+export const saveLocalePreference = (preference: LocalePreference) => {
+  if (preference === "auto") {
+    window.localStorage.removeItem(LOCALE_KEY);
+  } else {
+    window.localStorage.setItem(LOCALE_KEY, preference);
+  }
+};
+
+let current: Locale = "ru";
+
+export const getLocale = () => current;
+
+/** Switches `t`; the caller re-renders whatever shows messages. */
+export const setLocale = (locale: Locale) => {
+  current = locale;
+  if (typeof document !== "undefined") {
+    document.documentElement.lang = locale;
+  }
+};
+
+setLocale(resolveLocale(loadLocalePreference()));
+
+/** BCP 47 tag for dates and numbers in the current language. */
+export const localeTag = () => (current === "ru" ? "ru-RU" : "en-GB");
+
+export const t = (key: MessageKey, params?: MessageParams) => {
+  const message = catalogues[current][key];
+  if (!params) {
+    return message;
+  }
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+};
+
+/** Whether `text` is the message for `key` in any language. */
+export const isMessage = (key: MessageKey, text: string) =>
+  locales.some((item) => catalogues[item.locale][key] === text);
@@ -0,0 +1,342 @@
+/**
+ * Russian catalogue. It defines the message keys; every other catalogue has
+ * to translate all of them. `{name}` placeholders are filled in by `t`.
+ */
+export const ru = {
+  "common.apply": "Применить",
+  "common.cancel": "Отмена",
+  "common.close": "Закрыть",
+  "common.delete": "Удалить",
+  "common.copy": "Копировать",
+  "common.share": "Поделиться",
+  "common.save": "Сохранить",
+  "common.update": "Обновить",
+  "common.auto": "Авто",
+  "common.on": "Вкл",
+  "common.off": "Выкл",
+  "common.dated": " от {date}",
+  "common.changesNone": "без изменений",
+  "common.changesMore": "{shown} и ещё {count}",
+
+  "language.title": "Язык · Language",
+  "language.auto": "Как в системе",
+
+  "orientation.title": "Поверните устройство",
+  "orientation.text": "Для корректной работы переведите телефон в альбомную ориентацию.",
+  "orientation.hint": "После поворота интерфейс появится автоматически.",
+  "install.title": "Добавьте на главный экран",
+  "install.text":
+    "Для полноценного опыта использования добавьте ссылку на главный экран. Нажмите \"поделиться\", затем выберите \"добавить на главный экран\" или \"добавить на экран домой\".",
+  "install.hint":
+    "После этого откройте приложение с рабочего стола. Оно запустится как полноценное приложение.",
+
+  "status.running": "Запущено",
+  "status.stopped": "Остановлено",
+  "mode.vr": "VR режим",
+  "mode.settings": "Обычный режим",
+
+  "hud.photo": "Фото",
+  "hud.calibration": "Калибровка",
+  "hud.settings": "Настройки",
+  "freeze.live": "Живое видео",
+  "freeze.freeze": "Стоп-кадр",
+  "vrMenu.readText": "Читать текст",
+  "panel.allSettings": "Все настройки",
+
+  "overlay.cameraError": "Ошибка камеры",
+  "overlay.starting": "Запуск камеры...",
+  "overlay.errorHint": "Разрешите доступ к камере в браузере и перезагрузите страницу.",
+  "overlay.startingHint":
+    "Ожидайте подключение камеры. Если не запускается — проверьте разрешения.",
+
+  "error.cameraDenied": "Доступ к камере запрещен. Разрешите камеру в настройках браузера.",
+  "error.cameraMissing": "На устройстве не найдена камера.",
+  "error.cameraBusy": "Камера уже используется другим приложением.",
+  "error.camera": "Ошибка камеры: {message}",
+  "error.unexpected": "Неожиданная ошибка камеры. Попробуйте снова.",
+  "error.cameraUnsupported": "Доступ к камере не поддерживается в этом браузере.",
+  "error.noVideo": "Не найден video элемент.",
+  "error.noCanvas": "Не найден canvas элемент.",
+
+  "update.banner": "Есть обновление · меню → «Обновить»",
+  "update.ready": "Доступна новая версия приложения. Пресеты и настройки сохранятся.",
+  "update.stopRecording": "Сначала остановите запись.",
+  "update.later": "Позже",
+
+  "issues.title": "При загрузке настроек исправлено:",
+  "issues.dismiss": "Понятно",
+
+  "fitting.received": "Получена калибровка",
+  "fitting.preset": "Пресет «{name}». ",
+  "fitting.question": "Применить сейчас или сохранить в слот?",
+  "fitting.into": "В «{name}»",
+  "fitting.newPreset": "Новый пресет",
+  "fitting.rejected": "Ссылка не принята",
+
+  "camera.title": "Камера",
+  "camera.distortion": "Дисторсия",
+  "camera.magnifier": "Лупа",
+  "camera.grid": "Сетка",
+  "camera.fringeTest": "Тест каёмок",
+  "camera.chromaRed": "Красный канал, %",
+  "camera.chromaGreen": "Зелёный канал, %",
+  "camera.chromaBlue": "Синий канал, %",
+  "camera.numbered": "Камера {index}",
+
+  "source.title": "Источник видео",
+  "source.camera": "Камера",
+  "source.defaultCamera": "Основная задняя",
+  "source.resolution": "Разрешение",
+  "source.frameRate": "Кадров в секунду",
+  "source.active":
+    "Сейчас: {mode}. Выбор хранится на этом телефоне; если камера не даёт точный режим, берётся ближайший.",
+  "source.activeRate": ", {rate} кадр/с",
+  "source.pending": "Список камер и их режимов появится после запуска камеры.",
+  "source.missing": "Выбранная камера не найдена, открыта основная.",
+
+  "controls.title": "Управление камерой",
+  "controls.torch": "Фонарик",
+  "controls.manualFocus": "Ручной фокус",
+  "controls.manualExposure": "Ручная экспозиция",
+  "controls.manualWhiteBalance": "Ручной баланс белого",
+  "controls.focusDistance": "Дистанция фокуса, м",
+  "controls.exposureCompensation": "Экспокоррекция, EV",
+  "controls.colorTemperature": "Цветовая температура, K",
+  "controls.pending": "Доступные настройки появятся после запуска камеры.",
+  "controls.none": "Эта камера или браузер не дают управлять фокусом, экспозицией и светом.",
+  "controls.hint":
+    "Показано только то, что умеет текущая камера. Значения сохраняются в профиль и подгоняются под диапазон другой камеры.",
+  "controls.rejected": "Камера не приняла настройки: {message}",
+
+  "input.title": "Пульт и геймпад",
+  "input.nextPreset": "Следующий профиль",
+  "input.previousPreset": "Предыдущий профиль",
+  "input.menu": "Меню",
+  "input.click": "Нажать",
+  "input.cursorUp": "Курсор вверх",
+  "input.cursorDown": "Курсор вниз",
+  "input.cursorLeft": "Курсор влево",
+  "input.cursorRight": "Курсор вправо",
+  "input.scaleUp": "Увеличить",
+  "input.scaleDown": "Уменьшить",
+  "input.brightnessUp": "Ярче",
+  "input.brightnessDown": "Темнее",
+  "input.magnifier": "Лупа",
+  "input.key": "Клавиша {name}",
+  "input.button": "Кнопка {index}",
+  "input.axis": "Ось {index}{sign}",
+  "input.unbound": "Не назначено",
+  "input.learn": "Назначить",
+  "input.learning": "Нажмите кнопку…",
+  "input.clear": "Очистить",
+  "input.defaults": "Кнопки по умолчанию",
+  "input.gamepads": "Геймпад: {names}",
+  "input.noGamepad":
+    "Геймпад не найден. Браузер показывает его после первого нажатия; пульт в режиме музыки работает как клавиатура.",
+  "input.hint":
+    "«Назначить» ждёт нажатия на пульте, геймпаде или клавиатуре и добавляет его к действию. Кнопка работает только для одного действия.",
+
+  "presets.title": "Профили",
+  "presets.new": "Новый",
+  "presets.duplicate": "Дублировать",
+  "presets.factory": "Заводские пресеты",
+  "presets.save": "Сохранить пресет",
+  "preset.normal": "Обычный",
+  "preset.reading": "Чтение",
+  "preset.tv": "ТВ",
+  "preset.numbered": "Пресет {index}",
+  "preset.copy": "{name} (копия)",
+
+  "backup.title": "Резервная копия",
+  "backup.export": "Экспорт в файл",
+  "backup.import": "Импорт из файла",
+  "backup.copy": "Копия",
+  "backup.choose": "Выберите, что заменить:",
+  "backup.currentSettings": "Текущие настройки",
+  "backup.newPreset": "Новый пресет «{name}»",
+  "backup.preset": "Пресет «{name}»",
+  "backup.renamed": " → «{name}»",
+  "backup.willAdd": "будет добавлен",
+  "backup.apply": "Импортировать",
+  "backup.notJson": "Файл не является JSON.",
+  "backup.notBackup": "Это не файл резервной копии Phone VR Camera.",
+  "backup.newer": "Файл создан более новой версией приложения (v{version}). Обновите приложение.",
+  "backup.noPresets": "В файле нет пресетов.",
+
+  "share.title": "Передать калибровку",
+  "share.qrAlt": "QR-код калибровки",
+  "share.copyLink": "Копировать ссылку",
+  "share.broken": "Ссылка повреждена.",
+  "share.version": "Неподдерживаемая версия ссылки (v{version}).",
+  "share.incomplete": "Ссылка неполная.",
+  "share.checksum": "Ссылка повреждена: контрольная сумма не совпадает.",
+  "share.invalid": "Ссылка содержит недопустимые значения.",
+
+  "viewer.title": "Очки (Cardboard)",
+  "viewer.hint":
+    "Вставьте ссылку из QR-кода на очках или отсканируйте его камерой. Профиль задаёт линзы и применяется поверх любого пресета.",
+  "viewer.add": "Добавить",
+  "viewer.scan": "Сканировать QR",
+  "viewer.scanning": "Сканирование…",
+  "viewer.details": "линзы {lenses} мм, экран {screen} мм, k1 {k1}, k2 {k2}",
+  "viewer.startCamera": "Включите камеру и наведите её на QR-код очков.",
+  "viewer.qrNotFound": "QR-код не найден. Поднесите его ближе и попробуйте снова.",
+  "viewer.defaultName": "Очки",
+  "viewer.corrupt": "Профиль очков повреждён.",
+  "viewer.badDistances": "Профиль очков содержит недопустимые расстояния.",
+  "viewer.emptyInput": "Вставьте ссылку или код профиля очков.",
+  "viewer.notLink":
+    "Это не ссылка на профиль Cardboard. Короткие ссылки сначала откройте в браузере.",
+  "viewer.emptyProfile": "Профиль очков пуст.",
+  "viewer.noQrScan": "Браузер не умеет распознавать QR-коды.",
+
+  "capture.stereo": "Оба глаза",
+  "capture.eye": "Один глаз",
+  "capture.camera": "Камера",
+
+  "snapshot.title": "Снимок",
+  "snapshot.take": "Сделать снимок",
+  "snapshot.open": "Открыть снимок",
+  "snapshot.unnamed": "Снимок",
+  "snapshot.named": "Снимок «{name}»",
+  "snapshot.question": "Восстановить настройки с этого снимка?",
+  "snapshot.restore": "Восстановить",
+  "snapshot.noSettings": "В этом изображении нет сохранённых настроек.",
+  "snapshot.newer":
+    "Снимок создан более новой версией приложения (v{version}). Обновите приложение.",
+
+  "recording.title": "Запись",
+  "recording.record": "Запись",
+  "recording.stop": "Стоп записи",
+  "recording.stopAt": "Стоп записи {time}",
+  "recording.start": "Начать запись",
+  "recording.indicator": "Запись {time}",
+  "recording.size": "{size} МБ",
+
+  "ocr.title": "Текст",
+  "ocr.recognize": "Распознать",
+  "ocr.busy": "Распознаём...",
+  "ocr.speak": "Озвучить",
+  "ocr.stop": "Остановить",
+  "ocr.placeholder": "Здесь появится распознанный текст",
+
+  "filters.title": "Фильтры",
+  "filters.none": "Без фильтра",
+  "filter.edge": "Контурная резкость",
+  "filter.edge.threshold": "Порог контура",
+  "filter.edge.strength": "Сила контура",
+  "filter.twoTone": "Двухцветный контраст",
+  "filter.twoTone.threshold": "Порог",
+  "filter.twoTone.dark": "Тёмный цвет",
+  "filter.twoTone.light": "Светлый цвет",
+  "filter.tint": "Цветовой оттенок",
+  "filter.tint.color": "Цвет",
+  "filter.tint.strength": "Сила оттенка",
+  "filter.sharpen": "Резкость",
+  "filter.sharpen.strength": "Сила резкости",
+  "filter.invert": "Инверсия",
+
+  "image.title": "Изображение",
+  "image.contrast": "Контраст",
+  "image.brightness": "Яркость",
+  "image.gamma": "Гамма",
+  "image.temperature": "Температура",
+  "image.highlights": "Светлые участки",
+  "image.shadows": "Тени",
+
+  "align.title": "Выравнивание глаз",
+  "align.leftX": "Левый сдвиг X",
+  "align.rightX": "Правый сдвиг X",
+  "align.scale": "Масштаб",
+  "align.separation": "Межзрачковое смещение",
+
+  "geometry.title": "Геометрия в миллиметрах",
+  "geometry.physical": "Физическая раскладка",
+  "geometry.regular": "Обычная раскладка",
+  "geometry.screen": "Экран телефона",
+  "geometry.unset": "Не задан",
+  "geometry.custom": "Свой размер",
+  "geometry.width": "Ширина, мм",
+  "geometry.height": "Высота, мм",
+  "geometry.needScreen": "Укажите экран телефона — до этого используется обычная раскладка.",
+  "geometry.interLens": "Расстояние между линзами, мм",
+  "geometry.ipd": "Межзрачковое расстояние, мм",
+
+  "distortion.title": "Дисторсия",
+  "distortion.p1": "p1 (тангенциальная)",
+  "distortion.p2": "p2 (тангенциальная)",
+  "distortion.sphere": "Сферизация (граница)",
+  "distortion.sphereDiameter": "Диаметр сферы (0-100)",
+  "distortion.tableActive": "Действует таблица линзы из {count} точек, k1–k3 не используются.",
+  "distortion.tableHint":
+    "Таблица линзы: по строке «r, r′» на точку (до {max}), r — расстояние от центра линзы, 0.5 — край глаза при любом масштабе.",
+  "distortion.applyTable": "Применить таблицу",
+  "distortion.loadCsv": "Загрузить CSV",
+  "distortion.removeTable": "Убрать таблицу",
+  "lens.badRow": "Строка {row}: ожидались два числа «r, r′».",
+  "lens.tooShort": "В таблице нужно хотя бы две строки с r > 0.",
+  "lens.invalid":
+    "Таблица содержит повторы, отрицательные значения или больше {max} строк.",
+
+  "lensPath.title": "Отрисовка линз",
+  "lensPath.mesh": "Сетка искажений",
+  "lensPath.shader": "Попиксельно",
+  "lensPath.compare": "Сравнить",
+  "lensPath.comparing": "Сравнение…",
+  "lensPath.report":
+    "Сетка: {meshMs} мс, попиксельно: {shaderMs} мс на кадр. Сетка {grid}×{grid}, отклонение до {error} пикс. камеры, разница кадров в среднем {mean}/255 (99%: {p99}/255) — {verdict}",
+  "lensPath.within": "в пределах допуска.",
+  "lensPath.outside": "вне допуска.",
+
+  "magnifier.title": "Лупа",
+  "magnifier.zoom": "Увеличение лупы",
+  "magnifier.size": "Размер лупы",
+
+  "stabilization.title": "Стабилизация",
+  "stabilization.frames": "По кадрам",
+  "stabilization.recenter": "Выровнять",
+  "stabilization.strength": "Сила, %",
+  "stabilization.window": "Окно сглаживания, мс",
+  "stabilization.hint":
+    "Гасит мелкое дрожание головы; медленные повороты изображение повторяет. Двойное касание экрана выравнивает картинку.",
+  "stabilization.framesHint":
+    "«По кадрам» оценивает движение по самой картинке — для телефонов с шумным гироскопом.",
+  "stabilization.noGyro": "Гироскоп недоступен, движение оценивается по кадрам камеры.",
+  "stabilization.lowDetail":
+    "В кадре мало деталей: стабилизация по кадрам ждёт, пока они появятся.",
+  "stabilization.denied": "Нет доступа к датчикам движения.",
+
+  "gaze.title": "Курсор взглядом",
+  "gaze.sensitivity": "Чувствительность",
+  "gaze.dwell": "Задержка выбора, мс",
+  "gaze.hint":
+    "В меню очков курсор следует за поворотом головы. Задержите его на кнопке — кольцо заполнится, и кнопка нажмётся.",
+  "gaze.noMotion": "Датчики движения недоступны в этом браузере.",
+
+  "tips.title": "Советы",
+  "tips.text":
+    "Используйте сетку для калибровки. Увеличьте масштаб, если картинка слишком маленькая. Отрегулируйте межзрачковое смещение под линзы.",
+
+  "schema.legacyScale": "Коэффициенты дисторсии k1/k2 переведены в шкалу 0–100.",
+  "schema.filterMode": "Режим фильтра «{mode}» заменён цепочкой фильтров.",
+  "schema.brownConrady":
+    "Коэффициенты k1/k2 переведены в модель Брауна–Конради, картинка не изменилась.",
+  "schema.tableCorrupt": "Поле «{key}» повреждено, таблица линзы сброшена.",
+  "schema.tableRowsDropped": "Из таблицы линзы удалено неверных строк: {count}.",
+  "schema.filtersCorrupt": "Поле «{key}» повреждено, фильтры сброшены.",
+  "schema.filtersDropped": "Удалено неизвестных или повреждённых фильтров: {count}.",
+  "schema.notBoolean": "Поле «{key}» не логическое, установлено {value}.",
+  "schema.notNumber": "Поле «{key}» не число, установлено {value}.",
+  "schema.outOfRange": "Поле «{key}»: {value} вне диапазона {min}…{max}, исправлено на {clamped}.",
+  "schema.settingsReset": "Настройки повреждены и сброшены.",
+  "schema.presetName": "Имя пресета «{name}» исправлено.",
+  "schema.presetColor": "Цвет пресета «{name}» сброшен.",
+  "schema.presetIssue": "«{name}»: {issue}",
+  "schema.presetsCorrupt": "Пресеты повреждены и сброшены.",
+  "schema.presetDropped": "Пресет №{index} повреждён и удалён.",
+  "schema.presetsReset": "Пресеты сброшены.",
+  "schema.unreadable": "Сохранённые данные не читаются и сброшены.",
+  "schema.newer": "Данные сохранены более новой версией приложения (v{version}) и сброшены."
+};
+
+export type MessageKey = keyof typeof ru;
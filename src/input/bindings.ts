@@ -0,0 +1,186 @@
+import { t } from "../i18n/locale";
+import type { MessageKey } from "../i18n/ru";
+
+/** What a remote or gamepad can do while the phone is in the headset. */
+export type InputAction =
+  | "nextPreset"
+  | "previousPreset"
+  | "menu"
+  | "click"
+  | "cursorUp"
+  | "cursorDown"
+  | "cursorLeft"
+  | "cursorRight"
+  | "scaleUp"
+  | "scaleDown"
+  | "brightnessUp"
+  | "brightnessDown"
+  | "magnifier";
+
+/**
+ * A key by its `code` (or its `key` where the remote sends no code), a
+ * gamepad button by index, or one direction of a gamepad axis. Buttons and
+ * axes are matched on any connected gamepad.
+ */
+export type InputBinding =
+  | { kind: "key"; code: string }
+  | { kind: "button"; index: number }
+  | { kind: "axis"; index: number; direction: 1 | -1 };
+
+export type InputBindings = Record<InputAction, InputBinding[]>;
+
+export const inputActions: Array<{ action: InputAction; label: MessageKey }> = [
+  { action: "nextPreset", label: "input.nextPreset" },
+  { action: "previousPreset", label: "input.previousPreset" },
+  { action: "menu", label: "input.menu" },
+  { action: "click", label: "input.click" },
+  { action: "cursorUp", label: "input.cursorUp" },
+  { action: "cursorDown", label: "input.cursorDown" },
+  { action: "cursorLeft", label: "input.cursorLeft" },
+  { action: "cursorRight", label: "input.cursorRight" },
+  { action: "scaleUp", label: "input.scaleUp" },
+  { action: "scaleDown", label: "input.scaleDown" },
+  { action: "brightnessUp", label: "input.brightnessUp" },
+  { action: "brightnessDown", label: "input.brightnessDown" },
+  { action: "magnifier", label: "input.magnifier" }
+];
+
+/** Actions that keep going while held; the rest fire once per press. */
+export const continuousActions: ReadonlySet<InputAction> = new Set<InputAction>([
+  "cursorUp",
+  "cursorDown",
+  "cursorLeft",
+  "cursorRight",
+  "scaleUp",
+  "scaleDown",
+  "brightnessUp",
+  "brightnessDown"
+]);
+
+const key = (code: string): InputBinding => ({ kind: "key", code });
+const button = (index: number): InputBinding => ({ kind: "button", index });
+const axis = (index: number, direction: 1 | -1): InputBinding => ({
+  kind: "axis",
+  index,
+  direction
+});
+
+/**
+ * Gamepad indices follow the standard mapping. Cheap VR remotes in their
+ * music mode send media keys, in their game mode they show up as a gamepad
+ * whose stick is axes 0 and 1.
+ */
+export const defaultBindings: InputBindings = {
+  nextPreset: [key("PageDown"), key("MediaTrackNext"), button(5)],
+  previousPreset: [key("PageUp"), key("MediaTrackPrevious"), button(4)],
+  menu: [key("Escape"), key("KeyM"), key("ContextMenu"), button(1), button(9)],
+  click: [key("Enter"), key("Space"), key("MediaPlayPause"), button(0)],
+  cursorUp: [key("ArrowUp"), button(12), axis(1, -1)],
+  cursorDown: [key("ArrowDown"), button(13), axis(1, 1)],
+  cursorLeft: [key("ArrowLeft"), button(14), axis(0, -1)],
+  cursorRight: [key("ArrowRight"), button(15), axis(0, 1)],
+  scaleUp: [key("Equal"), key("NumpadAdd"), button(7)],
+  scaleDown: [key("Minus"), key("NumpadSubtract"), button(6)],
+  brightnessUp: [key("BracketRight"), axis(3, -1)],
+  brightnessDown: [key("BracketLeft"), axis(3, 1)],
+  magnifier: [key("KeyZ"), button(3)]
+};
+
+export const sameBinding = (a: InputBinding, b: InputBinding) => {
+  switch (a.kind) {
+    case "key":
+      return b.kind === "key" && a.code === b.code;
+    case "button":
+      return b.kind === "button" && a.index === b.index;
+    case "axis":
+      return b.kind === "axis" && a.index === b.index && a.direction === b.direction;
+  }
+};
+
+export const actionsFor = (bindings: InputBindings, binding: InputBinding) =>
+  inputActions
+    .map((item) => item.action)
+    .filter((action) => bindings[action].some((item) => sameBinding(item, binding)));
+
+/** Binds `binding` to `action` alone: a press should never do two things. */
+export const assignBinding = (
+  bindings: InputBindings,
+  action: InputAction,
+  binding: InputBinding
+): InputBindings => {
+  const next = { ...bindings };
+  for (const item of inputActions) {
+    next[item.action] = bindings[item.action].filter((other) => !sameBinding(other, binding));
+  }
+  next[action] = [...next[action], binding];
+  return next;
+};
+
+export const clearBindings = (bindings: InputBindings, action: InputAction): InputBindings => ({
+  ...bindings,
+  [action]: []
+});
+
+const keyName = (code: string) => code.replace(/^Key(?=[A-Z]$)/, "").replace(/^Digit(?=\d$)/, "");
+
+export const bindingLabel = (binding: InputBinding) => {
+  switch (binding.kind) {
+    case "key":
+      return t("input.key", { name: keyName(binding.code) });
+    case "button":
+      return t("input.button", { index: binding.index });
+    case "axis":
+      return t("input.axis", { index: binding.index, sign: binding.direction > 0 ? "+" : "−" });
+  }
+};
+
+const validIndex = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 && value < 64;
+
+const parseBinding = (value: unknown): InputBinding | null => {
+  const item = value as Partial<Record<string, unknown>> | null;
+  if (!item || typeof item !== "object") {
+    return null;
+  }
+  if (item.kind === "key" && typeof item.code === "string" && item.code) {
+    return key(item.code);
+  }
+  if (item.kind === "button" && validIndex(item.index)) {
+    return button(item.index);
+  }
+  if (
+    item.kind === "axis" &&
+    validIndex(item.index) &&
+    (item.direction === 1 || item.direction === -1)
+  ) {
+    return axis(item.index, item.direction);
+  }
+  return null;
+};
+
+/** Stored per phone: which remote is paired is a property of the phone. */
+export const parseStoredBindings = (stored: string | null): InputBindings => {
+  if (!stored) {
+    return defaultBindings;
+  }
+  try {
+    const parsed = JSON.parse(stored) as Partial<Record<InputAction, unknown>> | null;
+    if (!parsed || typeof parsed !== "object") {
+      return defaultBindings;
+    }
+    const bindings = { ...defaultBindings };
+    for (const { action } of inputActions) {
+      const list = parsed[action];
+      if (Array.isArray(list)) {
+        bindings[action] = list
+          .map(parseBinding)
+          .filter((binding): binding is InputBinding => binding !== null);
+      }
+    }
+    return bindings;
+  } catch {
+    return defaultBindings;
+  }
+};
+
+export const serializeBindings = (bindings: InputBindings) => JSON.stringify(bindings);
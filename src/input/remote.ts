@@ -0,0 +1,218 @@
+import {
+  actionsFor,
+  continuousActions,
+  defaultBindings,
+  InputAction,
+  InputBinding,
+  InputBindings
+} from "./bindings";
+
+export type RemoteHandlers = {
+  /** Whether `action` should act right now; otherwise its keys keep their browser behaviour. */
+  handles: (action: InputAction) => boolean;
+  /** A one-shot action was pressed. */
+  trigger: (action: InputAction) => void;
+  /**
+   * A continuous action is held. `amount` is the frame's duration in seconds,
+   * scaled down while an axis is only partly pushed.
+   */
+  hold: (action: InputAction, amount: number) => void;
+};
+
+type PadState = {
+  buttons: boolean[];
+  axes: number[];
+};
+
+/** An axis counts as pressed past this, for one-shot actions and learning. */
+const AXIS_PRESS = 0.5;
+/** Below this an axis rests; continuous actions ramp up from here. */
+const AXIS_DEADZONE = 0.2;
+/** Long frames (a hidden tab, a stall) would jump the cursor. */
+const MAX_FRAME_SECONDS = 0.1;
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+const axisStrength = (value: number) =>
+  value > AXIS_DEADZONE ? Math.min(1, (value - AXIS_DEADZONE) / (1 - AXIS_DEADZONE)) : 0;
+
+/**
+ * Keyboard events and the Gamepad API, read as bindings. Bluetooth remotes
+ * arrive as either. Gamepads have no press events, so they are polled once
+ * a frame and presses are their rising edges; a pad's first frame only
+ * records its state, so a trigger resting at -1 is never read as a press.
+ */
+export class RemoteInput {
+  private bindings: InputBindings = defaultBindings;
+  private handlers: RemoteHandlers | null = null;
+  private learner: ((binding: InputBinding) => void) | null = null;
+  private heldKeys = new Set<string>();
+  private pads = new Map<number, PadState>();
+  private frame: number | null = null;
+  private lastTime: number | null = null;
+
+  setBindings(bindings: InputBindings) {
+    this.bindings = bindings;
+  }
+
+  start(handlers: RemoteHandlers) {
+    this.stop();
+    this.handlers = handlers;
+    window.addEventListener("keydown", this.handleKeyDown);
+    window.addEventListener("keyup", this.handleKeyUp);
+    window.addEventListener("blur", this.handleBlur);
+    this.frame = requestAnimationFrame(this.tick);
+  }
+
+  stop() {
+    window.removeEventListener("keydown", this.handleKeyDown);
+    window.removeEventListener("keyup", this.handleKeyUp);
+    window.removeEventListener("blur", this.handleBlur);
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+    this.handlers = null;
+    this.learner = null;
+    this.heldKeys.clear();
+    this.pads.clear();
+    this.lastTime = null;
+  }
+
+  /** Hands the next press from any key, button or axis to `onBinding` instead of acting on it. */
+  learn(onBinding: (binding: InputBinding) => void) {
+    this.learner = onBinding;
+  }
+
+  cancelLearn() {
+    this.learner = null;
+  }
+
+  /** Ids of the gamepads the browser exposes; empty until one had a button pressed. */
+  connectedPads() {
+    return this.gamepads().map((pad) => pad.id);
+  }
+
+  private gamepads() {
+    if (typeof navigator === "undefined" || !navigator.getGamepads) {
+      return [];
+    }
+    return Array.from(navigator.getGamepads()).filter(
+      (pad): pad is Gamepad => pad !== null && pad.connected
+    );
+  }
+
+  private activeActions(binding: InputBinding) {
+    const handles = this.handlers?.handles;
+    return handles ? actionsFor(this.bindings, binding).filter(handles) : [];
+  }
+
+  private press(binding: InputBinding) {
+    if (this.learner) {
+      const learner = this.learner;
+      this.learner = null;
+      learner(binding);
+      return;
+    }
+    for (const action of this.activeActions(binding)) {
+      if (!continuousActions.has(action)) {
+        this.handlers?.trigger(action);
+      }
+    }
+  }
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    const code = event.code || event.key;
+    if (!code || event.ctrlKey || event.metaKey || event.altKey) {
+      return;
+    }
+    if (this.learner) {
+      event.preventDefault();
+      if (!event.repeat) {
+        this.press({ kind: "key", code });
+      }
+      return;
+    }
+    if (isEditable(event.target) || this.activeActions({ kind: "key", code }).length === 0) {
+      return;
+    }
+    event.preventDefault();
+    this.heldKeys.add(code);
+    if (!event.repeat) {
+      this.press({ kind: "key", code });
+    }
+  };
+
+  private handleKeyUp = (event: KeyboardEvent) => {
+    this.heldKeys.delete(event.code || event.key);
+  };
+
+  private handleBlur = () => {
+    this.heldKeys.clear();
+  };
+
+  private tick = (time: number) => {
+    this.frame = requestAnimationFrame(this.tick);
+    const seconds =
+      this.lastTime === null ? 0 : Math.min(MAX_FRAME_SECONDS, (time - this.lastTime) / 1000);
+    this.lastTime = time;
+
+    const held = new Map<InputAction, number>();
+    const hold = (binding: InputBinding, strength: number) => {
+      for (const action of this.activeActions(binding)) {
+        if (continuousActions.has(action)) {
+          held.set(action, Math.max(held.get(action) ?? 0, strength));
+        }
+      }
+    };
+    for (const code of this.heldKeys) {
+      hold({ kind: "key", code }, 1);
+    }
+
+    const seen = new Set<number>();
+    for (const pad of this.gamepads()) {
+      seen.add(pad.index);
+      const previous = this.pads.get(pad.index);
+      const state: PadState = {
+        buttons: pad.buttons.map((item) => item.pressed),
+        axes: [...pad.axes]
+      };
+      this.pads.set(pad.index, state);
+      state.buttons.forEach((pressed, index) => {
+        if (!pressed) {
+          return;
+        }
+        if (previous && !previous.buttons[index]) {
+          this.press({ kind: "button", index });
+        }
+        hold({ kind: "button", index }, 1);
+      });
+      state.axes.forEach((value, index) => {
+        for (const direction of [1, -1] as const) {
+          const pushed = value * direction;
+          const before = (previous?.axes[index] ?? 0) * direction;
+          if (previous && pushed > AXIS_PRESS && before <= AXIS_PRESS) {
+            this.press({ kind: "axis", index, direction });
+          }
+          hold({ kind: "axis", index, direction }, axisStrength(pushed));
+        }
+      });
+    }
+    for (const index of this.pads.keys()) {
+      if (!seen.has(index)) {
+        this.pads.delete(index);
+      }
+    }
+
+    if (this.learner || seconds === 0) {
+      return;
+    }
+    for (const [action, strength] of held) {
+      if (strength > 0) {
+        this.handlers?.hold(action, strength * seconds);
+      }
+    }
+  };
+}
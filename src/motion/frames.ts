@@ -0,0 +1,86 @@
+import type { FrameMotion, LumaFrame } from "./registration";
+import type { RegistrationRequest, RegistrationResponse } from "./registration.worker";
+import { textureUnitsPerRadian } from "./stabilizer";
+
+// Frames in a row without a registration before the scene counts as bare.
+const LOST_AFTER_FRAMES = 10;
+
+// Reported for frames that could not be registered, so the stabiliser's
+// window catches up and the correction eases out instead of freezing.
+const NO_MOTION: FrameMotion = { dx: 0, dy: 0, rotation: 0, blocks: 0 };
+
+/**
+ * Head rotation, radians, that moves the scene by `motion` in the frame.
+ * Inverse of the pan `GLRenderer` applies for a stabiliser correction.
+ */
+export const frameMotionAngles = (
+  motion: FrameMotion,
+  videoAspect: number,
+  opticalZoom: number
+): [number, number, number] => {
+  const perRadian = textureUnitsPerRadian(opticalZoom);
+  return [motion.dx / perRadian, -motion.dy / (perRadian * videoAspect), -motion.rotation];
+};
+
+/**
+ * Registers consecutive camera frames on a worker. Frames that arrive while
+ * the previous one is still being matched are dropped; the next match then
+ * spans the gap. Frames without enough texture count as still, and when
+ * that goes on for a while `onTrackingChange(false)` fires.
+ */
+export class FrameRegistration {
+  private readonly worker: Worker;
+  private readonly onMotion: (time: number, motion: FrameMotion) => void;
+  private readonly onTrackingChange: (tracking: boolean) => void;
+  private busy = false;
+  private misses = 0;
+
+  constructor(
+    onMotion: (time: number, motion: FrameMotion) => void,
+    onTrackingChange: (tracking: boolean) => void
+  ) {
+    this.onMotion = onMotion;
+    this.onTrackingChange = onTrackingChange;
+    this.worker = new Worker(new URL("./registration.worker.ts", import.meta.url), {
+      type: "module"
+    });
+    this.worker.onmessage = (event: MessageEvent<RegistrationResponse>) =>
+      this.handleResponse(event.data);
+  }
+
+  submit(frame: LumaFrame) {
+    if (this.busy) {
+      return;
+    }
+    this.busy = true;
+    const request: RegistrationRequest = { type: "frame", frame };
+    this.worker.postMessage(request, [frame.luma.buffer]);
+  }
+
+  /** Starts over from the next frame, e.g. after the feed was frozen. */
+  reset() {
+    const request: RegistrationRequest = { type: "reset" };
+    this.worker.postMessage(request);
+  }
+
+  terminate() {
+    this.worker.terminate();
+  }
+
+  private handleResponse({ time, motion }: RegistrationResponse) {
+    this.busy = false;
+    if (!motion) {
+      this.misses += 1;
+      if (this.misses === LOST_AFTER_FRAMES) {
+        this.onTrackingChange(false);
+      }
+      this.onMotion(time, NO_MOTION);
+      return;
+    }
+    if (this.misses >= LOST_AFTER_FRAMES) {
+      this.onTrackingChange(true);
+    }
+    this.misses = 0;
+    this.onMotion(time, motion);
+  }
+}
@@ -0,0 +1,157 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import slowPan from "./fixtures/slow-pan.json";
+import { DwellTimer, GazePointer } from "./gaze";
+import { MotionListener, MotionSource, TraceMotionSource } from "./source";
+
+/** Hands readings to the pointer as the test makes them up. */
+class MockMotionSource implements MotionSource {
+  private listener: MotionListener | null = null;
+
+  async start(listener: MotionListener) {
+    this.listener = listener;
+  }
+
+  stop() {
+    this.listener = null;
+  }
+
+  emit(time: number, yawRate: number, pitchRate: number) {
+    this.listener?.({ time, yawRate, pitchRate, rollRate: 0 });
+  }
+}
+
+const track = (pointer: GazePointer) => {
+  const moves: Array<[number, number]> = [];
+  void pointer.start((dx, dy) => moves.push([dx, dy]));
+  return moves;
+};
+
+describe("GazePointer", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("moves the cursor the way the head turns", () => {
+    const source = new MockMotionSource();
+    const moves = track(new GazePointer(source));
+    source.emit(0, 0, 0);
+    // Turning left and tilting up: the cursor goes left and up.
+    source.emit(10, 1, 0);
+    source.emit(20, 0, 1);
+    // Turning right and tilting down: right and down.
+    source.emit(30, -2, -2);
+    expect(moves).toHaveLength(3);
+    expect(moves[0]?.[0]).toBeCloseTo(-0.015);
+    expect(moves[0]?.[1]).toBeCloseTo(0);
+    expect(moves[1]?.[0]).toBeCloseTo(0);
+    expect(moves[1]?.[1]).toBeCloseTo(-0.015);
+    expect(moves[2]?.[0]).toBeCloseTo(0.03);
+    expect(moves[2]?.[1]).toBeCloseTo(0.03);
+  });
+
+  it("scales the movement by the sensitivity", () => {
+    const source = new MockMotionSource();
+    const pointer = new GazePointer(source);
+    pointer.configure(3);
+    const moves = track(pointer);
+    source.emit(0, 0.5, -0.25);
+    source.emit(20, 0.5, -0.25);
+    expect(moves[0]?.[0]).toBeCloseTo(-0.03);
+    expect(moves[0]?.[1]).toBeCloseTo(0.015);
+  });
+
+  it("skips the first reading and gaps longer than the sensor's", () => {
+    const source = new MockMotionSource();
+    const moves = track(new GazePointer(source));
+    source.emit(1000, 1, 1);
+    expect(moves).toHaveLength(0);
+    // 100 ms still counts; a longer gap is a stall, not a head turn.
+    source.emit(1100, 1, 0);
+    source.emit(1201, 1, 0);
+    source.emit(1211, 1, 0);
+    // Readings out of order move nothing.
+    source.emit(1205, 1, 0);
+    expect(moves.map(([dx]) => dx)).toEqual([expect.closeTo(-0.15), expect.closeTo(-0.015)]);
+  });
+
+  it("starts counting again after a restart", () => {
+    const source = new MockMotionSource();
+    const pointer = new GazePointer(source);
+    const moves = track(pointer);
+    source.emit(0, 1, 0);
+    source.emit(10, 1, 0);
+    pointer.stop();
+    void pointer.start((dx, dy) => moves.push([dx, dy]));
+    source.emit(20, 1, 0);
+    expect(moves).toHaveLength(1);
+  });
+
+  it("follows a replayed turn", async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal("window", globalThis);
+    const pointer = new GazePointer(new TraceMotionSource(slowPan.samples));
+    const moves = track(pointer);
+    const samples = slowPan.samples;
+    await vi.advanceTimersByTimeAsync(
+      (samples[samples.length - 1]?.time ?? 0) - (samples[0]?.time ?? 0)
+    );
+    pointer.stop();
+
+    expect(moves).toHaveLength(samples.length - 1);
+    const turned = (slowPan.angles[samples.length - 1]?.[0] ?? 0) - (slowPan.angles[0]?.[0] ?? 0);
+    const dx = moves.reduce((sum, [x]) => sum + x, 0);
+    expect(dx).toBeLessThan(0);
+    expect(dx).toBeCloseTo(-turned * 1.5, 2);
+  });
+});
+
+describe("DwellTimer", () => {
+  it("selects a target once the cursor rested on it for the dwell", () => {
+    const timer = new DwellTimer<string>(800);
+    expect(timer.update("a", 1000)).toEqual({ progress: 0, selected: false });
+    expect(timer.update("a", 1400)).toEqual({ progress: 0.5, selected: false });
+    expect(timer.update("a", 1799).selected).toBe(false);
+    expect(timer.update("a", 1800)).toEqual({ progress: 1, selected: true });
+  });
+
+  it("does not fire again until the target is left and entered again", () => {
+    const timer = new DwellTimer<string>(800);
+    timer.update("a", 0);
+    expect(timer.update("a", 800).selected).toBe(true);
+    expect(timer.update("a", 900)).toEqual({ progress: 0, selected: false });
+    expect(timer.update("a", 5000).selected).toBe(false);
+
+    expect(timer.update(null, 5100)).toEqual({ progress: 0, selected: false });
+    expect(timer.update("a", 5200).selected).toBe(false);
+    expect(timer.update("a", 5999).selected).toBe(false);
+    expect(timer.update("a", 6000).selected).toBe(true);
+  });
+
+  it("starts the dwell over on another target", () => {
+    const timer = new DwellTimer<string>(800);
+    timer.update("a", 0);
+    timer.update("a", 700);
+    expect(timer.update("b", 750)).toEqual({ progress: 0, selected: false });
+    expect(timer.update("b", 1500).selected).toBe(false);
+    expect(timer.update("b", 1550).selected).toBe(true);
+  });
+
+  it("treats the target it was reset on as already selected", () => {
+    const timer = new DwellTimer<string>(800);
+    timer.reset("a");
+    timer.update("a", 0);
+    expect(timer.update("a", 2000).selected).toBe(false);
+    timer.update(null, 2100);
+    timer.update("a", 2200);
+    expect(timer.update("a", 3000).selected).toBe(true);
+  });
+
+  it("uses the configured dwell", () => {
+    const timer = new DwellTimer<string>(800);
+    timer.configure(200);
+    timer.update("a", 0);
+    expect(timer.update("a", 100).progress).toBeCloseTo(0.5);
+    expect(timer.update("a", 200).selected).toBe(true);
+  });
+});
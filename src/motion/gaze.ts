@@ -0,0 +1,103 @@
+import type { MotionSample, MotionSource } from "./source";
+
+/** Sensor gaps longer than this are not integrated; the head did not jump. */
+const MAX_SAMPLE_GAP_MS = 100;
+
+/** Cursor movement as a share of the eye's width and height. */
+export type GazeListener = (dx: number, dy: number) => void;
+
+/**
+ * Turns head rotation into cursor movement: turning the head left moves the
+ * cursor left, tilting it up moves the cursor up. `sensitivity` is the share
+ * of the eye crossed per radian, so 1.5 crosses the menu in about 40°.
+ * Rates are integrated from when the pointer starts, which is when the menu
+ * opens and the cursor is recentred, so there is no drift to correct.
+ */
+export class GazePointer {
+  private readonly source: MotionSource;
+  private sensitivity = 1.5;
+  private lastTime: number | null = null;
+
+  /** Pass a `TraceMotionSource` to drive the pointer from a recorded trace. */
+  constructor(source: MotionSource) {
+    this.source = source;
+  }
+
+  configure(sensitivity: number) {
+    this.sensitivity = sensitivity;
+  }
+
+  start(listener: GazeListener) {
+    this.lastTime = null;
+    return this.source.start((sample) => this.handleSample(sample, listener));
+  }
+
+  stop() {
+    this.source.stop();
+    this.lastTime = null;
+  }
+
+  private handleSample(sample: MotionSample, listener: GazeListener) {
+    const elapsed = this.lastTime === null ? 0 : sample.time - this.lastTime;
+    this.lastTime = sample.time;
+    if (elapsed <= 0 || elapsed > MAX_SAMPLE_GAP_MS) {
+      return;
+    }
+    const seconds = elapsed / 1000;
+    listener(
+      -sample.yawRate * seconds * this.sensitivity,
+      -sample.pitchRate * seconds * this.sensitivity
+    );
+  }
+}
+
+/**
+ * Selects a target once the cursor has rested on it for `dwellMs`. Times
+ * are passed in, so it runs on a frame clock in the app and on made-up
+ * times elsewhere. After a selection the same target has to be left and
+ * entered again before it can fire twice.
+ */
+export class DwellTimer<T> {
+  private dwellMs: number;
+  private target: T | null = null;
+  private since = 0;
+  private fired = false;
+
+  constructor(dwellMs: number) {
+    this.dwellMs = dwellMs;
+  }
+
+  configure(dwellMs: number) {
+    this.dwellMs = dwellMs;
+  }
+
+  /**
+   * Starts over. A `target` given here counts as already selected, so a
+   * cursor that opens on a button does not press it without moving.
+   */
+  reset(target: T | null = null) {
+    this.target = target;
+    this.fired = target !== null;
+  }
+
+  /**
+   * Progress towards selecting `target`, 0 to 1, and whether it was selected
+   * by this call.
+   */
+  update(target: T | null, time: number) {
+    if (target !== this.target) {
+      this.target = target;
+      this.since = time;
+      this.fired = false;
+    }
+    if (target === null || this.fired) {
+      return { progress: 0, selected: false };
+    }
+    const progress = Math.min(1, (time - this.since) / Math.max(1, this.dwellMs));
+    if (progress < 1) {
+      return { progress, selected: false };
+    }
+    this.fired = true;
+    return { progress: 1, selected: true };
+  }
+}
@@ -0,0 +1,222 @@
+/** A downsampled camera frame, one byte of luminance per pixel, rows bottom-up. */
+export type LumaFrame = {
+  time: number;
+  width: number;
+  height: number;
+  luma: Uint8Array;
+};
+
+/**
+ * How the scene moved from one frame to the next: translation in texture
+ * units (v up) and rotation about the frame centre, radians counter-clockwise.
+ */
+export type FrameMotion = {
+  dx: number;
+  dy: number;
+  rotation: number;
+  /** Blocks that agreed on the motion. */
+  blocks: number;
+};
+
+const BLOCK = 12;
+/** Largest shift looked for, in downsampled pixels. */
+const SEARCH = 6;
+// Blocks flatter than this (mean absolute deviation, 0–255) carry no texture.
+const MIN_CONTRAST = 4;
+// Both axes of the best match have to be this much better than their
+// neighbours, or the block sits on a straight edge and only knows one axis.
+const MIN_CURVATURE = 0.08;
+const MIN_BLOCKS = 4;
+const MAX_RESIDUAL = 1.5;
+
+type BlockMatch = {
+  x: number;
+  y: number;
+  dx: number;
+  dy: number;
+};
+
+const blockMean = (frame: LumaFrame, x0: number, y0: number) => {
+  let sum = 0;
+  for (let y = y0; y < y0 + BLOCK; y += 1) {
+    const row = y * frame.width;
+    for (let x = x0; x < x0 + BLOCK; x += 1) {
+      sum += frame.luma[row + x] ?? 0;
+    }
+  }
+  return sum / (BLOCK * BLOCK);
+};
+
+const blockContrast = (frame: LumaFrame, x0: number, y0: number, mean: number) => {
+  let sum = 0;
+  for (let y = y0; y < y0 + BLOCK; y += 1) {
+    const row = y * frame.width;
+    for (let x = x0; x < x0 + BLOCK; x += 1) {
+      sum += Math.abs((frame.luma[row + x] ?? 0) - mean);
+    }
+  }
+  return sum / (BLOCK * BLOCK);
+};
+
+// Mean absolute difference with both blocks brought to zero mean, so auto
+// exposure stepping between frames does not read as motion.
+const blockDifference = (
+  previous: LumaFrame,
+  current: LumaFrame,
+  x0: number,
+  y0: number,
+  previousMean: number,
+  dx: number,
+  dy: number
+) => {
+  const offset = previousMean - blockMean(current, x0 + dx, y0 + dy);
+  let sum = 0;
+  for (let y = y0; y < y0 + BLOCK; y += 1) {
+    const previousRow = y * previous.width;
+    const currentRow = (y + dy) * current.width + dx;
+    for (let x = x0; x < x0 + BLOCK; x += 1) {
+      sum += Math.abs(
+        (previous.luma[previousRow + x] ?? 0) - (current.luma[currentRow + x] ?? 0) - offset
+      );
+    }
+  }
+  return sum / (BLOCK * BLOCK);
+};
+
+// Sub-pixel offset of a minimum, -0.5..0.5, fitting a V through the three
+// samples: absolute differences grow linearly, so a parabola would be biased.
+const subPixel = (before: number, at: number, after: number) => {
+  const slope = Math.max(before, after) - at;
+  return slope > 0 ? Math.max(-0.5, Math.min(0.5, (before - after) / (2 * slope))) : 0;
+};
+
+const matchBlock = (
+  previous: LumaFrame,
+  current: LumaFrame,
+  x0: number,
+  y0: number
+): BlockMatch | null => {
+  const mean = blockMean(previous, x0, y0);
+  const contrast = blockContrast(previous, x0, y0, mean);
+  if (contrast < MIN_CONTRAST) {
+    return null;
+  }
+  const size = SEARCH * 2 + 1;
+  const costs = new Float32Array(size * size);
+  let best = 0;
+  for (let dy = -SEARCH; dy <= SEARCH; dy += 1) {
+    for (let dx = -SEARCH; dx <= SEARCH; dx += 1) {
+      const index = (dy + SEARCH) * size + dx + SEARCH;
+      costs[index] = blockDifference(previous, current, x0, y0, mean, dx, dy);
+      if ((costs[index] ?? 0) < (costs[best] ?? 0)) {
+        best = index;
+      }
+    }
+  }
+  const bestX = best % size;
+  const bestY = Math.floor(best / size);
+  // A minimum on the border may lie beyond the search range.
+  if (bestX === 0 || bestY === 0 || bestX === size - 1 || bestY === size - 1) {
+    return null;
+  }
+  const cost = (x: number, y: number) => costs[y * size + x] ?? 0;
+  const at = cost(bestX, bestY);
+  const left = cost(bestX - 1, bestY);
+  const right = cost(bestX + 1, bestY);
+  const below = cost(bestX, bestY - 1);
+  const above = cost(bestX, bestY + 1);
+  if (Math.min(left, right) - at < contrast * MIN_CURVATURE) {
+    return null;
+  }
+  if (Math.min(below, above) - at < contrast * MIN_CURVATURE) {
+    return null;
+  }
+  return {
+    x: x0 + BLOCK / 2,
+    y: y0 + BLOCK / 2,
+    dx: bestX - SEARCH + subPixel(left, at, right),
+    dy: bestY - SEARCH + subPixel(below, at, above)
+  };
+};
+
+/**
+ * Least-squares translation and small rotation that carry the block centres
+ * along their matched shifts: d ≈ t + θ·(−y, x) around the frame centre.
+ */
+const fitRigid = (matches: BlockMatch[], width: number, height: number) => {
+  const count = matches.length;
+  let meanX = 0;
+  let meanY = 0;
+  let meanDx = 0;
+  let meanDy = 0;
+  matches.forEach((match) => {
+    meanX += match.x - width / 2;
+    meanY += match.y - height / 2;
+    meanDx += match.dx;
+    meanDy += match.dy;
+  });
+  meanX /= count;
+  meanY /= count;
+  meanDx /= count;
+  meanDy /= count;
+  let torque = 0;
+  let inertia = 0;
+  matches.forEach((match) => {
+    const x = match.x - width / 2 - meanX;
+    const y = match.y - height / 2 - meanY;
+    torque += x * (match.dy - meanDy) - y * (match.dx - meanDx);
+    inertia += x * x + y * y;
+  });
+  const rotation = inertia > 0 ? torque / inertia : 0;
+  return {
+    tx: meanDx + rotation * meanY,
+    ty: meanDy - rotation * meanX,
+    rotation
+  };
+};
+
+/**
+ * Block matching between two frames of the same size. Blocks without
+ * texture, on straight edges or moving beyond the search range are skipped,
+ * and blocks that disagree with the first fit (a passing car, a hand) are
+ * dropped before the second. Null when too few blocks remain to tell.
+ */
+export const registerFrames = (previous: LumaFrame, current: LumaFrame): FrameMotion | null => {
+  if (previous.width !== current.width || previous.height !== current.height) {
+    return null;
+  }
+  const { width, height } = current;
+  const matches: BlockMatch[] = [];
+  for (let y0 = SEARCH; y0 + BLOCK + SEARCH <= height; y0 += BLOCK) {
+    for (let x0 = SEARCH; x0 + BLOCK + SEARCH <= width; x0 += BLOCK) {
+      const match = matchBlock(previous, current, x0, y0);
+      if (match) {
+        matches.push(match);
+      }
+    }
+  }
+  if (matches.length < MIN_BLOCKS) {
+    return null;
+  }
+  const first = fitRigid(matches, width, height);
+  const inliers = matches.filter((match) => {
+    const x = match.x - width / 2;
+    const y = match.y - height / 2;
+    return (
+      Math.hypot(
+        match.dx - (first.tx - first.rotation * y),
+        match.dy - (first.ty + first.rotation * x)
+      ) <= MAX_RESIDUAL
+    );
+  });
+  if (inliers.length < MIN_BLOCKS) {
+    return null;
+  }
+  const fit = fitRigid(inliers, width, height);
+  return {
+    dx: fit.tx / width,
+    dy: fit.ty / height,
+    rotation: fit.rotation,
+    blocks: inliers.length
+  };
+};
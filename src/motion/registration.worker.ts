@@ -0,0 +1,26 @@
+import { FrameMotion, LumaFrame, registerFrames } from "./registration";
+
+export type RegistrationRequest = { type: "frame"; frame: LumaFrame } | { type: "reset" };
+
+export type RegistrationResponse = {
+  time: number;
+  /** Null when the frames had too little texture to register. */
+  motion: FrameMotion | null;
+};
+
+let previous: LumaFrame | null = null;
+
+self.onmessage = (event: MessageEvent<RegistrationRequest>) => {
+  const request = event.data;
+  if (request.type === "reset") {
+    previous = null;
+    return;
+  }
+  const last = previous;
+  previous = request.frame;
+  const response: RegistrationResponse = {
+    time: request.frame.time,
+    motion: last ? registerFrames(last, request.frame) : null
+  };
+  self.postMessage(response);
+};
@@ -0,0 +1,206 @@
+import { t } from "../i18n/locale";
+
+/**
+ * Head rotation rate in the screen's frame, radians per second. Yaw turns
+ * about the screen's vertical axis (positive turns the rear camera left),
+ * pitch about its horizontal axis (positive tilts the rear camera up) and
+ * roll about its normal (positive turns the phone counter-clockwise as its
+ * wearer sees it).
+ */
+export type MotionSample = {
+  /** Milliseconds, on the `performance.now()` clock. */
+  time: number;
+  yawRate: number;
+  pitchRate: number;
+  rollRate: number;
+};
+
+export type MotionListener = (sample: MotionSample) => void;
+
+/**
+ * Anything that reports head rotation: the phone's sensors in the app, a
+ * recorded trace when checking the stabiliser against known motion.
+ */
+export type MotionSource = {
+  start: (listener: MotionListener) => Promise<void>;
+  stop: () => void;
+};
+
+type GyroscopeLike = EventTarget & {
+  x: number | null;
+  y: number | null;
+  z: number | null;
+  timestamp: number | null;
+  start: () => void;
+  stop: () => void;
+};
+
+type GyroscopeConstructor = new (options: {
+  frequency: number;
+  referenceFrame: "device" | "screen";
+}) => GyroscopeLike;
+
+type MotionPermission = {
+  requestPermission?: () => Promise<"granted" | "denied">;
+};
+
+const GYROSCOPE_HZ = 60;
+
+const DEG_TO_RAD = Math.PI / 180;
+
+const gyroscope = () =>
+  (window as Window & { Gyroscope?: GyroscopeConstructor }).Gyroscope;
+
+export const supportsMotion = () =>
+  typeof window !== "undefined" && ("DeviceMotionEvent" in window || Boolean(gyroscope()));
+
+/**
+ * iOS only reports motion after the user allowed it, and only asks from a
+ * user gesture, so call this from a click handler before starting a source.
+ */
+export const requestMotionPermission = async () => {
+  const request = (window.DeviceMotionEvent as unknown as MotionPermission | undefined)
+    ?.requestPermission;
+  if (!request) {
+    return true;
+  }
+  try {
+    return (await request()) === "granted";
+  } catch {
+    return false;
+  }
+};
+
+const screenAngle = () =>
+  (window.screen.orientation?.angle ??
+    (window as Window & { orientation?: number }).orientation ??
+    0) * DEG_TO_RAD;
+
+/**
+ * Reads the Generic Sensor `Gyroscope` in the screen's frame where the
+ * browser has it, otherwise `devicemotion` rotation rates, which come in the
+ * portrait device frame and are turned by the screen orientation here.
+ */
+export class SensorMotionSource implements MotionSource {
+  private sensor: GyroscopeLike | null = null;
+  private listener: MotionListener | null = null;
+  private listening = false;
+
+  async start(listener: MotionListener) {
+    this.stop();
+    if (!(await requestMotionPermission())) {
+      throw new Error(t("stabilization.denied"));
+    }
+    this.listener = listener;
+    const Gyroscope = gyroscope();
+    if (Gyroscope) {
+      try {
+        const sensor = new Gyroscope({ frequency: GYROSCOPE_HZ, referenceFrame: "screen" });
+        sensor.addEventListener("reading", this.handleReading);
+        sensor.addEventListener("error", this.handleSensorError);
+        sensor.start();
+        this.sensor = sensor;
+        return;
+      } catch {
+        // Blocked by permissions policy: fall back to devicemotion.
+      }
+    }
+    this.listenToDeviceMotion();
+  }
+
+  stop() {
+    this.sensor?.stop();
+    this.sensor?.removeEventListener("reading", this.handleReading);
+    this.sensor?.removeEventListener("error", this.handleSensorError);
+    this.sensor = null;
+    if (this.listening) {
+      window.removeEventListener("devicemotion", this.handleDeviceMotion);
+      this.listening = false;
+    }
+    this.listener = null;
+  }
+
+  private listenToDeviceMotion() {
+    window.addEventListener("devicemotion", this.handleDeviceMotion);
+    this.listening = true;
+  }
+
+  private handleReading = () => {
+    const sensor = this.sensor;
+    if (!sensor || sensor.x === null || sensor.y === null || sensor.z === null) {
+      return;
+    }
+    this.listener?.({
+      time: sensor.timestamp ?? performance.now(),
+      yawRate: sensor.y,
+      pitchRate: sensor.x,
+      rollRate: sensor.z
+    });
+  };
+
+  private handleSensorError = () => {
+    this.sensor?.stop();
+    this.sensor = null;
+    this.listenToDeviceMotion();
+  };
+
+  private handleDeviceMotion = (event: DeviceMotionEvent) => {
+    const rate = event.rotationRate;
+    if (!rate || rate.alpha === null || rate.beta === null || rate.gamma === null) {
+      return;
+    }
+    const angle = screenAngle();
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const aboutX = rate.beta * DEG_TO_RAD;
+    const aboutY = rate.gamma * DEG_TO_RAD;
+    this.listener?.({
+      time: event.timeStamp,
+      yawRate: aboutX * sin + aboutY * cos,
+      pitchRate: aboutX * cos - aboutY * sin,
+      rollRate: rate.alpha * DEG_TO_RAD
+    });
+  };
+}
+
+/**
+ * Replays recorded samples with their original spacing, shifted to start
+ * now. Traces are plain `MotionSample` arrays, as collected from a listener.
+ */
+export class TraceMotionSource implements MotionSource {
+  private readonly samples: MotionSample[];
+  private timer = 0;
+
+  constructor(samples: MotionSample[]) {
+    this.samples = samples;
+  }
+
+  async start(listener: MotionListener) {
+    this.stop();
+    const first = this.samples[0];
+    if (!first) {
+      return;
+    }
+    const startedAt = performance.now();
+    let index = 0;
+    const next = () => {
+      const sample = this.samples[index];
+      if (!sample) {
+        this.timer = 0;
+        return;
+      }
+      index += 1;
+      listener({ ...sample, time: startedAt + sample.time - first.time });
+      const following = this.samples[index];
+      this.timer = following
+        ? window.setTimeout(next, Math.max(0, following.time - sample.time))
+        : 0;
+    };
+    next();
+  }
+
+  stop() {
+    window.clearTimeout(this.timer);
+    this.timer = 0;
+  }
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import slowPan from "./fixtures/slow-pan.json";
+import tremor from "./fixtures/tremor.json";
+import type { MotionSample } from "./source";
+import { MAX_CORRECTION_RAD, Stabilizer } from "./stabilizer";
+
+/**
+ * Synthesised traces in the form a listener records them (about 60 Hz,
+ * uneven spacing, gyro noise, one dropped reading), with the head angles
+ * each reading was taken at. `tremor` is a head held still with an 8 Hz shake of about a quarter
+ * degree; `slow-pan` adds a 7°/s turn from 1.2 s to 3.2 s.
+ */
+type Trace = {
+  samples: MotionSample[];
+  angles: number[][];
+};
+
+const WINDOW_MS = 500;
+
+const drive = (trace: Trace, stabilizer: Stabilizer, from = 0, to = trace.samples.length) => {
+  const corrections: Array<[number, number, number]> = [];
+  trace.samples.slice(from, to).forEach((sample) => {
+    stabilizer.push(sample);
+    corrections.push(stabilizer.correction());
+  });
+  return corrections;
+};
+
+const angleAt = (trace: Trace, index: number, axis: number) => trace.angles[index]?.[axis] ?? NaN;
+
+/** The mean head angle over the window ending at `index`, what a steady view shows. */
+const windowMean = (trace: Trace, index: number, axis: number) => {
+  const end = trace.samples[index]?.time ?? NaN;
+  let sum = 0;
+  let count = 0;
+  trace.samples.forEach((sample, other) => {
+    if (other <= index && sample.time >= end - WINDOW_MS) {
+      sum += angleAt(trace, other, axis);
+      count += 1;
+    }
+  });
+  return sum / count;
+};
+
+/** Indices whose window is full: the first window is still filling. */
+const settled = (trace: Trace) => {
+  const start = (trace.samples[0]?.time ?? 0) + WINDOW_MS;
+  return trace.samples.flatMap((sample, index) => (sample.time >= start ? [index] : []));
+};
+
+const rms = (values: number[]) =>
+  Math.sqrt(values.reduce((sum, value) => sum + value * value, 0) / values.length);
+
+describe("Stabilizer", () => {
+  it("counters the tremor in a trace", () => {
+    const corrections = drive(tremor, new Stabilizer({ strength: 1, windowMs: WINDOW_MS }));
+    const indices = settled(tremor);
+    [0, 1, 2].forEach((axis) => {
+      const shake = indices.map(
+        (index) => angleAt(tremor, index, axis) - windowMean(tremor, index, axis)
+      );
+      const residual = indices.map(
+        (index, position) => (shake[position] ?? 0) - (corrections[index]?.[axis] ?? 0)
+      );
+      // The correction is the shake itself, so what remains on screen is a fraction of it.
+      expect(rms(residual)).toBeLessThan(rms(shake) * 0.2);
+    });
+  });
+
+  it("scales the counter-shift by the strength", () => {
+    const full = drive(tremor, new Stabilizer({ strength: 1, windowMs: WINDOW_MS }));
+    const half = drive(tremor, new Stabilizer({ strength: 0.5, windowMs: WINDOW_MS }));
+    settled(tremor).forEach((index) => {
+      expect(half[index]?.[0]).toBeCloseTo((full[index]?.[0] ?? 0) / 2, 9);
+    });
+  });
+
+  it("follows a slow turn instead of holding the view against it", () => {
+    const corrections = drive(slowPan, new Stabilizer({ strength: 1, windowMs: WINDOW_MS }));
+    const last = slowPan.samples.length - 1;
+    const turned = angleAt(slowPan, last, 0) - angleAt(slowPan, 0, 0);
+    expect(turned).toBeGreaterThan(0.2);
+
+    // During the turn the view lags it by at most half a window's motion,
+    // plus the shake; the correction never reaches the whole turn.
+    const lag = 0.12 * (WINDOW_MS / 2000);
+    const shake = 0.008;
+    corrections.forEach(([yaw]) => {
+      expect(Math.abs(yaw)).toBeLessThan(lag + shake);
+      expect(Math.abs(yaw)).toBeLessThanOrEqual(MAX_CORRECTION_RAD);
+    });
+
+    // A window after the turn the view has caught up: only the shake is left.
+    const endOfTurn = slowPan.samples.findIndex(
+      (sample) => sample.time - (slowPan.samples[0]?.time ?? 0) >= 3400 + WINDOW_MS
+    );
+    corrections.slice(endOfTurn).forEach(([yaw]) => {
+      expect(Math.abs(yaw)).toBeLessThan(shake);
+    });
+  });
+
+  it("starts over from the current view on recenter", () => {
+    const stabilizer = new Stabilizer({ strength: 1, windowMs: WINDOW_MS });
+    const middle = Math.floor(slowPan.samples.length / 2);
+    const before = drive(slowPan, stabilizer, 0, middle);
+    expect(Math.abs(before[before.length - 1]?.[0] ?? 0)).toBeGreaterThan(0.001);
+
+    stabilizer.recenter();
+    expect(stabilizer.correction()).toEqual([0, 0, 0]);
+    // The first reading after a recenter only sets the start: nothing moved yet.
+    stabilizer.push(slowPan.samples[middle] as MotionSample);
+    expect(stabilizer.correction()).toEqual([0, 0, 0]);
+
+    // From there on it is a stabiliser that started at this reading.
+    const fresh = new Stabilizer({ strength: 1, windowMs: WINDOW_MS });
+    expect(drive(slowPan, stabilizer, middle + 1)).toEqual(drive(slowPan, fresh, middle).slice(1));
+  });
+});
@@ -0,0 +1,124 @@
+import type { MotionSample } from "./source";
+
+export type StabilizerOptions = {
+  /** Share of the tremor that is cancelled, 0–1. */
+  strength: number;
+  /** Motion slower than this window counts as intended and is followed. */
+  windowMs: number;
+};
+
+type HeadAngle = {
+  time: number;
+  yaw: number;
+  pitch: number;
+  roll: number;
+};
+
+// Longer sensor gaps (tab hidden, sensor restarted) are not integrated.
+const MAX_SAMPLE_GAP_MS = 250;
+
+/** Largest counter-rotation, so a fast turn never drags the image far off. */
+export const MAX_CORRECTION_RAD = (4 * Math.PI) / 180;
+
+// Horizontal field of view of a typical main phone camera at 1× zoom.
+const CAMERA_HFOV_DEG = 66;
+
+/** Texture widths a camera turn of one radian moves the image by. */
+export const textureUnitsPerRadian = (opticalZoom: number) =>
+  opticalZoom / (2 * Math.tan(((CAMERA_HFOV_DEG / 2) * Math.PI) / 180));
+
+const clamp = (value: number, limit: number) => Math.min(limit, Math.max(-limit, value));
+
+/**
+ * Accumulates head rotation and splits it into intended motion, the mean
+ * angle over the smoothing window, and tremor, the rest. `correction` is the
+ * tremor to counter so only the intended motion shows. Gyro bias and frame
+ * registration error accumulate into a slow drift, which the window follows.
+ */
+export class Stabilizer {
+  private options: StabilizerOptions;
+  private yaw = 0;
+  private pitch = 0;
+  private roll = 0;
+  private last: MotionSample | null = null;
+  private history: HeadAngle[] = [];
+
+  constructor(options: StabilizerOptions) {
+    this.options = { ...options };
+  }
+
+  configure(options: StabilizerOptions) {
+    this.options = { ...options };
+    this.trim();
+  }
+
+  /** Integrates a rotation rate reading. */
+  push(sample: MotionSample) {
+    const last = this.last;
+    this.last = sample;
+    if (!last || sample.time <= last.time || sample.time - last.time > MAX_SAMPLE_GAP_MS) {
+      return;
+    }
+    // Trapezoids: integrating the rate at either end alone lags or leads
+    // the tremor by half a sample, which is a lot of a 10 Hz shake.
+    const seconds = (sample.time - last.time) / 2000;
+    this.move(
+      sample.time,
+      (last.yawRate + sample.yawRate) * seconds,
+      (last.pitchRate + sample.pitchRate) * seconds,
+      (last.rollRate + sample.rollRate) * seconds
+    );
+  }
+
+  /** Adds a rotation measured since the previous one, radians. */
+  move(time: number, yaw: number, pitch: number, roll: number) {
+    this.yaw += yaw;
+    this.pitch += pitch;
+    this.roll += roll;
+    this.history.push({ time, yaw: this.yaw, pitch: this.pitch, roll: this.roll });
+    this.trim();
+  }
+
+  /** Forgets the motion so far: the current view becomes the steady one. */
+  recenter() {
+    this.yaw = 0;
+    this.pitch = 0;
+    this.roll = 0;
+    this.last = null;
+    this.history = [];
+  }
+
+  /** Yaw, pitch and roll tremor in radians, scaled by the strength. */
+  correction(): [number, number, number] {
+    const count = this.history.length;
+    if (count === 0) {
+      return [0, 0, 0];
+    }
+    let yaw = 0;
+    let pitch = 0;
+    let roll = 0;
+    this.history.forEach((angle) => {
+      yaw += angle.yaw;
+      pitch += angle.pitch;
+      roll += angle.roll;
+    });
+    const strength = Math.min(1, Math.max(0, this.options.strength));
+    return [
+      clamp(this.yaw - yaw / count, MAX_CORRECTION_RAD) * strength,
+      clamp(this.pitch - pitch / count, MAX_CORRECTION_RAD) * strength,
+      clamp(this.roll - roll / count, MAX_CORRECTION_RAD) * strength
+    ];
+  }
+
+  private trim() {
+    const newest = this.history[this.history.length - 1];
+    if (!newest) {
+      return;
+    }
+    const oldest = newest.time - this.options.windowMs;
+    const first = this.history.findIndex((angle) => angle.time >= oldest);
+    if (first > 0) {
+      this.history.splice(0, first);
+    }
+  }
+}
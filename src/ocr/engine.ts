@@ -0,0 +1,109 @@
+import { createWorker, OEM, Worker } from "tesseract.js";
+import workerUrl from "tesseract.js/dist/worker.min.js?url";
+import coreUrl from "tesseract.js-core/tesseract-core-lstm.wasm.js?url";
+import coreSimdUrl from "tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url";
+import { ocrLanguages } from "virtual:ocr-languages";
+
+export type OcrLanguage = "rus" | "eng";
+
+export type OcrBox = [number, number, number, number];
+
+export type OcrBlock = {
+  text: string;
+  confidence: number;
+  /** Camera UV rectangle: u0, v0, u1, v1 with v pointing up like the textures. */
+  box: OcrBox;
+};
+
+export type OcrResult = {
+  text: string;
+  blocks: OcrBlock[];
+  language: OcrLanguage;
+};
+
+const MIN_CONFIDENCE = 45;
+
+// Smallest module using a v128 instruction; validates only with SIMD support.
+const SIMD_PROBE = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0,
+  65, 0, 253, 15, 253, 98, 11
+]);
+
+const supportsSimd = () => {
+  try {
+    return WebAssembly.validate(SIMD_PROBE);
+  } catch {
+    return false;
+  }
+};
+
+export const availableOcrLanguages = (): OcrLanguage[] =>
+  ocrLanguages.filter(
+    (lang): lang is OcrLanguage => lang === "rus" || lang === "eng"
+  );
+
+export const detectTextLanguage = (text: string): OcrLanguage => {
+  const cyrillic = (text.match(/[\u0400-\u04FF]/g) ?? []).length;
+  const latin = (text.match(/[a-z]/gi) ?? []).length;
+  return cyrillic >= latin ? "rus" : "eng";
+};
+
+/**
+ * Offline text recognition. The WASM core, worker script and language packs
+ * are all served from the app's origin; the worker is created on first use
+ * and reused until `terminate`.
+ */
+export class OcrEngine {
+  private worker: Promise<Worker> | null = null;
+
+  private getWorker() {
+    if (!this.worker) {
+      const languages = availableOcrLanguages();
+      if (languages.length === 0) {
+        return Promise.reject(new Error("No OCR language packs are installed."));
+      }
+      this.worker = createWorker(languages, OEM.LSTM_ONLY, {
+        workerPath: workerUrl,
+        corePath: supportsSimd() ? coreSimdUrl : coreUrl,
+        langPath: `${import.meta.env.BASE_URL}tessdata`,
+        gzip: true,
+        workerBlobURL: false
+      });
+      this.worker.catch(() => {
+        this.worker = null;
+      });
+    }
+    return this.worker;
+  }
+
+  async recognize(frame: HTMLCanvasElement): Promise<OcrResult> {
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(frame, {}, { text: true, blocks: true });
+    const width = Math.max(1, frame.width);
+    const height = Math.max(1, frame.height);
+
+    const blocks: OcrBlock[] = (data.blocks ?? [])
+      .filter((block) => block.text.trim() && block.confidence >= MIN_CONFIDENCE)
+      .map((block) => ({
+        text: block.text.trim(),
+        confidence: block.confidence,
+        box: [
+          block.bbox.x0 / width,
+          1 - block.bbox.y1 / height,
+          block.bbox.x1 / width,
+          1 - block.bbox.y0 / height
+        ]
+      }));
+    const text = blocks.map((block) => block.text).join("\n\n");
+
+    return { text, blocks, language: detectTextLanguage(text) };
+  }
+
+  async terminate() {
+    const worker = this.worker;
+    this.worker = null;
+    if (worker) {
+      await (await worker.catch(() => null))?.terminate();
+    }
+  }
+}
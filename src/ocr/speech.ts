@@ -0,0 +1,46 @@
+import type { OcrLanguage } from "./engine";
+
+const speechLocales: Record<OcrLanguage, string> = {
+  rus: "ru-RU",
+  eng: "en-US"
+};
+
+export const supportsSpeech = () =>
+  typeof window !== "undefined" && "speechSynthesis" in window;
+
+const pickVoice = (locale: string) => {
+  const prefix = locale.slice(0, 2);
+  const voices = window.speechSynthesis.getVoices();
+  return (
+    voices.find((voice) => voice.lang === locale && voice.localService) ??
+    voices.find((voice) => voice.lang.startsWith(prefix) && voice.localService) ??
+    voices.find((voice) => voice.lang.startsWith(prefix)) ??
+    null
+  );
+};
+
+export const speakText = (
+  text: string,
+  language: OcrLanguage,
+  onEnd: () => void
+) => {
+  if (!supportsSpeech() || !text.trim()) {
+    onEnd();
+    return;
+  }
+  const locale = speechLocales[language];
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = locale;
+  utterance.voice = pickVoice(locale);
+  utterance.rate = 0.95;
+  utterance.onend = onEnd;
+  utterance.onerror = onEnd;
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(utterance);
+};
+
+export const stopSpeaking = () => {
+  if (supportsSpeech()) {
+    window.speechSynthesis.cancel();
+  }
+};
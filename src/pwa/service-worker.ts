@@ -0,0 +1,90 @@
+// Built on its own by the service-worker plugin in vite.config.ts, which
+// puts the build output list and a hash of its contents in front of it.
+declare const PRECACHE_MANIFEST: string[];
+declare const CACHE_VERSION: string;
+
+export type ServiceWorkerMessage = { type: "skip-waiting" };
+
+type ExtendableEvent = Event & {
+  waitUntil: (promise: Promise<unknown>) => void;
+};
+
+type FetchEvent = ExtendableEvent & {
+  request: Request;
+  respondWith: (response: Promise<Response>) => void;
+};
+
+type ServiceWorkerScope = {
+  registration: ServiceWorkerRegistration;
+  clients: { claim: () => Promise<void> };
+  skipWaiting: () => Promise<void>;
+  addEventListener(type: "install" | "activate", listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: "fetch", listener: (event: FetchEvent) => void): void;
+  addEventListener(
+    type: "message",
+    listener: (event: MessageEvent<ServiceWorkerMessage>) => void
+  ): void;
+};
+
+const worker = self as unknown as ServiceWorkerScope;
+
+// Only caches with this prefix are ever deleted: localStorage, where presets
+// and settings live, is not touched by updates.
+const CACHE_PREFIX = "phone-vr-camera-";
+const CACHE_NAME = `${CACHE_PREFIX}${CACHE_VERSION}`;
+
+const fileUrl = (file: string) => new URL(file, worker.registration.scope).href;
+
+worker.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) =>
+        cache.addAll(PRECACHE_MANIFEST.map((file) => new Request(fileUrl(file), { cache: "reload" })))
+      )
+  );
+});
+
+worker.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter((name) => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME)
+            .map((name) => caches.delete(name))
+        )
+      )
+      .then(() => worker.clients.claim())
+  );
+});
+
+// A newer version waits until the page asks for it, so a deploy never
+// swaps the code under a running session.
+worker.addEventListener("message", (event) => {
+  if (event.data?.type === "skip-waiting") {
+    void worker.skipWaiting();
+  }
+});
+
+/**
+ * Cache first: the precache holds one consistent build. Every page, shared
+ * calibration links included, is the cached index.html.
+ */
+const respond = async (request: Request) => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached =
+    request.mode === "navigate"
+      ? await cache.match(fileUrl("index.html"))
+      : await cache.match(request);
+  return cached ?? fetch(request);
+};
+
+worker.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET" || new URL(request.url).origin !== location.origin) {
+    return;
+  }
+  event.respondWith(respond(request));
+});
@@ -0,0 +1,81 @@
+import type { ServiceWorkerMessage } from "./service-worker";
+
+const CHECK_INTERVAL_MS = 30 * 60 * 1000;
+
+/** The service worker only exists in builds; the dev server serves no sw.js. */
+export const supportsUpdates = () =>
+  import.meta.env.PROD && typeof navigator !== "undefined" && "serviceWorker" in navigator;
+
+/**
+ * Registers the service worker and reports a newer deploy once it is cached
+ * and waiting. The new version only takes over on `apply`, which reloads the
+ * page; presets and settings are in localStorage and carry over.
+ */
+export class AppUpdater {
+  private registration: ServiceWorkerRegistration | null = null;
+  private onReady: (() => void) | null = null;
+  private timer = 0;
+
+  async start(onReady: () => void) {
+    this.stop();
+    this.onReady = onReady;
+    const registration = await navigator.serviceWorker.register(
+      `${import.meta.env.BASE_URL}sw.js`,
+      { scope: import.meta.env.BASE_URL }
+    );
+    if (this.onReady !== onReady) {
+      return;
+    }
+    this.registration = registration;
+    registration.addEventListener("updatefound", this.handleUpdateFound);
+    document.addEventListener("visibilitychange", this.handleVisibilityChange);
+    this.timer = window.setInterval(this.check, CHECK_INTERVAL_MS);
+    if (registration.waiting && navigator.serviceWorker.controller) {
+      onReady();
+    }
+  }
+
+  stop() {
+    this.registration?.removeEventListener("updatefound", this.handleUpdateFound);
+    document.removeEventListener("visibilitychange", this.handleVisibilityChange);
+    window.clearInterval(this.timer);
+    this.timer = 0;
+    this.registration = null;
+    this.onReady = null;
+  }
+
+  /** Switches to the waiting version and reloads. False when none waits. */
+  apply() {
+    const waiting = this.registration?.waiting;
+    if (!waiting) {
+      return false;
+    }
+    navigator.serviceWorker.addEventListener("controllerchange", () => window.location.reload(), {
+      once: true
+    });
+    const message: ServiceWorkerMessage = { type: "skip-waiting" };
+    waiting.postMessage(message);
+    return true;
+  }
+
+  private check = () => {
+    // Fails offline, which is the common case; the next check retries.
+    this.registration?.update().catch(() => undefined);
+  };
+
+  private handleVisibilityChange = () => {
+    if (document.visibilityState === "visible") {
+      this.check();
+    }
+  };
+
+  private handleUpdateFound = () => {
+    const installing = this.registration?.installing;
+    installing?.addEventListener("statechange", () => {
+      // Without a controller this is the first install, not an update.
+      if (installing.state === "installed" && navigator.serviceWorker.controller) {
+        this.onReady?.();
+      }
+    });
+  };
+}
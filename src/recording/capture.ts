@@ -0,0 +1,52 @@
+import type { MessageKey } from "../i18n/ru";
+
+export type CaptureMode = "stereo" | "eye" | "camera";
+
+export const captureModes: { mode: CaptureMode; label: MessageKey }[] = [
+  { mode: "stereo", label: "capture.stereo" },
+  { mode: "eye", label: "capture.eye" },
+  { mode: "camera", label: "capture.camera" }
+];
+
+export const captureVideoFrame = (video: HTMLVideoElement) => {
+  if (video.readyState < video.HAVE_CURRENT_DATA || !video.videoWidth) {
+    return null;
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    return null;
+  }
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+export const timestamp = () => {
+  const now = new Date();
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(
+    now.getHours()
+  )}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+};
+
+export const downloadFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const toFile = (blob: Blob, fileName: string) =>
+  new File([blob], fileName, { type: blob.type });
+
+export const canShareFile = (blob: Blob, fileName: string) =>
+  typeof navigator !== "undefined" &&
+  typeof navigator.canShare === "function" &&
+  navigator.canShare({ files: [toFile(blob, fileName)] });
+
+export const shareFile = (blob: Blob, fileName: string) =>
+  navigator.share({ files: [toFile(blob, fileName)], title: fileName });
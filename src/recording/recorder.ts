@@ -0,0 +1,100 @@
+import { CaptureMode, canShareFile, downloadFile, shareFile, timestamp } from "./capture";
+
+export type Recording = {
+  blob: Blob;
+  fileName: string;
+  durationMs: number;
+};
+
+const RECORDING_FPS = 30;
+
+const MIME_CANDIDATES = [
+  "video/mp4;codecs=avc1",
+  "video/mp4",
+  "video/webm;codecs=vp9",
+  "video/webm;codecs=vp8",
+  "video/webm"
+];
+
+export const supportsRecording = () =>
+  typeof MediaRecorder !== "undefined" &&
+  typeof HTMLCanvasElement !== "undefined" &&
+  typeof HTMLCanvasElement.prototype.captureStream === "function";
+
+const pickMimeType = () =>
+  MIME_CANDIDATES.find((type) => MediaRecorder.isTypeSupported(type)) ?? "";
+
+const extensionFor = (mimeType: string) =>
+  mimeType.startsWith("video/mp4") ? "mp4" : "webm";
+
+export const canvasStream = (canvas: HTMLCanvasElement) =>
+  canvas.captureStream(RECORDING_FPS);
+
+/**
+ * Camera tracks are cloned so that ending the recording never stops the
+ * live camera feed.
+ */
+export const cameraStream = (stream: MediaStream) =>
+  new MediaStream(stream.getVideoTracks().map((track) => track.clone()));
+
+/**
+ * Records one MediaStream into a single file. The recorder owns the stream:
+ * its tracks are stopped once recording ends.
+ */
+export class VideoRecorder {
+  private readonly stream: MediaStream;
+  private readonly recorder: MediaRecorder;
+  private readonly chunks: Blob[] = [];
+  private readonly startedAt: number;
+  private readonly finished: Promise<Recording>;
+
+  constructor(stream: MediaStream, mode: CaptureMode) {
+    this.stream = stream;
+    const mimeType = pickMimeType();
+    this.recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    this.startedAt = performance.now();
+
+    this.finished = new Promise((resolve, reject) => {
+      this.recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) {
+          this.chunks.push(event.data);
+        }
+      };
+      this.recorder.onerror = () => {
+        this.stopTracks();
+        reject(new Error("Recording failed."));
+      };
+      this.recorder.onstop = () => {
+        this.stopTracks();
+        const type = this.recorder.mimeType || mimeType || "video/webm";
+        resolve({
+          blob: new Blob(this.chunks, { type }),
+          fileName: `phone-vr-${mode}-${timestamp()}.${extensionFor(type)}`,
+          durationMs: performance.now() - this.startedAt
+        });
+      };
+    });
+
+    this.recorder.start(1000);
+  }
+
+  stop() {
+    if (this.recorder.state !== "inactive") {
+      this.recorder.stop();
+    }
+    return this.finished;
+  }
+
+  private stopTracks() {
+    this.stream.getTracks().forEach((track) => track.stop());
+  }
+}
+
+export const saveRecording = (recording: Recording) =>
+  downloadFile(recording.blob, recording.fileName);
+
+export const canShareRecording = (recording: Recording) =>
+  canShareFile(recording.blob, recording.fileName);
+
+export const shareRecording = (recording: Recording) =>
+  shareFile(recording.blob, recording.fileName);
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { t } from "../i18n/locale";
+import { crc32 } from "../settings/checksum";
+import { SETTINGS_SCHEMA_VERSION } from "../settings/schema";
+import { readSnapshotMetadata } from "./snapshot";
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const chunk = (type: string, data: Uint8Array) => {
+  const bytes = new Uint8Array(12 + data.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, data.length);
+  bytes.set(new TextEncoder().encode(type), 4);
+  bytes.set(data, 8);
+  view.setUint32(8 + data.length, crc32(bytes.subarray(4, 8 + data.length)));
+  return bytes;
+};
+
+/** A PNG with no image data, only the settings chunk a snapshot carries. */
+const snapshotFile = (metadata: Record<string, unknown>) =>
+  new Blob(
+    [
+      new Uint8Array(PNG_SIGNATURE),
+      chunk("tEXt", new TextEncoder().encode(`phone-vr-camera\0${JSON.stringify(metadata)}`)),
+      chunk("IEND", new Uint8Array())
+    ],
+    { type: "image/png" }
+  );
+
+describe("readSnapshotMetadata", () => {
+  it("reads the settings of a snapshot from this version", async () => {
+    const metadata = await readSnapshotMetadata(
+      snapshotFile({
+        version: 1,
+        schemaVersion: SETTINGS_SCHEMA_VERSION,
+        presetName: "Reading",
+        createdAt: "2026-01-01T00:00:00.000Z",
+        settings: { scale: 4 }
+      })
+    );
+    expect(metadata).toMatchObject({
+      schemaVersion: SETTINGS_SCHEMA_VERSION,
+      presetName: "Reading",
+      settings: { scale: 4 }
+    });
+  });
+
+  it("refuses a snapshot from a newer schema", async () => {
+    const version = SETTINGS_SCHEMA_VERSION + 1;
+    await expect(
+      readSnapshotMetadata(snapshotFile({ version: 1, schemaVersion: version, settings: {} }))
+    ).rejects.toThrow(t("snapshot.newer", { version }));
+  });
+
+  it("returns null for an image without settings", async () => {
+    expect(await readSnapshotMetadata(snapshotFile({ version: 1 }))).toBeNull();
+    expect(await readSnapshotMetadata(new Blob([new Uint8Array([1, 2, 3])]))).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+import { t } from "../i18n/locale";
+import { crc32 } from "../settings/checksum";
+import { SETTINGS_SCHEMA_VERSION } from "../settings/schema";
+import type { VRSettings } from "../types";
+import { timestamp } from "./capture";
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+const SNAPSHOT_KEYWORD = "phone-vr-camera";
+const SNAPSHOT_VERSION = 1;
+
+export type SnapshotMetadata = {
+  version: number;
+  /** Settings schema version of `settings`, see settings/schema.ts. */
+  schemaVersion: number;
+  presetName: string;
+  createdAt: string;
+  settings: Partial<VRSettings>;
+};
+
+const isPng = (bytes: Uint8Array) =>
+  PNG_SIGNATURE.every((value, index) => bytes[index] === value);
+
+// tEXt is Latin-1 only, so everything outside ASCII is written as a JSON
+// \u escape; JSON.parse turns it back into the original string.
+const asciiJson = (value: unknown) =>
+  JSON.stringify(value).replace(
+    /[\u007f-\uffff]/g,
+    (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`
+  );
+
+const textChunk = (keyword: string, text: string) => {
+  const data = new TextEncoder().encode(`${keyword}\0${text}`);
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set([116, 69, 88, 116], 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+type PngChunk = { type: string; offset: number; length: number };
+
+const readChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, offset, length });
+    offset += 12 + length;
+    if (type === "IEND") {
+      break;
+    }
+  }
+  return chunks;
+};
+
+const canvasToPng = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error("Failed to encode the snapshot."));
+      }
+    }, "image/png");
+  });
+
+/**
+ * Encodes the canvas as PNG and inserts a tEXt chunk with the settings right
+ * before IEND, so any viewer still opens the file as a plain image.
+ */
+export const createSnapshot = async (
+  canvas: HTMLCanvasElement,
+  settings: VRSettings,
+  presetName: string
+) => {
+  const bytes = new Uint8Array(await (await canvasToPng(canvas)).arrayBuffer());
+  const end = readChunks(bytes).find((chunk) => chunk.type === "IEND");
+  if (!isPng(bytes) || !end) {
+    throw new Error("Failed to encode the snapshot.");
+  }
+  const metadata: SnapshotMetadata = {
+    version: SNAPSHOT_VERSION,
+    schemaVersion: SETTINGS_SCHEMA_VERSION,
+    presetName,
+    createdAt: new Date().toISOString(),
+    settings
+  };
+  const blob = new Blob(
+    [
+      bytes.subarray(0, end.offset),
+      textChunk(SNAPSHOT_KEYWORD, asciiJson(metadata)),
+      bytes.subarray(end.offset)
+    ],
+    { type: "image/png" }
+  );
+  return { blob, fileName: `phone-vr-${timestamp()}.png` };
+};
+
+/**
+ * Returns null when the file is not a PNG or carries no app settings, and
+ * throws when its settings come from a newer schema than this build knows.
+ */
+export const readSnapshotMetadata = async (
+  file: Blob
+): Promise<SnapshotMetadata | null> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!isPng(bytes)) {
+    return null;
+  }
+  const prefix = `${SNAPSHOT_KEYWORD}\0`;
+  const decoder = new TextDecoder("latin1");
+  for (const chunk of readChunks(bytes)) {
+    if (chunk.type !== "tEXt") {
+      continue;
+    }
+    const data = decoder.decode(
+      bytes.subarray(chunk.offset + 8, chunk.offset + 8 + chunk.length)
+    );
+    if (!data.startsWith(prefix)) {
+      continue;
+    }
+    let parsed: Partial<SnapshotMetadata>;
+    try {
+      parsed = JSON.parse(data.slice(prefix.length)) as Partial<SnapshotMetadata>;
+    } catch {
+      return null;
+    }
+    if (!parsed?.settings || typeof parsed.settings !== "object") {
+      return null;
+    }
+    // Snapshots predate the schema version field only at schema v2.
+    const schemaVersion = typeof parsed.schemaVersion === "number" ? parsed.schemaVersion : 2;
+    if (schemaVersion > SETTINGS_SCHEMA_VERSION) {
+      throw new Error(t("snapshot.newer", { version: schemaVersion }));
+    }
+    return {
+      version: typeof parsed.version === "number" ? parsed.version : SNAPSHOT_VERSION,
+      schemaVersion,
+      presetName: typeof parsed.presetName === "string" ? parsed.presetName : "",
+      createdAt: typeof parsed.createdAt === "string" ? parsed.createdAt : "",
+      settings: parsed.settings
+    };
+  }
+  return null;
+};
@@ -0,0 +1,124 @@
+import { t } from "../i18n/locale";
+import { timestamp } from "../recording/capture";
+import type { PresetSlot, VRSettings } from "../types";
+import {
+  migratePresets,
+  migrateSettings,
+  SETTINGS_SCHEMA_VERSION,
+  settingsSchema
+} from "./schema";
+
+const BACKUP_APP = "phone-vr-camera";
+
+type BackupFile = {
+  app: typeof BACKUP_APP;
+  version: number;
+  exportedAt: string;
+  activePresetId: string;
+  settings: VRSettings;
+  presets: PresetSlot[];
+};
+
+export type SlotChange = {
+  slotId: string;
+  /** Null when the preset does not exist here yet and would be added. */
+  currentName: string | null;
+  incoming: PresetSlot;
+  changedFields: Array<keyof VRSettings>;
+  renamed: boolean;
+};
+
+export type BackupPreview = {
+  exportedAt: string;
+  activePresetId: string | null;
+  settings: VRSettings;
+  settingsChanges: Array<keyof VRSettings>;
+  slots: SlotChange[];
+  issues: string[];
+};
+
+export const createBackup = (
+  settings: VRSettings,
+  presets: PresetSlot[],
+  activePresetId: string
+) => {
+  const backup: BackupFile = {
+    app: BACKUP_APP,
+    version: SETTINGS_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    activePresetId,
+    settings,
+    presets
+  };
+  return {
+    blob: new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" }),
+    fileName: `phone-vr-backup-${timestamp()}.json`
+  };
+};
+
+export const changedFields = (current: VRSettings, incoming: VRSettings) =>
+  (Object.keys(settingsSchema) as Array<keyof VRSettings>).filter(
+    (key) => JSON.stringify(current[key]) !== JSON.stringify(incoming[key])
+  );
+
+/**
+ * Validates a backup file against the current state and describes what an
+ * import would change. Presets are matched by id; presets unknown here are
+ * offered as additions.
+ */
+export const previewBackup = (
+  text: string,
+  currentSettings: VRSettings,
+  currentPresets: PresetSlot[]
+): BackupPreview => {
+  let parsed: Partial<BackupFile>;
+  try {
+    parsed = JSON.parse(text) as Partial<BackupFile>;
+  } catch {
+    throw new Error(t("backup.notJson"));
+  }
+  if (!parsed || typeof parsed !== "object" || parsed.app !== BACKUP_APP) {
+    throw new Error(t("backup.notBackup"));
+  }
+  const version = typeof parsed.version === "number" ? parsed.version : 0;
+  if (version > SETTINGS_SCHEMA_VERSION) {
+    throw new Error(
+      t("backup.newer", { version })
+    );
+  }
+
+  const settings = migrateSettings(parsed.settings, version);
+  const presets = Array.isArray(parsed.presets)
+    ? migratePresets(parsed.presets, version, [])
+    : { value: [], issues: [t("backup.noPresets")] };
+
+  const slots = presets.value.map((incoming): SlotChange => {
+    const current = currentPresets.find((preset) => preset.id === incoming.id);
+    return {
+      slotId: incoming.id,
+      currentName: current?.name ?? null,
+      incoming,
+      changedFields: current ? changedFields(current.settings, incoming.settings) : [],
+      renamed: current
+        ? current.name !== incoming.name || current.color !== incoming.color
+        : false
+    };
+  });
+
+  const activePresetId =
+    typeof parsed.activePresetId === "string" &&
+    [...currentPresets, ...presets.value].some(
+      (preset) => preset.id === parsed.activePresetId
+    )
+      ? parsed.activePresetId
+      : null;
+
+  return {
+    exportedAt: typeof parsed.exportedAt === "string" ? parsed.exportedAt : "",
+    activePresetId,
+    settings: settings.value,
+    settingsChanges: changedFields(currentSettings, settings.value),
+    slots,
+    issues: [...settings.issues, ...presets.issues]
+  };
+};
@@ -0,0 +1,137 @@
+import { amberTwoTone, createFilter, deepBlueTwoTone } from "../gl/filters";
+import { isMessage, t } from "../i18n/locale";
+import type { MessageKey } from "../i18n/ru";
+import { defaultSettings, PresetSlot, VRSettings } from "../types";
+
+export const PRESET_NAME_LIMIT = 30;
+
+export const presetColors = [
+  "#2dd4bf",
+  "#fbbf24",
+  "#38bdf8",
+  "#f472b6",
+  "#a3e635",
+  "#c084fc",
+  "#fb923c",
+  "#f87171"
+];
+
+/** Built-in presets. Their ids are stable so they can be restored in place. */
+export const factoryPresets: PresetSlot[] = [
+  {
+    id: "preset-1",
+    name: t("preset.normal"),
+    color: "#2dd4bf",
+    settings: defaultSettings
+  },
+  {
+    id: "preset-2",
+    name: t("preset.reading"),
+    color: "#fbbf24",
+    settings: {
+      ...defaultSettings,
+      filters: [createFilter("twoTone", amberTwoTone, "reading-two-tone")],
+      contrast: 1.1,
+      temperature: 0.25,
+      highlights: -0.1,
+      shadows: 0.15
+    }
+  },
+  {
+    id: "preset-3",
+    name: t("preset.tv"),
+    color: "#38bdf8",
+    settings: {
+      ...defaultSettings,
+      filters: [createFilter("twoTone", deepBlueTwoTone, "tv-two-tone")],
+      contrast: 1.15,
+      gamma: 1.05,
+      temperature: -0.1
+    }
+  }
+];
+
+const factoryNames: Record<string, MessageKey> = {
+  "preset-1": "preset.normal",
+  "preset-2": "preset.reading",
+  "preset-3": "preset.tv"
+};
+
+/**
+ * The name to show. Factory presets follow the UI language for as long as
+ * they carry a factory name in some language; a name the user typed stays.
+ */
+export const presetName = (preset: PresetSlot) => {
+  const key = factoryNames[preset.id];
+  return key && isMessage(key, preset.name) ? t(key) : preset.name;
+};
+
+let presetCounter = 0;
+
+export const createPresetId = () => {
+  presetCounter += 1;
+  return `preset-${Date.now().toString(36)}-${presetCounter}`;
+};
+
+export const nextPresetColor = (presets: PresetSlot[]) =>
+  presetColors.find((color) => !presets.some((preset) => preset.color === color)) ??
+  presetColors[presets.length % presetColors.length] ??
+  "#2dd4bf";
+
+export const addPreset = (presets: PresetSlot[], settings: VRSettings): PresetSlot[] => [
+  ...presets,
+  {
+    id: createPresetId(),
+    name: t("preset.numbered", { index: presets.length + 1 }),
+    color: nextPresetColor(presets),
+    settings: { ...settings }
+  }
+];
+
+export const duplicatePreset = (presets: PresetSlot[], presetId: string) => {
+  const index = presets.findIndex((preset) => preset.id === presetId);
+  const source = presets[index];
+  if (!source) {
+    return presets;
+  }
+  const copy: PresetSlot = {
+    ...source,
+    id: createPresetId(),
+    name: t("preset.copy", { name: presetName(source) }).slice(0, PRESET_NAME_LIMIT),
+    settings: { ...source.settings }
+  };
+  return [...presets.slice(0, index + 1), copy, ...presets.slice(index + 1)];
+};
+
+/** The last remaining preset cannot be removed. */
+export const removePreset = (presets: PresetSlot[], presetId: string) =>
+  presets.length > 1 ? presets.filter((preset) => preset.id !== presetId) : presets;
+
+export const movePreset = (presets: PresetSlot[], presetId: string, delta: -1 | 1) => {
+  const index = presets.findIndex((preset) => preset.id === presetId);
+  const target = index + delta;
+  const current = presets[index];
+  const other = presets[target];
+  if (!current || !other) {
+    return presets;
+  }
+  const next = [...presets];
+  next[index] = other;
+  next[target] = current;
+  return next;
+};
+
+/**
+ * Puts every factory preset back to its original state: edited ones are
+ * reset in place, deleted ones are re-added in front. User presets are
+ * left untouched.
+ */
+export const restoreFactoryPresets = (presets: PresetSlot[]) => {
+  const restored = presets.map(
+    (preset) => factoryPresets.find((factory) => factory.id === preset.id) ?? preset
+  );
+  const missing = factoryPresets.filter(
+    (factory) => !presets.some((preset) => preset.id === factory.id)
+  );
+  return [...missing, ...restored];
+};
@@ -0,0 +1,361 @@
+import { filtersFromLegacyMode, normalizeFilterChain } from "../gl/filters";
+import { normalizeRadialTable } from "../gl/lens";
+import { t } from "../i18n/locale";
+import { defaultSettings, PresetSlot, VRSettings } from "../types";
+import { createPresetId, PRESET_NAME_LIMIT, presetColors } from "./presets";
+
+/**
+ * Bump when the stored shape of VRSettings changes and append a migration
+ * that lifts the previous version to the new one. Data written before
+ * versioning existed is treated as version 0.
+ */
+export const SETTINGS_SCHEMA_VERSION = 3;
+
+type FieldSpec =
+  | { kind: "number"; min: number; max: number }
+  | { kind: "boolean" }
+  | { kind: "filters" }
+  | { kind: "radialTable" };
+
+export const settingsSchema: Record<keyof VRSettings, FieldSpec> = {
+  leftOffsetX: { kind: "number", min: -0.2, max: 0.2 },
+  leftOffsetY: { kind: "number", min: -0.2, max: 0.2 },
+  rightOffsetX: { kind: "number", min: -0.2, max: 0.2 },
+  rightOffsetY: { kind: "number", min: -0.2, max: 0.2 },
+  scale: { kind: "number", min: 1, max: 3 },
+  separation: { kind: "number", min: -0.1, max: 0.1 },
+  physicalLayout: { kind: "boolean" },
+  interLensMm: { kind: "number", min: 50, max: 80 },
+  ipdMm: { kind: "number", min: 50, max: 80 },
+  contrast: { kind: "number", min: 0.5, max: 2 },
+  brightness: { kind: "number", min: -0.5, max: 0.5 },
+  gamma: { kind: "number", min: 0.5, max: 2.5 },
+  highlights: { kind: "number", min: -1, max: 1 },
+  shadows: { kind: "number", min: -1, max: 1 },
+  temperature: { kind: "number", min: -1, max: 1 },
+  distortionEnabled: { kind: "boolean" },
+  k1: { kind: "number", min: -10, max: 10 },
+  k2: { kind: "number", min: -10, max: 10 },
+  k3: { kind: "number", min: -10, max: 10 },
+  p1: { kind: "number", min: -0.1, max: 0.1 },
+  p2: { kind: "number", min: -0.1, max: 0.1 },
+  radialTable: { kind: "radialTable" },
+  chromaRed: { kind: "number", min: -5, max: 5 },
+  chromaGreen: { kind: "number", min: -5, max: 5 },
+  chromaBlue: { kind: "number", min: -5, max: 5 },
+  chromaPattern: { kind: "boolean" },
+  sphereStrength: { kind: "number", min: 0, max: 100 },
+  sphereDiameter: { kind: "number", min: 0, max: 100 },
+  filters: { kind: "filters" },
+  magnifierEnabled: { kind: "boolean" },
+  magnifierZoom: { kind: "number", min: 1, max: 10 },
+  magnifierSize: { kind: "number", min: 0.2, max: 1 },
+  stabilization: { kind: "boolean" },
+  stabilizationStrength: { kind: "number", min: 0, max: 100 },
+  stabilizationWindow: { kind: "number", min: 100, max: 2000 },
+  stabilizationFrames: { kind: "boolean" },
+  torch: { kind: "boolean" },
+  manualFocus: { kind: "boolean" },
+  focusDistance: { kind: "number", min: 0, max: 10 },
+  exposureCompensation: { kind: "number", min: -4, max: 4 },
+  manualExposure: { kind: "boolean" },
+  iso: { kind: "number", min: 25, max: 12800 },
+  manualWhiteBalance: { kind: "boolean" },
+  colorTemperature: { kind: "number", min: 2000, max: 10000 },
+  gazeEnabled: { kind: "boolean" },
+  gazeSensitivity: { kind: "number", min: 0.5, max: 4 },
+  gazeDwell: { kind: "number", min: 400, max: 4000 },
+  calibration: { kind: "boolean" }
+};
+
+type RawSettings = Record<string, unknown>;
+
+// Up to schema 2 the lens pass multiplied the stored k1/k2 by this.
+const LEGACY_DISTORTION_SCALE = 0.1;
+
+type Migration = {
+  /** Version the data has after this migration. */
+  version: number;
+  /** Returns a note when the data actually changed. */
+  migrate: (settings: RawSettings) => { settings: RawSettings; note?: string };
+};
+
+const settingsMigrations: Migration[] = [
+  {
+    version: 1,
+    migrate: (settings) => {
+      const { k1, k2 } = settings;
+      if (typeof k1 === "number" && typeof k2 === "number" && k1 <= 1 && k2 <= 1) {
+        return {
+          settings: { ...settings, k1: k1 * 100, k2: k2 * 100 },
+          note: t("schema.legacyScale")
+        };
+      }
+      return { settings };
+    }
+  },
+  {
+    version: 2,
+    migrate: (settings) => {
+      const { filterMode, ...rest } = settings;
+      if (Array.isArray(rest.filters)) {
+        return { settings: rest };
+      }
+      const filters = filtersFromLegacyMode(filterMode);
+      return {
+        settings: { ...rest, filters },
+        note:
+          filters.length > 0
+            ? t("schema.filterMode", { mode: String(filterMode) })
+            : undefined
+      };
+    }
+  },
+  {
+    version: 3,
+    migrate: (settings) => {
+      const { k1, k2 } = settings;
+      if (typeof k1 !== "number" && typeof k2 !== "number") {
+        return { settings };
+      }
+      const rescale = (value: unknown) =>
+        typeof value === "number"
+          ? Number((value * LEGACY_DISTORTION_SCALE).toFixed(6))
+          : value;
+      return {
+        settings: { ...settings, k1: rescale(k1), k2: rescale(k2) },
+        note: t("schema.brownConrady")
+      };
+    }
+  }
+];
+
+export type ValidationResult<T> = {
+  value: T;
+  /** Human-readable list of what was migrated or repaired. */
+  issues: string[];
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const validateField = (
+  key: keyof VRSettings,
+  spec: FieldSpec,
+  value: unknown,
+  issues: string[]
+) => {
+  const fallback = defaultSettings[key];
+  if (spec.kind === "radialTable") {
+    const { table, dropped } = normalizeRadialTable(value);
+    if (!Array.isArray(value)) {
+      issues.push(t("schema.tableCorrupt", { key }));
+    } else if (dropped > 0) {
+      issues.push(t("schema.tableRowsDropped", { count: dropped }));
+    }
+    return table;
+  }
+  if (spec.kind === "filters") {
+    const filters = normalizeFilterChain(value);
+    if (!Array.isArray(value)) {
+      issues.push(t("schema.filtersCorrupt", { key }));
+    } else if (filters.length !== value.length) {
+      const dropped = value.length - filters.length;
+      issues.push(t("schema.filtersDropped", { count: dropped }));
+    }
+    return filters;
+  }
+  if (spec.kind === "boolean") {
+    if (typeof value === "boolean") {
+      return value;
+    }
+    issues.push(t("schema.notBoolean", { key, value: String(fallback) }));
+    return fallback;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    issues.push(t("schema.notNumber", { key, value: String(fallback) }));
+    return fallback;
+  }
+  const clamped = Math.min(spec.max, Math.max(spec.min, value));
+  if (clamped !== value) {
+    issues.push(
+      t("schema.outOfRange", { key, value, min: spec.min, max: spec.max, clamped })
+    );
+  }
+  return clamped;
+};
+
+/**
+ * Checks every field against `settingsSchema`. Missing fields take their
+ * defaults silently (they are simply newer than the data); wrong types and
+ * out-of-range values are repaired and reported.
+ */
+export const validateSettings = (raw: unknown): ValidationResult<VRSettings> => {
+  if (!isRecord(raw)) {
+    return { value: defaultSettings, issues: [t("schema.settingsReset")] };
+  }
+  const issues: string[] = [];
+  const settings = { ...defaultSettings };
+  (Object.keys(settingsSchema) as Array<keyof VRSettings>).forEach((key) => {
+    if (raw[key] === undefined) {
+      return;
+    }
+    Object.assign(settings, {
+      [key]: validateField(key, settingsSchema[key], raw[key], issues)
+    });
+  });
+  return { value: settings, issues };
+};
+
+/** Runs every migration newer than `fromVersion`, without validating. */
+export const upgradeSettings = (raw: RawSettings, fromVersion: number) => {
+  const notes: string[] = [];
+  let settings = raw;
+  settingsMigrations
+    .filter((migration) => migration.version > fromVersion)
+    .forEach((migration) => {
+      const result = migration.migrate(settings);
+      settings = result.settings;
+      if (result.note) {
+        notes.push(result.note);
+      }
+    });
+  return { settings, notes };
+};
+
+/** Runs every migration newer than `fromVersion`, then validates. */
+export const migrateSettings = (
+  raw: unknown,
+  fromVersion: number
+): ValidationResult<VRSettings> => {
+  if (!isRecord(raw)) {
+    return validateSettings(raw);
+  }
+  const { settings, notes } = upgradeSettings(raw, fromVersion);
+  const validated = validateSettings(settings);
+  return { value: validated.value, issues: [...notes, ...validated.issues] };
+};
+
+const validatePreset = (
+  raw: unknown,
+  index: number,
+  takenIds: Set<string>,
+  fromVersion: number
+): ValidationResult<PresetSlot> | null => {
+  if (!isRecord(raw)) {
+    return null;
+  }
+  const issues: string[] = [];
+  const fallbackName = t("preset.numbered", { index: index + 1 });
+  const name =
+    typeof raw.name === "string" && raw.name.trim()
+      ? raw.name.trim().slice(0, PRESET_NAME_LIMIT)
+      : fallbackName;
+  if (raw.name !== undefined && name !== raw.name) {
+    issues.push(t("schema.presetName", { name }));
+  }
+  let id = typeof raw.id === "string" && raw.id ? raw.id : "";
+  if (!id || takenIds.has(id)) {
+    id = createPresetId();
+  }
+  takenIds.add(id);
+  const fallbackColor = presetColors[index % presetColors.length] ?? "#2dd4bf";
+  const color =
+    typeof raw.color === "string" && /^#([0-9a-fA-F]{6})$/.test(raw.color)
+      ? raw.color
+      : fallbackColor;
+  if (raw.color !== undefined && color !== raw.color) {
+    issues.push(t("schema.presetColor", { name }));
+  }
+  const settings =
+    raw.settings === undefined
+      ? { value: defaultSettings, issues: [] }
+      : migrateSettings(raw.settings, fromVersion);
+  return {
+    value: { id, name, color, settings: settings.value },
+    issues: [...issues, ...settings.issues.map((issue) => t("schema.presetIssue", { name, issue }))]
+  };
+};
+
+/**
+ * Keeps every stored preset in order. Entries that are not objects are
+ * dropped; an empty or unreadable list falls back to `fallback`.
+ */
+export const migratePresets = (
+  raw: unknown,
+  fromVersion: number,
+  fallback: PresetSlot[]
+): ValidationResult<PresetSlot[]> => {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { value: fallback, issues: [t("schema.presetsCorrupt")] };
+  }
+  const issues: string[] = [];
+  const takenIds = new Set<string>();
+  const presets = raw.flatMap((entry, index) => {
+    const result = validatePreset(entry, index, takenIds, fromVersion);
+    if (!result) {
+      issues.push(t("schema.presetDropped", { index: index + 1 }));
+      return [];
+    }
+    issues.push(...result.issues);
+    return [result.value];
+  });
+  if (presets.length === 0) {
+    return { value: fallback, issues: [...issues, t("schema.presetsReset")] };
+  }
+  return { value: presets, issues };
+};
+
+type Envelope = { version: number; data: unknown };
+
+/**
+ * Stored values are wrapped as `{ version, data }`. Anything else is
+ * unversioned data from before the schema existed.
+ */
+const unwrap = (stored: string): Envelope => {
+  const parsed = JSON.parse(stored) as unknown;
+  if (
+    isRecord(parsed) &&
+    typeof parsed.version === "number" &&
+    Number.isInteger(parsed.version) &&
+    "data" in parsed
+  ) {
+    return { version: parsed.version, data: parsed.data };
+  }
+  return { version: 0, data: parsed };
+};
+
+const parseStored = <T>(
+  stored: string | null,
+  fallback: T,
+  migrate: (data: unknown, version: number) => ValidationResult<T>
+): ValidationResult<T> => {
+  if (!stored) {
+    return { value: fallback, issues: [] };
+  }
+  let envelope: Envelope;
+  try {
+    envelope = unwrap(stored);
+  } catch {
+    return { value: fallback, issues: [t("schema.unreadable")] };
+  }
+  if (envelope.version > SETTINGS_SCHEMA_VERSION) {
+    return {
+      value: fallback,
+      issues: [t("schema.newer", { version: envelope.version })]
+    };
+  }
+  return migrate(envelope.data, envelope.version);
+};
+
+export const parseStoredSettings = (stored: string | null) =>
+  parseStored(stored, defaultSettings, migrateSettings);
+
+export const parseStoredPresets = (stored: string | null, fallback: PresetSlot[]) =>
+  parseStored(stored, fallback, (data, version) => migratePresets(data, version, fallback));
+
+export const serializeSettings = (settings: VRSettings) =>
+  JSON.stringify({ version: SETTINGS_SCHEMA_VERSION, data: settings });
+
+export const serializePresets = (presets: PresetSlot[]) =>
+  JSON.stringify({ version: SETTINGS_SCHEMA_VERSION, data: presets });
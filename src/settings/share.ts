@@ -0,0 +1,198 @@
+import QRCode from "qrcode";
+import { t } from "../i18n/locale";
+import type { VRSettings } from "../types";
+import { crc32 } from "./checksum";
+import { upgradeSettings, validateSettings } from "./schema";
+
+export const FITTING_PARAM = "fit";
+
+const FITTING_CODE_VERSION = 3;
+
+// Codes up to v2 carry settings of schema 2 (k1/k2 on the old 0–100 scale);
+// from v3 on the code version and the schema version move together.
+const codeSchemaVersion = (version: number) => (version <= 2 ? 2 : 3);
+const NAME_LIMIT = 30;
+
+/**
+ * Numeric fitting fields in wire order, each sent as a signed 16-bit integer
+ * of `value * factor`. Append only, tag new fields with the code version that
+ * introduced them and bump FITTING_CODE_VERSION; older codes simply lack them.
+ */
+const numericFields: Array<[keyof VRSettings, number, number?]> = [
+  ["leftOffsetX", 10000],
+  ["leftOffsetY", 10000],
+  ["rightOffsetX", 10000],
+  ["rightOffsetY", 10000],
+  ["separation", 10000],
+  ["scale", 1000],
+  ["k1", 100],
+  ["k2", 100],
+  ["sphereStrength", 100],
+  ["sphereDiameter", 100],
+  ["magnifierZoom", 1000],
+  ["magnifierSize", 1000],
+  ["interLensMm", 100, 2],
+  ["ipdMm", 100, 2],
+  ["k3", 100, 3],
+  ["p1", 10000, 3],
+  ["p2", 10000, 3]
+];
+
+const flagFields: Array<keyof VRSettings> = [
+  "distortionEnabled",
+  "magnifierEnabled",
+  "physicalLayout"
+];
+
+const fieldsOf = (version: number) =>
+  numericFields.filter(([, , since = 1]) => since <= version);
+
+export type FittingFields = Pick<
+  VRSettings,
+  | "leftOffsetX"
+  | "leftOffsetY"
+  | "rightOffsetX"
+  | "rightOffsetY"
+  | "separation"
+  | "scale"
+  | "k1"
+  | "k2"
+  | "k3"
+  | "p1"
+  | "p2"
+  | "sphereStrength"
+  | "sphereDiameter"
+  | "magnifierZoom"
+  | "magnifierSize"
+  | "distortionEnabled"
+  | "magnifierEnabled"
+  | "physicalLayout"
+  | "interLensMm"
+  | "ipdMm"
+>;
+
+export type SharedFitting = {
+  name: string;
+  fitting: FittingFields;
+};
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+/**
+ * Layout: version byte, int16 per numeric field, flag byte, name length
+ * byte, UTF-8 name, CRC-32 of everything before it.
+ */
+export const encodeFitting = (name: string, settings: VRSettings) => {
+  const nameBytes = new TextEncoder().encode(name.slice(0, NAME_LIMIT));
+  const fields = fieldsOf(FITTING_CODE_VERSION);
+  const size = 1 + fields.length * 2 + 2 + nameBytes.length + 4;
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  view.setUint8(offset, FITTING_CODE_VERSION);
+  offset += 1;
+  fields.forEach(([key, factor]) => {
+    const value = Math.round((settings[key] as number) * factor);
+    view.setInt16(offset, Math.max(-32768, Math.min(32767, value)));
+    offset += 2;
+  });
+  const flags = flagFields.reduce(
+    (value, key, bit) => (settings[key] ? value | (1 << bit) : value),
+    0
+  );
+  view.setUint8(offset, flags);
+  offset += 1;
+  view.setUint8(offset, nameBytes.length);
+  offset += 1;
+  bytes.set(nameBytes, offset);
+  offset += nameBytes.length;
+  view.setUint32(offset, crc32(bytes.subarray(0, offset)));
+  return toBase64Url(bytes);
+};
+
+/**
+ * Throws when the code is truncated, tampered with or from a newer version.
+ * Fields an older code lacks keep their defaults and its values are migrated
+ * like stored settings. The radial lookup table is never part of a code.
+ */
+export const decodeFitting = (code: string): SharedFitting => {
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(code.trim());
+  } catch {
+    throw new Error(t("share.broken"));
+  }
+  const version = bytes[0] ?? 0;
+  if (version < 1 || version > FITTING_CODE_VERSION) {
+    throw new Error(t("share.version", { version }));
+  }
+  const fields = fieldsOf(version);
+  const headerSize = 1 + fields.length * 2 + 2;
+  if (bytes.length < headerSize + 4) {
+    throw new Error(t("share.incomplete"));
+  }
+  const view = new DataView(bytes.buffer);
+  const nameLength = view.getUint8(headerSize - 1);
+  const payloadSize = headerSize + nameLength;
+  if (bytes.length !== payloadSize + 4) {
+    throw new Error(t("share.incomplete"));
+  }
+  if (view.getUint32(payloadSize) !== crc32(bytes.subarray(0, payloadSize))) {
+    throw new Error(t("share.checksum"));
+  }
+
+  const raw: Record<string, unknown> = {};
+  let offset = 1;
+  fields.forEach(([key, factor]) => {
+    raw[key] = view.getInt16(offset) / factor;
+    offset += 2;
+  });
+  const flags = view.getUint8(offset);
+  flagFields.forEach((key, bit) => {
+    raw[key] = Boolean(flags & (1 << bit));
+  });
+
+  const upgraded = upgradeSettings(raw, codeSchemaVersion(version));
+  const validated = validateSettings(upgraded.settings);
+  if (validated.issues.length > 0) {
+    throw new Error(t("share.invalid"));
+  }
+  const fitting = {} as Record<string, unknown>;
+  [...numericFields.map(([key]) => key), ...flagFields].forEach((key) => {
+    fitting[key] = validated.value[key];
+  });
+
+  const name = new TextDecoder().decode(bytes.subarray(headerSize, payloadSize));
+  return { name: name.trim().slice(0, NAME_LIMIT), fitting: fitting as FittingFields };
+};
+
+export const fittingLink = (code: string) => {
+  const url = new URL(import.meta.env.BASE_URL, window.location.origin);
+  url.searchParams.set(FITTING_PARAM, code);
+  return url.toString();
+};
+
+export const fittingQrCode = (link: string) =>
+  QRCode.toDataURL(link, { errorCorrectionLevel: "M", margin: 2, width: 320 });
+
+/** Reads the fitting code from the page URL; null when there is none. */
+export const fittingCodeFromLocation = () =>
+  typeof window === "undefined"
+    ? null
+    : new URLSearchParams(window.location.search).get(FITTING_PARAM);
+
+export const clearFittingFromLocation = () => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(FITTING_PARAM);
+  window.history.replaceState(null, "", url.toString());
+};
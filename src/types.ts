@@ -1,3 +1,12 @@
+export type FilterParamValue = number | string;
+
+export type FilterSpec = {
+  id: string;
+  type: string;
+  enabled: boolean;
+  params: Record<string, FilterParamValue>;
+};
+
 export type VRSettings = {
   leftOffsetX: number;
   leftOffsetY: number;
@@ -5,6 +14,13 @@ export type VRSettings = {
   rightOffsetY: number;
   scale: number;
   separation: number;
+  /**
+   * When set and the screen size is known, the eye viewports are centred
+   * under the lenses and `separation` is derived from the millimetre fields.
+   */
+  physicalLayout: boolean;
+  interLensMm: number;
+  ipdMm: number;
   contrast: number;
   brightness: number;
   gamma: number;
@@ -12,17 +28,69 @@ export type VRSettings = {
   shadows: number;
   temperature: number;
   distortionEnabled: boolean;
+  /** Brown–Conrady radial coefficients, applied to eye-viewport UVs. */
   k1: number;
   k2: number;
+  k3: number;
+  /** Tangential coefficients. */
+  p1: number;
+  p2: number;
+  /** Rows of [r, r′] that replace k1–k3 when not empty, see gl/lens.ts. */
+  radialTable: Array<[number, number]>;
+  /** Per-channel lens magnification in percent, to cancel colour fringes. */
+  chromaRed: number;
+  chromaGreen: number;
+  chromaBlue: number;
+  /** Swaps the calibration grid for a black and white fringe test chart. */
+  chromaPattern: boolean;
   sphereStrength: number;
   sphereDiameter: number;
-  filterMode: "none" | "amber" | "deepblue" | "edge";
+  filters: FilterSpec[];
   magnifierEnabled: boolean;
   magnifierZoom: number;
   magnifierSize: number;
+  /** Gyro image stabilisation, see motion/stabilizer.ts. */
+  stabilization: boolean;
+  /** Share of the head tremor that is cancelled, percent. */
+  stabilizationStrength: number;
+  /** Smoothing window in milliseconds; slower motion is followed. */
+  stabilizationWindow: number;
+  /** Estimate head motion from the camera frames instead of the gyro. */
+  stabilizationFrames: boolean;
+  /** Camera controls, see camera/controls.ts; ignored where the track lacks them. */
+  torch: boolean;
+  manualFocus: boolean;
+  /** Metres. */
+  focusDistance: number;
+  /** EV, applies while exposure is automatic. */
+  exposureCompensation: number;
+  manualExposure: boolean;
+  iso: number;
+  manualWhiteBalance: boolean;
+  /** Kelvin. */
+  colorTemperature: number;
+  /** Move the VR menu cursor with the head, see motion/gaze.ts. */
+  gazeEnabled: boolean;
+  /** Share of the eye the cursor crosses per radian of head turn. */
+  gazeSensitivity: number;
+  /** Milliseconds the cursor rests on a button before it is pressed. */
+  gazeDwell: number;
   calibration: boolean;
 };
 
+/** Physical size of the screen's active area in landscape, millimetres. */
+export type ScreenSize = {
+  widthMm: number;
+  heightMm: number;
+};
+
+export type PresetSlot = {
+  id: string;
+  name: string;
+  color: string;
+  settings: VRSettings;
+};
+
 export const defaultSettings: VRSettings = {
   leftOffsetX: 0,
   leftOffsetY: 0,
@@ -30,6 +98,9 @@ export const defaultSettings: VRSettings = {
   rightOffsetY: 0,
   scale: 1.0,
   separation: 0.02,
+  physicalLayout: false,
+  interLensMm: 64,
+  ipdMm: 63,
   contrast: 1.0,
   brightness: 0.0,
   gamma: 1.0,
@@ -37,13 +108,36 @@ export const defaultSettings: VRSettings = {
   shadows: 0.0,
   temperature: 0.0,
   distortionEnabled: true,
-  k1: 35,
-  k2: 20,
+  k1: 3.5,
+  k2: 2,
+  k3: 0,
+  p1: 0,
+  p2: 0,
+  radialTable: [],
+  chromaRed: 0,
+  chromaGreen: 0,
+  chromaBlue: 0,
+  chromaPattern: false,
   sphereStrength: 0,
   sphereDiameter: 100,
-  filterMode: "none",
+  filters: [],
   magnifierEnabled: false,
   magnifierZoom: 1.6,
   magnifierSize: 0.44,
+  stabilization: false,
+  stabilizationStrength: 80,
+  stabilizationWindow: 500,
+  stabilizationFrames: false,
+  torch: false,
+  manualFocus: false,
+  focusDistance: 0.3,
+  exposureCompensation: 0,
+  manualExposure: false,
+  iso: 400,
+  manualWhiteBalance: false,
+  colorTemperature: 5000,
+  gazeEnabled: false,
+  gazeSensitivity: 1.5,
+  gazeDwell: 1200,
   calibration: false
 };
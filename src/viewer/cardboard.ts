@@ -0,0 +1,300 @@
+import { t } from "../i18n/locale";
+import type { ScreenSize, VRSettings } from "../types";
+
+/** Decoded Cardboard `DeviceParams`. Distances are in metres, angles in degrees. */
+export type CardboardViewer = {
+  vendor: string;
+  model: string;
+  screenToLensDistance: number;
+  interLensDistance: number;
+  /** Left eye: outer, inner, top, bottom. */
+  fieldOfView: [number, number, number, number];
+  verticalAlignment: "bottom" | "center" | "top";
+  trayToLensDistance: number;
+  distortionCoefficients: number[];
+};
+
+export type ViewerFields = Pick<
+  VRSettings,
+  | "k1"
+  | "k2"
+  | "k3"
+  | "separation"
+  | "scale"
+  | "leftOffsetY"
+  | "rightOffsetY"
+  | "distortionEnabled"
+  | "physicalLayout"
+  | "interLensMm"
+>;
+
+// Cardboard v1, used by the SDK for any field a profile leaves out.
+const defaultViewer: CardboardViewer = {
+  vendor: "Google, Inc.",
+  model: "Cardboard v1",
+  screenToLensDistance: 0.042,
+  interLensDistance: 0.06,
+  fieldOfView: [40, 40, 40, 40],
+  verticalAlignment: "bottom",
+  trayToLensDistance: 0.035,
+  distortionCoefficients: [0.441, 0.156]
+};
+
+// Used while the phone's physical screen is unknown: a typical 6" screen.
+const ASSUMED_SCREEN: ScreenSize = { widthMm: 130, heightMm: 65 };
+
+const CONFIG_PATH = /(^|\/\/)(www\.)?google\.com\/cardboard\/cfg/;
+
+class ProtoReader {
+  private offset = 0;
+  private readonly bytes: Uint8Array;
+  private readonly view: DataView;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get done() {
+    return this.offset >= this.bytes.length;
+  }
+
+  varint() {
+    let result = 0;
+    let shift = 0;
+    for (;;) {
+      if (this.offset >= this.bytes.length || shift > 35) {
+        throw new Error(t("viewer.corrupt"));
+      }
+      const byte = this.bytes[this.offset] ?? 0;
+      this.offset += 1;
+      result += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+      if ((byte & 0x80) === 0) {
+        return result;
+      }
+    }
+  }
+
+  float() {
+    this.ensure(4);
+    const value = this.view.getFloat32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  bytesField() {
+    const length = this.varint();
+    this.ensure(length);
+    const value = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  skip(wireType: number) {
+    if (wireType === 0) {
+      this.varint();
+    } else if (wireType === 1) {
+      this.ensure(8);
+      this.offset += 8;
+    } else if (wireType === 2) {
+      this.bytesField();
+    } else if (wireType === 5) {
+      this.ensure(4);
+      this.offset += 4;
+    } else {
+      throw new Error(t("viewer.corrupt"));
+    }
+  }
+
+  private ensure(length: number) {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error(t("viewer.corrupt"));
+    }
+  }
+}
+
+const packedFloats = (reader: ProtoReader, wireType: number) => {
+  if (wireType === 5) {
+    return [reader.float()];
+  }
+  const packed = new ProtoReader(reader.bytesField());
+  const values: number[] = [];
+  while (!packed.done) {
+    values.push(packed.float());
+  }
+  return values;
+};
+
+const alignments: CardboardViewer["verticalAlignment"][] = ["bottom", "center", "top"];
+
+export const parseDeviceParams = (bytes: Uint8Array): CardboardViewer => {
+  const viewer = { ...defaultViewer, distortionCoefficients: [] as number[] };
+  const fov: number[] = [];
+  const reader = new ProtoReader(bytes);
+  const decoder = new TextDecoder();
+  while (!reader.done) {
+    const tag = reader.varint();
+    const field = Math.floor(tag / 8);
+    const wireType = tag % 8;
+    switch (field) {
+      case 1:
+        viewer.vendor = decoder.decode(reader.bytesField());
+        break;
+      case 2:
+        viewer.model = decoder.decode(reader.bytesField());
+        break;
+      case 3:
+        viewer.screenToLensDistance = reader.float();
+        break;
+      case 4:
+        viewer.interLensDistance = reader.float();
+        break;
+      case 5:
+        fov.push(...packedFloats(reader, wireType));
+        break;
+      case 6:
+        viewer.verticalAlignment = alignments[reader.varint()] ?? "bottom";
+        break;
+      case 7:
+        viewer.trayToLensDistance = reader.float();
+        break;
+      case 8:
+        viewer.distortionCoefficients.push(...packedFloats(reader, wireType));
+        break;
+      default:
+        reader.skip(wireType);
+    }
+  }
+  if (fov.length === 4) {
+    viewer.fieldOfView = fov as CardboardViewer["fieldOfView"];
+  }
+  if (viewer.distortionCoefficients.length === 0) {
+    viewer.distortionCoefficients = defaultViewer.distortionCoefficients;
+  }
+  if (!(viewer.screenToLensDistance > 0) || !(viewer.interLensDistance > 0)) {
+    throw new Error(t("viewer.badDistances"));
+  }
+  return viewer;
+};
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+/**
+ * Accepts a full `google.com/cardboard/cfg?p=…` URL (as encoded in the
+ * viewer's QR code) or just the base64url payload. Shortened goo.gl links
+ * have to be opened in a browser first, as resolving them needs the network.
+ */
+export const parseViewerProfile = (input: string): CardboardViewer => {
+  const text = input.trim();
+  if (!text) {
+    throw new Error(t("viewer.emptyInput"));
+  }
+  let payload = text;
+  if (/^https?:\/\//i.test(text) || CONFIG_PATH.test(text)) {
+    const url = new URL(/^https?:\/\//i.test(text) ? text : `https://${text}`);
+    if (!CONFIG_PATH.test(url.href)) {
+      throw new Error(
+        t("viewer.notLink")
+      );
+    }
+    payload = url.searchParams.get("p") ?? "";
+  }
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(payload);
+  } catch {
+    throw new Error(t("viewer.corrupt"));
+  }
+  if (bytes.length === 0) {
+    throw new Error(t("viewer.emptyProfile"));
+  }
+  return parseDeviceParams(bytes);
+};
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+/**
+ * Converts the physical lens description into the fitting fields. Distances
+ * are turned into eye-viewport units and Cardboard's tan-angle distortion
+ * polynomial into the texture-space k1–k3 that the lens pass uses. With a
+ * known screen the fitting switches to the physical layout, whose eye square
+ * is sized by the lens distance; otherwise a 6" screen split in half is
+ * assumed.
+ */
+export const viewerToSettings = (
+  viewer: CardboardViewer,
+  screen: ScreenSize | null
+): ViewerFields => {
+  const screenWidth = (screen ?? ASSUMED_SCREEN).widthMm / 1000;
+  const screenHeight = (screen ?? ASSUMED_SCREEN).heightMm / 1000;
+  const lensDistance = viewer.interLensDistance;
+  const eyeSize = screen
+    ? Math.min(screenHeight, lensDistance, screenWidth - lensDistance)
+    : Math.min(screenHeight, screenWidth / 2);
+  const viewportTan = eyeSize / 2 / viewer.screenToLensDistance;
+  const fovTan = Math.tan((Math.max(...viewer.fieldOfView) * Math.PI) / 180);
+  const scale = clamp(viewportTan / fovTan, 1, 3);
+
+  const toTan = (scale * eyeSize) / viewer.screenToLensDistance;
+  const [k1 = 0, k2 = 0, k3 = 0] = viewer.distortionCoefficients;
+
+  const lensShift = (screenWidth / 2 - lensDistance) / 2;
+  const separation = clamp(lensShift / eyeSize / scale, -0.1, 0.1);
+
+  const lensHeight =
+    viewer.verticalAlignment === "center"
+      ? screenHeight / 2
+      : viewer.verticalAlignment === "top"
+        ? screenHeight - viewer.trayToLensDistance
+        : viewer.trayToLensDistance;
+  const lensShiftY = lensHeight - screenHeight / 2;
+  const offsetY = clamp(-lensShiftY / eyeSize / scale, -0.2, 0.2);
+
+  return {
+    k1: round(clamp(k1 * toTan ** 2, -10, 10), 2),
+    k2: round(clamp(k2 * toTan ** 4, -10, 10), 2),
+    k3: round(clamp(k3 * toTan ** 6, -10, 10), 2),
+    separation: round(separation, 4),
+    scale: round(scale, 2),
+    leftOffsetY: round(offsetY, 4),
+    rightOffsetY: round(offsetY, 4),
+    distortionEnabled: k1 !== 0 || k2 !== 0 || k3 !== 0,
+    physicalLayout: screen !== null,
+    interLensMm: round(clamp(lensDistance * 1000, 50, 80), 1)
+  };
+};
+
+export const viewerName = (viewer: CardboardViewer) =>
+  [viewer.vendor, viewer.model].filter(Boolean).join(" ").trim() || t("viewer.defaultName");
+
+type BarcodeDetectorLike = {
+  detect: (source: CanvasImageSource) => Promise<Array<{ rawValue: string }>>;
+};
+
+type BarcodeDetectorConstructor = new (options: {
+  formats: string[];
+}) => BarcodeDetectorLike;
+
+const barcodeDetector = () =>
+  (window as Window & { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+export const supportsQrScan = () =>
+  typeof window !== "undefined" && Boolean(barcodeDetector());
+
+/** Reads the first QR code in the frame with the browser's BarcodeDetector. */
+export const scanQrCode = async (frame: HTMLCanvasElement) => {
+  const Detector = barcodeDetector();
+  if (!Detector) {
+    throw new Error(t("viewer.noQrScan"));
+  }
+  const codes = await new Detector({ formats: ["qr_code"] }).detect(frame);
+  return codes[0]?.rawValue ?? null;
+};
@@ -0,0 +1,59 @@
+import { CardboardViewer, parseViewerProfile, viewerName } from "./cardboard";
+
+/**
+ * A saved headset. Only the original profile payload is stored; the viewer
+ * is decoded again on load and turned into fitting fields when applied, as
+ * they depend on the screen.
+ */
+export type ViewerProfile = {
+  id: string;
+  name: string;
+  source: string;
+  viewer: CardboardViewer;
+};
+
+type StoredViewer = { id: string; name: string; source: string };
+
+let viewerCounter = 0;
+
+export const createViewerProfile = (source: string, name?: string): ViewerProfile => {
+  const viewer = parseViewerProfile(source);
+  viewerCounter += 1;
+  return {
+    id: `viewer-${Date.now().toString(36)}-${viewerCounter}`,
+    name: (name ?? viewerName(viewer)).slice(0, 40),
+    source: source.trim(),
+    viewer
+  };
+};
+
+/** Entries that no longer parse are dropped. */
+export const parseStoredViewers = (stored: string | null): ViewerProfile[] => {
+  if (!stored) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(stored) as unknown;
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed.flatMap((entry: Partial<StoredViewer>) => {
+      if (!entry || typeof entry.source !== "string" || typeof entry.id !== "string") {
+        return [];
+      }
+      try {
+        const profile = createViewerProfile(entry.source, entry.name);
+        return [{ ...profile, id: entry.id }];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const serializeViewers = (profiles: ViewerProfile[]) =>
+  JSON.stringify(
+    profiles.map(({ id, name, source }): StoredViewer => ({ id, name, source }))
+  );
@@ -0,0 +1,57 @@
+import type { ScreenSize } from "../types";
+
+export type ScreenDevice = ScreenSize & {
+  id: string;
+  name: string;
+};
+
+/**
+ * Active display area of common phones in landscape, derived from the
+ * published resolution and pixel density. Rounded corners and notches are
+ * ignored; pick a custom size and measure when in doubt.
+ */
+export const screenDevices: ScreenDevice[] = [
+  { id: "iphone-se", name: "iPhone SE (2020/2022)", widthMm: 103.9, heightMm: 58.4 },
+  { id: "iphone-13", name: "iPhone 12/13/14", widthMm: 139.8, heightMm: 64.6 },
+  { id: "iphone-15", name: "iPhone 15/15 Pro", widthMm: 141.1, heightMm: 65.1 },
+  { id: "iphone-pro-max", name: "iPhone 14/15 Pro Max", widthMm: 154.1, heightMm: 71.2 },
+  { id: "galaxy-s21", name: "Samsung Galaxy S21", widthMm: 144.8, heightMm: 65.2 },
+  { id: "galaxy-s23", name: "Samsung Galaxy S23", widthMm: 139.9, heightMm: 64.5 },
+  { id: "galaxy-a54", name: "Samsung Galaxy A54", widthMm: 147.5, heightMm: 68.1 },
+  { id: "pixel-7", name: "Google Pixel 7", widthMm: 146.5, heightMm: 65.9 },
+  { id: "pixel-8", name: "Google Pixel 8", widthMm: 142.4, heightMm: 64.1 },
+  { id: "redmi-note-12", name: "Xiaomi Redmi Note 12", widthMm: 154.3, heightMm: 69.4 }
+];
+
+export const SCREEN_MM_MIN = 40;
+export const SCREEN_MM_MAX = 300;
+
+/** The stored screen; `deviceId` is null for a measured size. */
+export type StoredScreen = ScreenSize & {
+  deviceId: string | null;
+};
+
+const validSize = (value: unknown) =>
+  typeof value === "number" && value >= SCREEN_MM_MIN && value <= SCREEN_MM_MAX;
+
+export const parseStoredScreen = (stored: string | null): StoredScreen | null => {
+  if (!stored) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(stored) as Partial<StoredScreen>;
+    if (!parsed || !validSize(parsed.widthMm) || !validSize(parsed.heightMm)) {
+      return null;
+    }
+    const device = screenDevices.find((item) => item.id === parsed.deviceId);
+    return {
+      deviceId: device?.id ?? null,
+      widthMm: parsed.widthMm as number,
+      heightMm: parsed.heightMm as number
+    };
+  } catch {
+    return null;
+  }
+};
+
+export const serializeScreen = (screen: StoredScreen) => JSON.stringify(screen);
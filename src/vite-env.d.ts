@@ -1 +1,5 @@
 /// <reference types="vite/client" />
+
+declare module "virtual:ocr-languages" {
+  export const ocrLanguages: string[];
+}
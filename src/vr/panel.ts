@@ -0,0 +1,346 @@
+import { getFilter } from "../gl/filters";
+import { t } from "../i18n/locale";
+import type { MessageKey } from "../i18n/ru";
+import type { VRSettings } from "../types";
+
+/** Side of the panel texture in pixels; the renderer scales it into each eye. */
+export const PANEL_PIXELS = 768;
+
+/** Settings the headset panel edits directly. */
+export type PanelField = "brightness" | "contrast" | "scale" | "magnifierZoom" | "magnifierSize";
+
+export type PanelAction =
+  | { kind: "set"; field: PanelField; value: number }
+  | { kind: "magnifier" }
+  | { kind: "filter"; id: string }
+  | { kind: "settings" }
+  | { kind: "close" };
+
+/** Panel coordinates: 0 to 1 across and down, like the VR cursor. */
+export type PanelPoint = { x: number; y: number };
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+export type PanelItem =
+  | { kind: "text"; rect: Rect; text: string; align: "left" | "right"; strong: boolean }
+  | {
+      kind: "button";
+      rect: Rect;
+      key: string;
+      text: string;
+      active: boolean;
+      action: PanelAction;
+    }
+  | {
+      kind: "track";
+      rect: Rect;
+      key: string;
+      field: PanelField;
+      value: number;
+      min: number;
+      max: number;
+      step: number;
+    };
+
+/** What the cursor is over. `key` names it for as long as the layout stands, for dwelling. */
+export type PanelTarget = {
+  key: string;
+  action: PanelAction;
+};
+
+type PanelSlider = {
+  field: PanelField;
+  label: MessageKey;
+  min: number;
+  max: number;
+  /** What one press of − or + changes; the track snaps to it as well. */
+  step: number;
+};
+
+// The same ranges as the settings panel's sliders, in coarser steps: a
+// head-pointed cursor cannot hit a 0.01 increment.
+const sliders: PanelSlider[] = [
+  { field: "brightness", label: "image.brightness", min: -0.5, max: 0.5, step: 0.02 },
+  { field: "contrast", label: "image.contrast", min: 0.5, max: 2, step: 0.05 },
+  { field: "scale", label: "align.scale", min: 1, max: 3, step: 0.05 },
+  { field: "magnifierZoom", label: "magnifier.zoom", min: 1, max: 10, step: 0.25 },
+  { field: "magnifierSize", label: "magnifier.size", min: 0.2, max: 1, step: 0.02 }
+];
+
+const MAX_FILTER_TOGGLES = 5;
+const TOGGLE_COLUMNS = 3;
+
+const PADDING = 0.04;
+const GAP = 0.015;
+const HEADER_HEIGHT = 0.09;
+const SLIDER_HEIGHT = 0.105;
+const TOGGLE_HEIGHT = 0.085;
+const FOOTER_HEIGHT = 0.07;
+const NUDGE_WIDTH = 0.1;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const snap = (value: number, slider: { min: number; max: number; step: number }) =>
+  Number(clamp(Math.round(value / slider.step) * slider.step, slider.min, slider.max).toFixed(4));
+
+/** Everything on the panel for `settings`, top to bottom. */
+export const layoutPanel = (settings: VRSettings): PanelItem[] => {
+  const width = 1 - PADDING * 2;
+  const items: PanelItem[] = [];
+  let y = PADDING;
+
+  items.push({
+    kind: "text",
+    rect: { x: PADDING, y, width: width * 0.6, height: HEADER_HEIGHT },
+    text: t("hud.settings"),
+    align: "left",
+    strong: true
+  });
+  items.push({
+    kind: "button",
+    rect: { x: 1 - PADDING - 0.24, y, width: 0.24, height: HEADER_HEIGHT },
+    key: "close",
+    text: t("common.close"),
+    active: false,
+    action: { kind: "close" }
+  });
+  y += HEADER_HEIGHT + GAP;
+
+  sliders.forEach((slider) => {
+    const value = settings[slider.field];
+    const half = (SLIDER_HEIGHT - GAP) / 2;
+    items.push({
+      kind: "text",
+      rect: { x: PADDING, y, width: width * 0.7, height: half },
+      text: t(slider.label),
+      align: "left",
+      strong: false
+    });
+    items.push({
+      kind: "text",
+      rect: { x: PADDING + width * 0.7, y, width: width * 0.3, height: half },
+      text: value.toFixed(2),
+      align: "right",
+      strong: false
+    });
+    const row = y + half;
+    items.push({
+      kind: "button",
+      rect: { x: PADDING, y: row, width: NUDGE_WIDTH, height: half },
+      key: `${slider.field}:down`,
+      text: "−",
+      active: false,
+      action: { kind: "set", field: slider.field, value: snap(value - slider.step, slider) }
+    });
+    items.push({
+      kind: "track",
+      rect: {
+        x: PADDING + NUDGE_WIDTH + GAP,
+        y: row,
+        width: width - (NUDGE_WIDTH + GAP) * 2,
+        height: half
+      },
+      key: `${slider.field}:track`,
+      field: slider.field,
+      value,
+      min: slider.min,
+      max: slider.max,
+      step: slider.step
+    });
+    items.push({
+      kind: "button",
+      rect: { x: 1 - PADDING - NUDGE_WIDTH, y: row, width: NUDGE_WIDTH, height: half },
+      key: `${slider.field}:up`,
+      text: "+",
+      active: false,
+      action: { kind: "set", field: slider.field, value: snap(value + slider.step, slider) }
+    });
+    y += SLIDER_HEIGHT;
+  });
+  y += GAP;
+
+  const toggles: Array<{ key: string; text: string; active: boolean; action: PanelAction }> = [
+    {
+      key: "magnifier",
+      text: t("magnifier.title"),
+      active: settings.magnifierEnabled,
+      action: { kind: "magnifier" }
+    },
+    ...settings.filters.slice(0, MAX_FILTER_TOGGLES).map((filter) => {
+      const definition = getFilter(filter.type);
+      return {
+        key: `filter:${filter.id}`,
+        text: definition ? t(definition.label) : filter.type,
+        active: filter.enabled,
+        action: { kind: "filter", id: filter.id } as PanelAction
+      };
+    })
+  ];
+  const toggleWidth = (width - GAP * (TOGGLE_COLUMNS - 1)) / TOGGLE_COLUMNS;
+  toggles.forEach((toggle, index) => {
+    const column = index % TOGGLE_COLUMNS;
+    const row = Math.floor(index / TOGGLE_COLUMNS);
+    items.push({
+      kind: "button",
+      rect: {
+        x: PADDING + column * (toggleWidth + GAP),
+        y: y + row * (TOGGLE_HEIGHT + GAP),
+        width: toggleWidth,
+        height: TOGGLE_HEIGHT
+      },
+      ...toggle
+    });
+  });
+
+  items.push({
+    kind: "button",
+    rect: { x: PADDING, y: 1 - PADDING - FOOTER_HEIGHT, width, height: FOOTER_HEIGHT },
+    key: "settings",
+    text: t("panel.allSettings"),
+    active: false,
+    action: { kind: "settings" }
+  });
+  return items;
+};
+
+const contains = (rect: Rect, point: PanelPoint) =>
+  point.x >= rect.x &&
+  point.x <= rect.x + rect.width &&
+  point.y >= rect.y &&
+  point.y <= rect.y + rect.height;
+
+/** What pressing at `point` would do; a track sets the value under the cursor. */
+export const panelTargetAt = (items: PanelItem[], point: PanelPoint): PanelTarget | null => {
+  for (const item of items) {
+    if (item.kind === "text" || !contains(item.rect, point)) {
+      continue;
+    }
+    if (item.kind === "button") {
+      return { key: item.key, action: item.action };
+    }
+    const share = clamp((point.x - item.rect.x) / item.rect.width, 0, 1);
+    return {
+      key: item.key,
+      action: {
+        kind: "set",
+        field: item.field,
+        value: snap(item.min + share * (item.max - item.min), item)
+      }
+    };
+  }
+  return null;
+};
+
+const ACCENT = "rgba(78, 242, 198, 0.95)";
+
+const roundRect = (context: CanvasRenderingContext2D, rect: Rect, radius: number) => {
+  const size = context.canvas.width;
+  context.beginPath();
+  context.roundRect(rect.x * size, rect.y * size, rect.width * size, rect.height * size, radius);
+};
+
+const drawItem = (context: CanvasRenderingContext2D, item: PanelItem, hoverKey: string | null) => {
+  const size = context.canvas.width;
+  const { rect } = item;
+  const middle = (rect.y + rect.height / 2) * size;
+  if (item.kind === "text") {
+    context.fillStyle = item.strong ? "#ffffff" : "rgba(255, 255, 255, 0.8)";
+    context.font = `${item.strong ? 700 : 500} ${Math.round(rect.height * size * 0.6)}px sans-serif`;
+    context.textAlign = item.align;
+    context.textBaseline = "middle";
+    const x = item.align === "left" ? rect.x : rect.x + rect.width;
+    context.fillText(item.text, x * size, middle, rect.width * size);
+    return;
+  }
+  const hovered = item.key === hoverKey;
+  if (item.kind === "track") {
+    const share = (item.value - item.min) / (item.max - item.min);
+    const bar = { ...rect, y: rect.y + rect.height * 0.35, height: rect.height * 0.3 };
+    roundRect(context, bar, 8);
+    context.fillStyle = "rgba(255, 255, 255, 0.18)";
+    context.fill();
+    roundRect(context, { ...bar, width: bar.width * share }, 8);
+    context.fillStyle = ACCENT;
+    context.fill();
+    context.beginPath();
+    context.arc(
+      (rect.x + rect.width * share) * size,
+      middle,
+      rect.height * size * 0.32,
+      0,
+      Math.PI * 2
+    );
+    context.fillStyle = hovered ? "#ffffff" : "rgba(255, 255, 255, 0.85)";
+    context.fill();
+    return;
+  }
+  roundRect(context, rect, 12);
+  context.fillStyle = item.active ? "rgba(78, 242, 198, 0.35)" : "rgba(255, 255, 255, 0.1)";
+  context.fill();
+  if (item.active || hovered) {
+    context.lineWidth = hovered ? 5 : 3;
+    context.strokeStyle = hovered ? "#ffffff" : ACCENT;
+    context.stroke();
+  }
+  context.fillStyle = "#ffffff";
+  context.font = `600 ${Math.round(rect.height * size * 0.45)}px sans-serif`;
+  context.textAlign = "center";
+  context.textBaseline = "middle";
+  context.fillText(item.text, (rect.x + rect.width / 2) * size, middle, rect.width * size * 0.9);
+};
+
+/**
+ * The settings panel shown inside the headset. It is drawn into its own
+ * canvas, cursor and dwell ring included, and the renderer warps that
+ * canvas into each eye like the camera image, so it lines up with each
+ * lens. The DOM settings panel stays the way in from outside the headset.
+ */
+export class HeadsetPanel {
+  readonly canvas: HTMLCanvasElement;
+  private items: PanelItem[] = [];
+
+  constructor() {
+    this.canvas = document.createElement("canvas");
+    this.canvas.width = PANEL_PIXELS;
+    this.canvas.height = PANEL_PIXELS;
+  }
+
+  targetAt(point: PanelPoint) {
+    return panelTargetAt(this.items, point);
+  }
+
+  /** Lays the panel out for `settings` and redraws it; `progress` is the dwell, 0 to 1. */
+  draw(settings: VRSettings, cursor: PanelPoint, progress: number) {
+    const context = this.canvas.getContext("2d");
+    if (!context) {
+      return;
+    }
+    this.items = layoutPanel(settings);
+    const size = PANEL_PIXELS;
+    context.clearRect(0, 0, size, size);
+    roundRect(context, { x: 0, y: 0, width: 1, height: 1 }, 28);
+    context.fillStyle = "rgba(6, 12, 16, 0.82)";
+    context.fill();
+
+    const hoverKey = this.targetAt(cursor)?.key ?? null;
+    this.items.forEach((item) => drawItem(context, item, hoverKey));
+
+    const x = cursor.x * size;
+    const y = cursor.y * size;
+    if (progress > 0) {
+      context.beginPath();
+      context.arc(x, y, 26, -Math.PI / 2, -Math.PI / 2 + progress * Math.PI * 2);
+      context.lineWidth = 6;
+      context.lineCap = "round";
+      context.strokeStyle = ACCENT;
+      context.stroke();
+    }
+    context.beginPath();
+    context.arc(x, y, 12, 0, Math.PI * 2);
+    context.fillStyle = "rgba(255, 70, 70, 0.25)";
+    context.fill();
+    context.lineWidth = 3;
+    context.strokeStyle = "rgba(255, 70, 70, 0.95)";
+    context.stroke();
+  }
+}
@@ -1,8 +1,138 @@
-import { defineConfig } from "vite";
+import { createHash } from "node:crypto";
+import { createRequire } from "node:module";
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { dirname, join, relative, sep } from "node:path";
+import { defineConfig, Plugin, transformWithEsbuild } from "vite";
 import react from "@vitejs/plugin-react";
 
+const require = createRequire(import.meta.url);
+
+const OCR_LANGUAGES = ["rus", "eng"];
+const OCR_LANGUAGES_MODULE = "virtual:ocr-languages";
+
+// OCR language packs come from the optional @tesseract.js-data/<lang>
+// packages and are served from the app's own origin, so recognition never
+// reaches out to a CDN. Packs that are not installed are skipped.
+const resolveTrainedData = (lang: string) => {
+  try {
+    const pkg = require.resolve(`@tesseract.js-data/${lang}/package.json`);
+    const file = join(dirname(pkg), "4.0.0_best_int", `${lang}.traineddata.gz`);
+    return existsSync(file) ? file : null;
+  } catch {
+    return null;
+  }
+};
+
+const ocrLanguagePacks = (): Plugin => {
+  const packs = new Map<string, string>();
+  OCR_LANGUAGES.forEach((lang) => {
+    const file = resolveTrainedData(lang);
+    if (file) {
+      packs.set(lang, file);
+    }
+  });
+
+  return {
+    name: "ocr-language-packs",
+    buildStart() {
+      OCR_LANGUAGES.filter((lang) => !packs.has(lang)).forEach((lang) => {
+        this.warn(`OCR language pack @tesseract.js-data/${lang} is not installed.`);
+      });
+    },
+    resolveId(id) {
+      return id === OCR_LANGUAGES_MODULE ? `\0${OCR_LANGUAGES_MODULE}` : null;
+    },
+    load(id) {
+      if (id !== `\0${OCR_LANGUAGES_MODULE}`) {
+        return null;
+      }
+      return `export const ocrLanguages = ${JSON.stringify(Array.from(packs.keys()))};`;
+    },
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const match = req.url?.match(/\/tessdata\/(\w+)\.traineddata\.gz$/);
+        const file = match?.[1] ? packs.get(match[1]) : undefined;
+        if (!file) {
+          next();
+          return;
+        }
+        res.setHeader("Content-Type", "application/octet-stream");
+        res.end(readFileSync(file));
+      });
+    },
+    generateBundle() {
+      packs.forEach((file, lang) => {
+        this.emitFile({
+          type: "asset",
+          fileName: `tessdata/${lang}.traineddata.gz`,
+          source: readFileSync(file)
+        });
+      });
+    }
+  };
+};
+
+const SERVICE_WORKER_SOURCE = "src/pwa/service-worker.ts";
+
+const publicFiles = (publicDir: string) =>
+  publicDir && existsSync(publicDir)
+    ? readdirSync(publicDir, { recursive: true, withFileTypes: true })
+        .filter((entry) => entry.isFile())
+        .map((entry) => join(entry.parentPath, entry.name))
+    : [];
+
+// Emits sw.js with the list of every built file, OCR packs included, so the
+// app starts and reads text without a connection. The list is hashed into
+// the cache name: any change to the build is a new version to update to.
+const serviceWorker = (): Plugin => {
+  let publicDir = "";
+
+  return {
+    name: "service-worker",
+    apply: "build",
+    // After Vite's own plugins, so index.html and the CSS are in the bundle.
+    enforce: "post",
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    async generateBundle(_options, bundle) {
+      const hash = createHash("sha256");
+      const files: string[] = [];
+      Object.values(bundle).forEach((file) => {
+        if (file.fileName.endsWith(".map")) {
+          return;
+        }
+        files.push(file.fileName);
+        hash.update(file.fileName);
+        hash.update(file.type === "chunk" ? file.code : file.source);
+      });
+      publicFiles(publicDir).forEach((file) => {
+        const fileName = relative(publicDir, file).split(sep).join("/");
+        files.push(fileName);
+        hash.update(fileName);
+        hash.update(readFileSync(file));
+      });
+
+      const { code } = await transformWithEsbuild(
+        readFileSync(SERVICE_WORKER_SOURCE, "utf8"),
+        SERVICE_WORKER_SOURCE,
+        { loader: "ts", format: "iife", target: "es2020" }
+      );
+      this.emitFile({
+        type: "asset",
+        fileName: "sw.js",
+        source: [
+          `const PRECACHE_MANIFEST = ${JSON.stringify(files.sort())};`,
+          `const CACHE_VERSION = ${JSON.stringify(hash.digest("hex").slice(0, 16))};`,
+          code
+        ].join("\n")
+      });
+    }
+  };
+};
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), ocrLanguagePacks(), serviceWorker()],
   server: {
     host: true
   }